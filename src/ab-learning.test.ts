@@ -1,17 +1,33 @@
-import { beforeEach, describe, expect, test } from 'bun:test';
-import { unlink } from 'fs/promises';
+import { afterAll, afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { mkdir, unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import Database from 'bun:sqlite';
-import pluginModule from './ab-learning';
+import pluginModule, { ABLearningPlugin, StubLLMProvider } from './ab-learning';
 
 const TEST_DB = '.opencode/test_ab_learning.db';
 
 // Narrow the default export to the expected shape
 const pluginFactory = pluginModule as unknown as {
-  initialize: () => Promise<any>;
+  initialize: (options?: { dbPath?: string }) => Promise<any>;
 };
 
+// Assign a task to a specific variant and record its outcome
+function recordTask(plugin: ABLearningPlugin, variantId: string, taskId: string, success: boolean) {
+  plugin.assignVariant([variantId], '', taskId);
+  plugin.recordFeedback({
+    taskId,
+    reward: success ? 1 : 0,
+    latencyMs: 100,
+    tokenCost: 50,
+    success,
+    timestamp: Date.now(),
+  });
+}
+
 describe('ABLearningPlugin integration', () => {
   beforeEach(async () => {
+    await mkdir('.opencode', { recursive: true });
     try {
       await unlink(TEST_DB);
     } catch {
@@ -20,7 +36,7 @@ describe('ABLearningPlugin integration', () => {
   });
 
   test('initializes and creates database schema', async () => {
-    const plugin = await pluginFactory.initialize();
+    const plugin = await pluginFactory.initialize({ dbPath: TEST_DB });
 
     const db = new Database(TEST_DB);
     const tables = db
@@ -41,13 +57,14 @@ describe('ABLearningPlugin integration', () => {
   });
 
   test('Thompson Sampling prefers higher alpha/beta ratio', async () => {
-    const plugin = await pluginFactory.initialize();
+    const plugin = new ABLearningPlugin(TEST_DB);
 
     const lowId = plugin.createVariant('low performer');
     const highId = plugin.createVariant('high performer');
 
     // Simulate feedback: high performer wins more often
     for (let i = 0; i < 20; i++) {
+      plugin.assignVariant([highId], '', `t_high_${i}`);
       plugin.recordFeedback({
         taskId: `t_high_${i}`,
         variantId: highId,
@@ -60,6 +77,7 @@ describe('ABLearningPlugin integration', () => {
     }
 
     for (let i = 0; i < 5; i++) {
+      plugin.assignVariant([lowId], '', `t_low_${i}`);
       plugin.recordFeedback({
         taskId: `t_low_${i}`,
         variantId: lowId,
@@ -86,9 +104,10 @@ describe('ABLearningPlugin integration', () => {
   });
 
   test('records feedback and updates Bayesian statistics', async () => {
-    const plugin = await pluginFactory.initialize();
+    const plugin = new ABLearningPlugin(TEST_DB);
     const variantId = plugin.createVariant('test variant');
 
+    plugin.assignVariant([variantId], '', 'task_1');
     plugin.recordFeedback({
       taskId: 'task_1',
       variantId,
@@ -110,13 +129,14 @@ describe('ABLearningPlugin integration', () => {
   });
 
   test('evaluateABTest returns sensible winner and confidence', async () => {
-    const plugin = await pluginFactory.initialize();
+    const plugin = new ABLearningPlugin(TEST_DB);
 
     const a = plugin.createVariant('A');
     const b = plugin.createVariant('B');
 
     // Variant A: mostly wins
     for (let i = 0; i < 30; i++) {
+      plugin.assignVariant([a], '', `A_${i}`);
       plugin.recordFeedback({
         taskId: `A_${i}`,
         variantId: a,
@@ -130,6 +150,7 @@ describe('ABLearningPlugin integration', () => {
 
     // Variant B: mostly loses
     for (let i = 0; i < 30; i++) {
+      plugin.assignVariant([b], '', `B_${i}`);
       plugin.recordFeedback({
         taskId: `B_${i}`,
         variantId: b,
@@ -149,3 +170,1772 @@ describe('ABLearningPlugin integration', () => {
     plugin.close();
   });
 });
+
+describe('Contextual bandit (LinUCB)', () => {
+  test('learns per-variant preferences for different contexts', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const a = plugin.createVariant('good at context A');
+    const b = plugin.createVariant('good at context B');
+
+    for (let i = 0; i < 20; i++) {
+      plugin.recordContextualReward(a, [1, 0], 1);
+      plugin.recordContextualReward(a, [0, 1], 0);
+      plugin.recordContextualReward(b, [1, 0], 0);
+      plugin.recordContextualReward(b, [0, 1], 1);
+    }
+
+    expect(plugin.contextualBanditSelect([a, b], [1, 0])).toBe(a);
+    expect(plugin.contextualBanditSelect([a, b], [0, 1])).toBe(b);
+
+    plugin.close();
+  });
+
+  test('persists state and contextual_features rows across restarts', async () => {
+    const dbPath = '/tmp/ab_learning_linucb_test.db';
+    await unlink(dbPath).catch(() => {});
+
+    const first = new ABLearningPlugin(dbPath);
+    const a = first.createVariant('A');
+    const b = first.createVariant('B');
+    for (let i = 0; i < 10; i++) {
+      first.recordContextualReward(a, [1, 0.5], 0);
+      first.recordContextualReward(b, [1, 0.5], 1);
+    }
+    first.close();
+
+    const second = new ABLearningPlugin(dbPath);
+    expect(second.contextualBanditSelect([a, b], [1, 0.5])).toBe(b);
+    second.close();
+
+    const db = new Database(dbPath);
+    const row = db
+      .query('SELECT COUNT(*) AS n FROM contextual_features WHERE variant_id = ?')
+      .get(a) as { n: number };
+    expect(row.n).toBe(10);
+    db.close();
+
+    await unlink(dbPath);
+  });
+
+  test('rejects contexts whose dimension differs from stored state', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const a = plugin.createVariant('A');
+    plugin.recordContextualReward(a, [1, 0, 0], 1);
+
+    expect(() => plugin.contextualBanditSelect([a], [1, 0])).toThrow('dimension mismatch');
+
+    plugin.close();
+  });
+});
+
+describe('Experiments', () => {
+  test('variants, feedback and evolution runs are scoped to their experiment', async () => {
+    const plugin = new ABLearningPlugin(':memory:', { llmProvider: new StubLLMProvider() });
+    const commits = plugin.createExperiment('commit-message', 'Commit message prompts');
+    const reviews = plugin.createExperiment('code-review');
+
+    const c1 = plugin.createVariant('Write a conventional commit', undefined, 0, commits.id);
+    const c2 = plugin.createVariant('Summarise the diff in one line', undefined, 0, commits.id);
+    const r1 = plugin.createVariant('Review for bugs', undefined, 0, reviews.id);
+
+    expect(plugin.getExperimentVariantIds(commits.id)).toEqual([c1, c2]);
+    expect(plugin.getExperimentVariantIds(reviews.id)).toEqual([r1]);
+    expect(plugin.getAllVariants(reviews.id).map((v: { id: string }) => v.id)).toEqual([r1]);
+
+    for (let i = 0; i < 10; i++) {
+      recordTask(plugin, c1, `c1_${i}`, true);
+      recordTask(plugin, c2, `c2_${i}`, i % 2 === 0);
+      recordTask(plugin, r1, `r1_${i}`, true);
+    }
+
+    const offspring = await plugin.evolvePrompts(2, 1, commits.id);
+    expect(offspring).toHaveLength(1);
+    expect(plugin.getExperimentVariantIds(commits.id)).toContain(offspring[0]);
+    expect(plugin.getExperimentVariantIds(reviews.id)).toEqual([r1]);
+
+    const runs = plugin.getEvolutionRuns(commits.id);
+    expect(runs).toHaveLength(1);
+    expect(runs[0].offspringIds).toEqual(offspring);
+    expect(plugin.getEvolutionRuns(reviews.id)).toHaveLength(0);
+
+    plugin.close();
+  });
+
+  test('selection and evaluation refuse to mix experiments', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const a = plugin.createExperiment('a');
+    const b = plugin.createExperiment('b');
+    const va = plugin.createVariant('A', undefined, 0, a.id);
+    const vb = plugin.createVariant('B', undefined, 0, b.id);
+
+    expect(() => plugin.thompsonSample([va, vb])).toThrow('different experiments');
+    expect(() => plugin.evaluateABTest(va, vb)).toThrow('different experiments');
+    expect(() => plugin.contextualBanditSelect([va, vb], [1])).toThrow('different experiments');
+
+    plugin.close();
+  });
+
+  test('paused and archived experiments stop serving variants', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const experiment = plugin.createExperiment('paused');
+    const v = plugin.createVariant('A', undefined, 0, experiment.id);
+
+    plugin.setExperimentStatus(experiment.id, 'paused');
+    expect(() => plugin.thompsonSample([v])).toThrow('paused');
+    expect(plugin.listExperiments('paused').map((e: { id: string }) => e.id)).toEqual([
+      experiment.id,
+    ]);
+
+    plugin.setExperimentStatus(experiment.id, 'active');
+    expect(plugin.thompsonSample([v])).toBe(v);
+
+    plugin.setExperimentStatus(experiment.id, 'archived');
+    expect(() => plugin.setExperimentStatus(experiment.id, 'active')).toThrow('archived');
+    expect(() => plugin.createVariant('B', undefined, 0, experiment.id)).toThrow('archived');
+
+    plugin.close();
+  });
+
+  test('experiment names are unique', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    plugin.createExperiment('dup');
+    expect(() => plugin.createExperiment('dup')).toThrow('already exists');
+    plugin.close();
+  });
+});
+
+describe('Assignments', () => {
+  test('selection records an assignment with a task ID and context', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const a = plugin.createVariant('A');
+    const b = plugin.createVariant('B');
+
+    const assignment = plugin.assignVariant([a, b], 'refactor auth module');
+    expect([a, b]).toContain(assignment.variantId);
+    expect(assignment.taskId).toMatch(/^[0-9a-f]{32}$/);
+    expect(assignment.experimentId).toBe('default');
+    expect(plugin.getAssignment(assignment.taskId)).toEqual(assignment);
+
+    const contextual = plugin.assignContextualVariant([a, b], [0.5, 1], 'ctx_task');
+    expect(plugin.getAssignment('ctx_task')?.context).toBe('[0.5,1]');
+    expect(contextual.taskId).toBe('ctx_task');
+
+    plugin.close();
+  });
+
+  test('feedback is attributed to the assigned variant', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const a = plugin.createVariant('A');
+    const { taskId, variantId } = plugin.assignVariant([a]);
+
+    plugin.recordFeedback({
+      taskId,
+      reward: 1,
+      latencyMs: 100,
+      tokenCost: 50,
+      success: true,
+      timestamp: Date.now(),
+    });
+
+    expect(plugin.getVariantStats(variantId).totalTrials).toBe(1);
+    plugin.close();
+  });
+
+  test('rejects duplicate, unknown and mismatched feedback', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const a = plugin.createVariant('A');
+    const b = plugin.createVariant('B');
+    plugin.assignVariant([a], '', 'task');
+    const base = { reward: 1, latencyMs: 1, tokenCost: 1, success: true, timestamp: Date.now() };
+
+    expect(() => plugin.recordFeedback({ ...base, taskId: 'nope' })).toThrow('Unknown task');
+    expect(() => plugin.recordFeedback({ ...base, taskId: 'task', variantId: b })).toThrow(
+      'Variant mismatch'
+    );
+
+    plugin.recordFeedback({ ...base, taskId: 'task', variantId: a });
+    expect(() => plugin.recordFeedback({ ...base, taskId: 'task' })).toThrow('already recorded');
+    expect(plugin.getVariantStats(a).totalTrials).toBe(1);
+
+    expect(() => plugin.assignVariant([a], '', 'task')).toThrow('already has an assignment');
+
+    plugin.close();
+  });
+});
+
+describe('Prompt evolution operators', () => {
+  function seedPopulation(plugin: ABLearningPlugin) {
+    const a = plugin.createVariant('Review the diff for bugs.');
+    const b = plugin.createVariant('List security issues first.');
+    for (let i = 0; i < 10; i++) {
+      recordTask(plugin, a, `a_${i}`, true);
+      recordTask(plugin, b, `b_${i}`, i % 2 === 0);
+    }
+  }
+
+  test('offspring come from the injected LLM provider', async () => {
+    const provider = new StubLLMProvider(['Review the diff for bugs and security issues.']);
+    const plugin = new ABLearningPlugin(':memory:', { llmProvider: provider });
+    seedPopulation(plugin);
+
+    const [child] = await plugin.evolvePrompts(2, 1);
+    const template = plugin.getAllVariants().find((v: { id: string }) => v.id === child)?.template;
+
+    expect(provider.calls[0]).toContain('combines the best aspects');
+    expect(template).toMatch(/^Review the diff for bugs and security issues\./);
+
+    plugin.close();
+  });
+
+  test('evolution without a provider or explicit offline mode is rejected', async () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    seedPopulation(plugin);
+
+    await expect(plugin.evolvePrompts(2, 1)).rejects.toThrow('requires an LLM provider');
+
+    plugin.close();
+  });
+
+  test('offline mode recombines genome sections and records their inheritance', async () => {
+    const plugin = new ABLearningPlugin(':memory:', { offlineEvolution: true, seed: 12 });
+    const a = plugin.createVariant('You are a reviewer.\n\nReview the diff for bugs.');
+    const b = plugin.createVariant(
+      '## Instructions\nList security issues first.\n\n## Output format\nA numbered list.'
+    );
+    for (let i = 0; i < 10; i++) {
+      recordTask(plugin, a, `a_${i}`, true);
+      recordTask(plugin, b, `b_${i}`, i % 2 === 0);
+    }
+
+    const children = await plugin.evolvePrompts(2, 3);
+    const variants = plugin.getAllVariants();
+    for (const id of children) {
+      const child = variants.find(v => v.id === id)!;
+      expect(child.template).not.toContain('Additionally:');
+      expect(child.inheritance!.length).toBeGreaterThan(0);
+      // Later generations also breed from earlier offspring
+      for (const inherited of child.inheritance!) {
+        expect([a, b, ...children, null]).toContain(inherited.parentId);
+      }
+    }
+    expect(variants.find(v => v.id === a)!.inheritance).toBeUndefined();
+
+    plugin.close();
+  });
+
+  test('offline append mode keeps the original text-appending operator', async () => {
+    const plugin = new ABLearningPlugin(':memory:', { offlineEvolution: 'append', seed: 12 });
+    const a = plugin.createVariant('Review the diff for bugs.');
+    const b = plugin.createVariant('List security issues first.');
+    for (let i = 0; i < 10; i++) {
+      recordTask(plugin, a, `a_${i}`, true);
+      recordTask(plugin, b, `b_${i}`, i % 2 === 0);
+    }
+
+    const [child] = await plugin.evolvePrompts(2, 1, 'default', { eliteCount: 0 });
+    const template = plugin.getAllVariants().find(v => v.id === child)!.template;
+    expect(template).toBe('Review the diff for bugs.\n\nAdditionally: List security issues first.');
+    expect(plugin.getVariantLineage(child).edges[0].operator).toBe('offline');
+
+    plugin.close();
+  });
+});
+
+describe('Preference learning', () => {
+  test('preferences fit Bradley-Terry strengths without touching Beta posteriors', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const a = plugin.createVariant('A');
+    const b = plugin.createVariant('B');
+    const c = plugin.createVariant('C');
+
+    for (let i = 0; i < 5; i++) {
+      plugin.recordPreference(a, b, 'ctx');
+      plugin.recordPreference(b, c, 'ctx');
+    }
+
+    const ranking = plugin.getPreferenceRanking();
+    expect(ranking.map((r: { variantId: string }) => r.variantId)).toEqual([a, b, c]);
+    expect(ranking[0].stdError).toBeGreaterThan(0);
+
+    const stats = plugin.getVariantStats(a);
+    expect(stats.alpha).toBe(1);
+    expect(stats.beta).toBe(1);
+
+    plugin.close();
+  });
+
+  test('human comparisons outweigh automatic ones', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const a = plugin.createVariant('A');
+    const b = plugin.createVariant('B');
+
+    plugin.recordPreference(a, b, 'ctx', true);
+    plugin.recordPreference(b, a, 'ctx', false);
+    plugin.recordPreference(b, a, 'ctx', false);
+
+    const [top] = plugin.getPreferenceRanking();
+    expect(top.variantId).toBe(a);
+
+    plugin.close();
+  });
+});
+
+describe('Dueling bandit comparisons', () => {
+  test('select_pair proposes a pair and submit_preference closes the token', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const a = plugin.createVariant('A');
+    const b = plugin.createVariant('B');
+
+    const proposal = plugin.selectPair('default', 'review this diff');
+    expect([proposal.variantA.id, proposal.variantB.id].sort()).toEqual([a, b].sort());
+
+    const result = plugin.submitPreference(proposal.token, proposal.variantB.id);
+    expect(result).toEqual({ winnerId: proposal.variantB.id, loserId: proposal.variantA.id });
+    expect(plugin.getPreferenceRanking()[0].variantId).toBe(proposal.variantB.id);
+
+    expect(() => plugin.submitPreference(proposal.token, proposal.variantA.id)).toThrow(
+      'already submitted'
+    );
+
+    plugin.close();
+  });
+
+  test('rejects unknown tokens and winners outside the pair', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    plugin.createVariant('A');
+    plugin.createVariant('B');
+    const c = plugin.createVariant('C');
+    plugin.createVariant('D');
+
+    expect(() => plugin.submitPreference('missing', c)).toThrow('Unknown comparison token');
+
+    const proposal = plugin.selectPair();
+    const outsider = [c, ...plugin.getExperimentVariantIds('default')].find(
+      id => id !== proposal.variantA.id && id !== proposal.variantB.id
+    )!;
+    expect(() => plugin.submitPreference(proposal.token, outsider)).toThrow('not part of comparison');
+
+    plugin.close();
+  });
+});
+
+describe('Reward policies', () => {
+  function recordOutcome(
+    plugin: ABLearningPlugin,
+    variantId: string,
+    taskId: string,
+    latencyMs: number,
+    tokenCost: number
+  ) {
+    plugin.assignVariant([variantId], '', taskId);
+    plugin.recordFeedback({ taskId, reward: 1, latencyMs, tokenCost, success: true, timestamp: 0 });
+  }
+
+  test('a cost ceiling steers selection away from expensive variants', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const experiment = plugin.createExperiment('cost', undefined, {
+      type: 'cost_ceiling',
+      maxTokenCost: 1000,
+    });
+    const cheap = plugin.createVariant('cheap', undefined, 0, experiment.id);
+    const pricey = plugin.createVariant('pricey', undefined, 0, experiment.id);
+
+    for (let i = 0; i < 20; i++) {
+      recordOutcome(plugin, cheap, `cheap_${i}`, 100, 500);
+      recordOutcome(plugin, pricey, `pricey_${i}`, 100, 4000);
+    }
+
+    expect(plugin.evaluateABTest(cheap, pricey).winner).toBe(cheap);
+
+    plugin.close();
+  });
+
+  test('changing the policy rebuilds posteriors from raw feedback', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const experiment = plugin.createExperiment('slo');
+    const fast = plugin.createVariant('fast', undefined, 0, experiment.id);
+    const slow = plugin.createVariant('slow', undefined, 0, experiment.id);
+
+    for (let i = 0; i < 10; i++) {
+      recordOutcome(plugin, fast, `fast_${i}`, 100, 500);
+      recordOutcome(plugin, slow, `slow_${i}`, 3000, 500);
+    }
+    expect(plugin.getVariantStats(slow).alpha).toBe(11);
+
+    const updated = plugin.setRewardPolicy(experiment.id, {
+      type: 'latency_slo',
+      maxLatencyMs: 1000,
+    });
+    expect(updated.rewardPolicy).toEqual({ type: 'latency_slo', maxLatencyMs: 1000 });
+    expect(plugin.getVariantStats(slow).alpha).toBe(1);
+    expect(plugin.getVariantStats(slow).beta).toBe(11);
+    expect(plugin.getVariantStats(fast).alpha).toBe(11);
+
+    plugin.close();
+  });
+
+  test('pareto front reports non-dominated variants', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const fast = plugin.createVariant('fast');
+    const cheap = plugin.createVariant('cheap');
+    const worse = plugin.createVariant('worse');
+
+    recordOutcome(plugin, fast, 'f', 100, 900);
+    recordOutcome(plugin, cheap, 'c', 900, 100);
+    recordOutcome(plugin, worse, 'w', 950, 950);
+
+    const front = plugin.getParetoFront();
+    const nonDominated = front.filter((e: { dominated: boolean }) => !e.dominated);
+    expect(nonDominated.map((e: { variantId: string }) => e.variantId).sort()).toEqual(
+      [fast, cheap].sort()
+    );
+
+    plugin.close();
+  });
+
+  test('pareto quality leaves out policy costs and inactive variants', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const experiment = plugin.createExperiment('ceiling', undefined, {
+      type: 'cost_ceiling',
+      maxTokenCost: 500,
+    });
+    const fast = plugin.createVariant('fast', undefined, 0, experiment.id);
+    const cheap = plugin.createVariant('cheap', undefined, 0, experiment.id);
+    const retired = plugin.createVariant('retired', undefined, 0, experiment.id);
+
+    // All always succeed; fast goes over the cost ceiling every time
+    for (let i = 0; i < 5; i++) {
+      recordOutcome(plugin, fast, `f_${i}`, 100, 900);
+      recordOutcome(plugin, cheap, `c_${i}`, 900, 100);
+      recordOutcome(plugin, retired, `r_${i}`, 50, 50);
+    }
+    plugin.setVariantStatus(retired, 'retired');
+
+    // Cost already has its own axis, so the ceiling does not also lower fast's quality
+    const front = plugin.getParetoFront(experiment.id);
+    expect(front.map(e => e.variantId).sort()).toEqual([fast, cheap].sort());
+    expect(front.every(e => e.quality === 1 && !e.dominated)).toBe(true);
+    expect(plugin.getVariantStats(fast).posterior.mean).toBeLessThan(0.5);
+
+    plugin.close();
+  });
+});
+
+describe('Posterior families', () => {
+  function recordReward(plugin: ABLearningPlugin, variantId: string, taskId: string, reward: number) {
+    plugin.assignVariant([variantId], '', taskId);
+    plugin.recordFeedback({
+      taskId,
+      reward,
+      latencyMs: 100,
+      tokenCost: 50,
+      success: reward > 0.5,
+      timestamp: 0,
+    });
+  }
+
+  test('fractional Beta updates separate 0.9 rewards from 0.51 rewards', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const experiment = plugin.createExperiment('fractional', undefined, undefined, 'beta-fractional');
+    const strong = plugin.createVariant('strong', undefined, 0, experiment.id);
+    const weak = plugin.createVariant('weak', undefined, 0, experiment.id);
+
+    for (let i = 0; i < 40; i++) {
+      recordReward(plugin, strong, `s_${i}`, 0.9);
+      recordReward(plugin, weak, `w_${i}`, 0.51);
+    }
+
+    const stats = plugin.getVariantStats(strong);
+    expect(stats.family).toBe('beta-fractional');
+    expect(stats.alpha).toBeCloseTo(1 + 40 * 0.9, 10);
+    expect(plugin.evaluateABTest(strong, weak).winner).toBe(strong);
+
+    plugin.close();
+  });
+
+  test('Normal-Inverse-Gamma handles unbounded rewards', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const experiment = plugin.createExperiment('nig', undefined, undefined, 'normal-inverse-gamma');
+    const high = plugin.createVariant('high', undefined, 0, experiment.id);
+    const low = plugin.createVariant('low', undefined, 0, experiment.id);
+
+    for (let i = 0; i < 30; i++) {
+      recordReward(plugin, high, `h_${i}`, 12 + (i % 3));
+      recordReward(plugin, low, `l_${i}`, 8 + (i % 3));
+    }
+
+    const stats = plugin.getVariantStats(high);
+    expect(stats.posterior.family).toBe('normal-inverse-gamma');
+    expect(stats.posterior.mean).toBeGreaterThan(12);
+    expect(plugin.evaluateABTest(high, low).winner).toBe(high);
+
+    let highPicks = 0;
+    for (let i = 0; i < 20; i++) {
+      if (plugin.thompsonSample([high, low]) === high) highPicks++;
+    }
+    expect(highPicks).toBeGreaterThan(15);
+
+    plugin.close();
+  });
+
+  test('switching family rebuilds posteriors from raw feedback', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const v = plugin.createVariant('v');
+    for (let i = 0; i < 4; i++) recordReward(plugin, v, `t_${i}`, 0.4);
+
+    expect(plugin.getVariantStats(v).alpha).toBe(1);
+
+    plugin.setVariantPosteriorFamily(v, 'beta-fractional');
+    expect(plugin.getVariantStats(v).alpha).toBeCloseTo(1 + 4 * 0.4, 10);
+
+    plugin.setVariantPosteriorFamily(v, null);
+    expect(plugin.getVariantStats(v).family).toBe('beta-bernoulli');
+    expect(plugin.getVariantStats(v).alpha).toBe(1);
+
+    expect(() => plugin.setExperimentPosteriorFamily('default', 'poisson' as any)).toThrow(
+      'Unknown posterior family'
+    );
+
+    plugin.close();
+  });
+});
+
+describe('Non-stationary rewards', () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('discounting lets a variant recover after a regime change', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const experiment = plugin.createExperiment('discounted');
+    const v = plugin.createVariant('v', undefined, 0, experiment.id);
+    plugin.setDriftPolicy(experiment.id, { mode: 'discounted', gamma: 0.9 });
+
+    for (let i = 0; i < 50; i++) recordTask(plugin, v, `old_${i}`, false);
+    for (let i = 0; i < 20; i++) recordTask(plugin, v, `new_${i}`, true);
+
+    const stats = plugin.getVariantStats(v);
+    expect(stats.posterior.mean).toBeGreaterThan(0.8);
+    // Effective sample size is bounded by 1 / (1 − γ)
+    expect(stats.alpha + stats.beta - 2).toBeLessThan(10);
+
+    plugin.close();
+  });
+
+  test('sliding window ignores feedback older than the window', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const v = plugin.createVariant('v');
+    plugin.setDriftPolicy('default', { mode: 'sliding_window', windowMs: 60_000 });
+
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    for (let i = 0; i < 10; i++) recordTask(plugin, v, `old_${i}`, false);
+    setSystemTime(new Date('2026-01-01T00:05:00Z'));
+    for (let i = 0; i < 3; i++) recordTask(plugin, v, `new_${i}`, true);
+
+    const stats = plugin.getVariantStats(v);
+    expect(stats.alpha).toBe(4);
+    expect(stats.beta).toBe(1);
+    expect(stats.totalTrials).toBe(13);
+
+    plugin.close();
+  });
+
+  test('Page-Hinkley detection resets the posterior and logs a change point', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const v = plugin.createVariant('v');
+    plugin.setDriftPolicy('default', {
+      mode: 'stationary',
+      changeDetection: {
+        delta: 0.005,
+        threshold: 3,
+        minObservations: 10,
+        action: 'reset',
+        keepFraction: 0.1,
+      },
+    });
+
+    for (let i = 0; i < 40; i++) recordTask(plugin, v, `good_${i}`, true);
+    for (let i = 0; i < 15; i++) recordTask(plugin, v, `bad_${i}`, false);
+
+    const changes = plugin.getChangePoints();
+    expect(changes).toHaveLength(1);
+    expect(changes[0].variantId).toBe(v);
+    expect(changes[0].action).toBe('reset');
+    expect(plugin.getVariantStats(v).posterior.mean).toBeLessThan(0.3);
+
+    plugin.close();
+  });
+
+  test('rejects malformed drift policies', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    expect(() => plugin.setDriftPolicy('default', { mode: 'discounted', gamma: 1.5 })).toThrow(
+      'gamma must be in (0, 1]'
+    );
+    plugin.close();
+  });
+});
+
+describe('Variant evaluation', () => {
+  test('reports labelled frequentist and Bayesian results across variants', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const baseline = plugin.createVariant('baseline');
+    const better = plugin.createVariant('better');
+    const same = plugin.createVariant('same');
+
+    for (let i = 0; i < 60; i++) {
+      recordTask(plugin, baseline, `b_${i}`, i % 2 === 0);
+      recordTask(plugin, better, `v_${i}`, i % 10 !== 0);
+      recordTask(plugin, same, `s_${i}`, i % 2 === 1);
+    }
+
+    const report = plugin.evaluateVariants([baseline, better, same], {
+      resamples: 500,
+      draws: 2000,
+    });
+    expect(report.baselineId).toBe(baseline);
+    expect(report.variants.map(v => v.variantId)).toEqual([baseline, better, same]);
+
+    const best = report.variants[1];
+    expect(best.bayesian.method).toBe('posterior Monte Carlo');
+    expect(best.bayesian.probabilityOfBest).toBeGreaterThan(0.95);
+    expect(best.bayesian.expectedLoss).toBeLessThan(report.variants[0].bayesian.expectedLoss);
+
+    const [vsBetter, vsSame] = report.comparisons;
+    expect(vsBetter.successRate.zTest.pValue).toBeLessThan(0.001);
+    expect(vsBetter.successRate.fisherExact.method).toBe("Fisher's exact test");
+    expect(vsBetter.reward.lift!.estimate).toBeCloseTo(0.8, 10);
+    expect(vsBetter.reward.lift!.lower).toBeGreaterThan(0);
+    expect(vsSame.successRate.zTest.pValue).toBeCloseTo(1, 5);
+
+    expect(() => plugin.evaluateVariants([baseline])).toThrow('At least two variants');
+
+    plugin.close();
+  });
+});
+
+describe('Sequential stopping', () => {
+  test('mSPRT concludes the experiment, promotes the winner and retires losers', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const experiment = plugin.createExperiment('sequential');
+    const good = plugin.createVariant('good', undefined, 0, experiment.id);
+    const bad = plugin.createVariant('bad', undefined, 0, experiment.id);
+    plugin.setStoppingRule(experiment.id, { type: 'msprt', alpha: 0.05, tau: 0.1, minSamples: 20 });
+
+    let i = 0;
+    while (plugin.getExperiment(experiment.id).status === 'active' && i < 500) {
+      recordTask(plugin, good, `g_${i}`, i % 10 !== 0);
+      if (plugin.getExperiment(experiment.id).status === 'active') {
+        recordTask(plugin, bad, `b_${i}`, i % 10 < 3);
+      }
+      i++;
+    }
+
+    const concluded = plugin.getExperiment(experiment.id);
+    expect(concluded.status).toBe('concluded');
+    expect(concluded.defaultVariantId).toBe(good);
+    expect(i).toBeLessThan(500);
+
+    const [decision] = plugin.getDecisions(experiment.id);
+    expect(decision.winnerId).toBe(good);
+    expect(decision.rule).toBe('msprt');
+    expect(decision.retiredIds).toEqual([bad]);
+    expect((decision.evidence as any).comparisons[0].pValue).toBeLessThan(0.05);
+
+    const statuses = plugin.getAllVariants(experiment.id).map(v => [v.id, v.status]);
+    expect(Object.fromEntries(statuses)).toEqual({ [good]: 'active', [bad]: 'retired' });
+
+    expect(() => plugin.assignVariant([good, bad], '', 'late')).toThrow('is concluded');
+    expect(() => plugin.setExperimentStatus(experiment.id, 'active')).toThrow(
+      'can only be archived'
+    );
+    expect(plugin.setExperimentStatus(experiment.id, 'archived').status).toBe('archived');
+
+    plugin.close();
+  });
+
+  test('minSamples counts raw feedback, so discounting cannot stall the rule', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const experiment = plugin.createExperiment('discounted');
+    plugin.setDriftPolicy(experiment.id, { mode: 'discounted', gamma: 0.9 });
+    const good = plugin.createVariant('good', undefined, 0, experiment.id);
+    const bad = plugin.createVariant('bad', undefined, 0, experiment.id);
+    plugin.setStoppingRule(experiment.id, { type: 'msprt' });
+
+    let i = 0;
+    while (plugin.getExperiment(experiment.id).status === 'active' && i < 100) {
+      recordTask(plugin, good, `g_${i}`, true);
+      if (plugin.getExperiment(experiment.id).status === 'active') {
+        recordTask(plugin, bad, `b_${i}`, false);
+      }
+      i++;
+    }
+
+    // The discounted sample size levels off near 1 / (1 − γ), below minSamples
+    expect(plugin.getVariantStats(good).utilityN).toBeLessThan(30);
+    expect(plugin.getExperiment(experiment.id).status).toBe('concluded');
+    expect(plugin.getDecisions(experiment.id)[0].winnerId).toBe(good);
+    expect(i).toBe(30);
+
+    plugin.close();
+  });
+
+  test('experiments can be concluded manually', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const a = plugin.createVariant('a');
+    const b = plugin.createVariant('b');
+
+    const decision = plugin.concludeExperiment('default', b);
+    expect(decision.rule).toBe('manual');
+    expect(decision.retiredIds).toEqual([a]);
+    expect(plugin.getExperiment('default').defaultVariantId).toBe(b);
+    expect(() => plugin.concludeExperiment('default', a)).toThrow('is concluded');
+
+    plugin.close();
+  });
+});
+
+describe('Experiment planning', () => {
+  test('plans from observed baseline and throughput', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const v = plugin.createVariant('current');
+    for (let i = 0; i < 40; i++) recordTask(plugin, v, `t_${i}`, i % 2 === 0);
+
+    const plan = plugin.planExperiment({ minDetectableEffect: 0.1, simulationRuns: 2 });
+    expect(plan.baselineSource).toBe('feedback_records');
+    expect(plan.baselineRate).toBeCloseTo(0.5, 10);
+    expect(plan.trialsPerArm).toBe(388);
+    expect(plan.totalTrials).toBe(776);
+    expect(plan.throughput.observedTasks).toBe(40);
+    expect(plan.estimatedDaysToCompletion).toBeGreaterThan(0);
+    expect(plan.regret.horizon).toBe(776);
+
+    const relative = plugin.planExperiment({
+      baselineRate: 0.2,
+      minDetectableEffect: 0.5,
+      relative: true,
+      simulationRuns: 1,
+    });
+    expect(relative.targetRate).toBeCloseTo(0.3, 10);
+
+    plugin.close();
+  });
+
+  test('the observed baseline is the raw success rate whatever the posterior learns', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const v = plugin.createVariant('current');
+    plugin.setDriftPolicy('default', { mode: 'discounted', gamma: 0.9 });
+    for (let i = 0; i < 40; i++) recordTask(plugin, v, `t_${i}`, i < 20);
+
+    // The discounted posterior has mostly forgotten the early successes
+    expect(plugin.getVariantStats(v).posterior.mean).toBeLessThan(0.2);
+    const plan = plugin.planExperiment({ minDetectableEffect: 0.1, simulationRuns: 1 });
+    expect(plan.baselineRate).toBeCloseTo(0.5, 10);
+
+    plugin.close();
+  });
+
+  test('requires a baseline when there is no feedback', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    expect(() => plugin.planExperiment({ minDetectableEffect: 0.05 })).toThrow('pass baselineRate');
+    expect(() => plugin.planExperiment({ baselineRate: 0.98, minDetectableEffect: 0.05 })).toThrow(
+      'lie in (0, 1)'
+    );
+    plugin.close();
+  });
+
+  test('rejects run counts and effects it cannot plan with', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const plan = (options: Partial<Parameters<typeof plugin.planExperiment>[0]>) => () =>
+      plugin.planExperiment({ baselineRate: 0.5, minDetectableEffect: 0.1, ...options });
+
+    for (const simulationRuns of [0, -5, 2.5]) {
+      expect(plan({ simulationRuns })).toThrow('simulationRuns must be a positive integer');
+    }
+    for (const minDetectableEffect of [0, NaN, Infinity]) {
+      expect(plan({ minDetectableEffect })).toThrow('minDetectableEffect must be a non-zero number');
+    }
+    expect(plan({ minDetectableEffect: -0.6 })).toThrow('moves the rate from 0.5 to');
+    expect(plan({ minDetectableEffect: 1.5, relative: true })).toThrow('rates must lie in (0, 1)');
+    expect(plan({ baselineRate: 1 })).toThrow('baseline rate of 1');
+    expect(plan({ simulationRuns: 1 })().regret.runs).toBe(1);
+
+    plugin.close();
+  });
+});
+
+describe('Offline policy evaluation', () => {
+  test('assignments log propensities for off-policy estimates', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const good = plugin.createVariant('good');
+    const bad = plugin.createVariant('bad');
+
+    for (let i = 0; i < 60; i++) {
+      const assignment = plugin.assignVariant([good, bad], '', `t_${i}`);
+      expect(assignment.propensity).toBeGreaterThan(0);
+      expect(assignment.propensity).toBeLessThan(1);
+      expect(plugin.getAssignment(`t_${i}`)!.candidateIds).toEqual([good, bad]);
+      plugin.recordFeedback({
+        taskId: `t_${i}`,
+        reward: 0,
+        latencyMs: 100,
+        tokenCost: 50,
+        success: assignment.variantId === good ? i % 5 !== 0 : i % 5 === 0,
+        timestamp: Date.now(),
+      });
+    }
+
+    const contextual = plugin.assignContextualVariant([good, bad], [1, 0]);
+    expect(contextual.propensity).toBe(1);
+    expect(contextual.selectionPolicy).toBe('linucb');
+
+    const uniform = plugin.assignUniformVariant([good, bad], '', 'uniform');
+    expect(uniform.propensity).toBe(0.5);
+    expect(uniform.selectionPolicy).toBe('uniform');
+    expect(plugin.getAssignment('uniform')!.candidateIds).toEqual([good, bad]);
+
+    const estimate = plugin.evaluatePolicyOffline({ type: 'fixed', variantId: good });
+    expect(estimate.records).toBe(60);
+    expect(estimate.unlogged).toBe(0);
+    expect(estimate.metric).toEqual({ type: 'success' });
+    expect(estimate.snips.value).toBeGreaterThan(0.5);
+    expect(estimate.doublyRobust.method).toBe('doubly robust');
+
+    expect(() => plugin.evaluatePolicyOffline({ type: 'fixed', variantId: 'nope' })).toThrow(
+      'Unknown variant'
+    );
+
+    plugin.close();
+  });
+
+  test('feedback keeps the timestamp it was recorded with', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const v = plugin.createVariant('v');
+    plugin.assignVariant([v], '', 'late');
+    plugin.recordFeedback({
+      taskId: 'late',
+      reward: 1,
+      latencyMs: 100,
+      tokenCost: 50,
+      success: true,
+      timestamp: 1_700_000_000_000,
+    });
+
+    const [record] = plugin.getExperimentBundle().feedback;
+    expect(record.timestamp).toBe(1_700_000_000_000);
+    expect(record.assignment!.timestamp).not.toBe(1_700_000_000_000);
+
+    plugin.close();
+  });
+});
+
+describe('Seeded randomness', () => {
+  async function replay(seed: number) {
+    const plugin = new ABLearningPlugin(':memory:', { seed, offlineEvolution: true });
+    const experiment = plugin.createExperiment('seeded');
+    const a = plugin.createVariant('Review the diff for bugs.', undefined, 0, experiment.id);
+    const b = plugin.createVariant('List security issues first.', undefined, 0, experiment.id);
+
+    const chosen: string[] = [];
+    for (let i = 0; i < 40; i++) {
+      const assignment = plugin.assignVariant([a, b]);
+      chosen.push(assignment.variantId);
+      plugin.recordFeedback({
+        taskId: assignment.taskId,
+        reward: 0,
+        latencyMs: 100,
+        tokenCost: 50,
+        success: assignment.variantId === a ? i % 4 !== 0 : i % 4 === 0,
+        timestamp: Date.now(),
+      });
+    }
+    const offspring = await plugin.evolvePrompts(2, 3, experiment.id);
+    const templates = Object.fromEntries(
+      plugin.getAllVariants(experiment.id).map(v => [v.id, v.template])
+    );
+    const runs = plugin.getEvolutionRuns(experiment.id);
+
+    plugin.close();
+    return { ids: [experiment.id, a, b, ...offspring], chosen, templates, runSeed: runs[0].seed };
+  }
+
+  test('the same seed replays identifiers, assignments and evolution', async () => {
+    const first = await replay(123);
+    const second = await replay(123);
+    const other = await replay(124);
+
+    expect(second).toEqual(first);
+    expect(first.runSeed).not.toBeNull();
+    expect(other.ids[0]).not.toBe(first.ids[0]);
+  });
+
+  test('an injected random source takes precedence over a seed', () => {
+    let calls = 0;
+    const plugin = new ABLearningPlugin(':memory:', {
+      seed: 1,
+      random: () => (calls++ % 16) / 16,
+    });
+    expect(plugin.seed).toBeNull();
+    plugin.createVariant('A');
+    expect(calls).toBeGreaterThan(0);
+    expect(new ABLearningPlugin(':memory:').seed).toEqual(expect.any(Number));
+
+    plugin.close();
+  });
+
+  test('reopening a database with the same seed does not reuse identifiers', async () => {
+    const path = '.opencode/seeded_ab_learning.db';
+    await mkdir('.opencode', { recursive: true });
+    await unlink(path).catch(() => {});
+
+    const first = new ABLearningPlugin(path, { seed: 7 });
+    const original = first.createVariant('A');
+    first.close();
+    const reopened = new ABLearningPlugin(path, { seed: 7 });
+    const next = reopened.createVariant('B');
+    reopened.close();
+    await unlink(path);
+
+    expect(next).not.toBe(original);
+  });
+});
+
+describe('Template variables', () => {
+  test('renders the assigned variant for a task', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const variant = plugin.createVariant('Review this {{language}} diff:\n{{diff}}');
+    plugin.assignVariant([variant], '', 'task_1');
+
+    const rendered = plugin.renderVariant('task_1', { language: 'Go', diff: '+ fmt.Println()' });
+
+    expect(rendered).toEqual({
+      taskId: 'task_1',
+      variantId: variant,
+      variables: ['language', 'diff'],
+      prompt: 'Review this Go diff:\n+ fmt.Println()',
+    });
+    expect(() => plugin.renderVariant('task_1', { language: 'Go' })).toThrow(
+      'Missing template variables: diff'
+    );
+    expect(() => plugin.renderVariant('nope')).toThrow('Unknown task nope');
+    expect(() => plugin.createVariant('Review {{ bad name }}')).toThrow(
+      'Invalid template placeholder'
+    );
+
+    plugin.close();
+  });
+
+  test('evolution rejects offspring that drop the parents\' placeholders', async () => {
+    // An operator that ignores the placeholders, except on its fourth crossover
+    let crossovers = 0;
+    const plugin = new ABLearningPlugin(':memory:', {
+      seed: 4,
+      evolutionOperator: {
+        name: 'careless',
+        crossover: async () =>
+          ++crossovers === 4 ? 'Review {{diff}} for bugs and security issues.' : 'Review the code.',
+        mutate: async (prompt: string) => prompt,
+      },
+    });
+    const a = plugin.createVariant('Review {{diff}} for bugs.');
+    const b = plugin.createVariant('List security issues in {{diff}}.');
+    for (let i = 0; i < 10; i++) {
+      recordTask(plugin, a, `a_${i}`, true);
+      recordTask(plugin, b, `b_${i}`, i % 2 === 0);
+    }
+
+    // Rejected offspring are redrawn; the run is still recorded with its seed
+    const offspring = await plugin.evolvePrompts(2, 1, 'default', { eliteCount: 0 });
+    expect(offspring).toHaveLength(1);
+    expect(plugin.getAllVariants().find(v => v.id === offspring[0])?.template).toBe(
+      'Review {{diff}} for bugs and security issues.'
+    );
+    expect(plugin.getAllVariants()).toHaveLength(3);
+    const [run] = plugin.getEvolutionRuns('default');
+    expect(run.offspringIds).toEqual(offspring);
+    expect(run.seed).not.toBeNull();
+
+    plugin.close();
+  });
+});
+
+describe('Population evolution', () => {
+  const TEMPLATES = [
+    'You are a reviewer.\n\nReview the diff for bugs.',
+    '## Instructions\nList security issues first.\n\n## Output format\nA numbered list.',
+    'Summarise the change.\n\n## Constraints\n- Cite line numbers.',
+  ];
+
+  function seededPool(plugin: ABLearningPlugin, trials: number = 10): string[] {
+    const ids = TEMPLATES.map(template => plugin.createVariant(template));
+    ids.forEach((id, v) => {
+      for (let i = 0; i < trials; i++) recordTask(plugin, id, `${v}_${i}`, i % (v + 2) !== 0);
+    });
+    return ids;
+  }
+
+  test('every generation fills the population around its elites', async () => {
+    const plugin = new ABLearningPlugin(':memory:', { offlineEvolution: true, seed: 21 });
+    seededPool(plugin);
+
+    const offspring = await plugin.evolvePrompts(4, 2, undefined, {
+      eliteCount: 1,
+      selection: 'rank',
+    });
+    expect(offspring).toHaveLength(6);
+    expect(new Set(plugin.getAllVariants().map(v => v.template)).size).toBe(9);
+
+    const [run] = plugin.getEvolutionRuns('default');
+    expect(run.offspringIds).toEqual(offspring);
+    expect(run.config!.selection).toBe('rank');
+    expect(run.mutationRate).toBeGreaterThan(0);
+
+    // Second-generation offspring descend from first-generation ones
+    const generations = plugin
+      .getAllVariants()
+      .filter(v => offspring.includes(v.id))
+      .map(v => v.generation);
+    expect(Math.max(...generations)).toBe(2);
+
+    plugin.close();
+  });
+
+  test('evolves from a single untested variant without crashing', async () => {
+    const plugin = new ABLearningPlugin(':memory:', { offlineEvolution: true, seed: 3 });
+    const only = plugin.createVariant('Review the diff for bugs.');
+
+    const offspring = await plugin.evolvePrompts(3, 1);
+    expect(offspring).toHaveLength(2);
+    for (const id of offspring) {
+      const child = plugin.getAllVariants().find(v => v.id === id)!;
+      expect(child.parentId).toBe(only);
+      expect(child.template).not.toBe('Review the diff for bugs.');
+    }
+
+    const empty = plugin.createExperiment('empty');
+    await expect(plugin.evolvePrompts(3, 1, empty.id)).rejects.toThrow('has no variants to evolve');
+
+    plugin.close();
+  });
+
+  test('adaptive mutation continues from the previous run', async () => {
+    const plugin = new ABLearningPlugin(':memory:', { offlineEvolution: true, seed: 8 });
+    seededPool(plugin);
+
+    // Diversity stays below a target of 1, so every run raises the rate by 1.5×
+    await plugin.evolvePrompts(3, 1, undefined, { mutationRate: 0.3, diversityTarget: 1 });
+    await plugin.evolvePrompts(3, 1, undefined, { diversityTarget: 1 });
+    const [first, second] = plugin.getEvolutionRuns('default');
+    expect(first.mutationRate).toBeCloseTo(0.45, 10);
+    expect(second.mutationRate).toBeCloseTo(0.675, 10);
+
+    await plugin.evolvePrompts(3, 1, undefined, { adaptiveMutation: false, mutationRate: 0.4 });
+    expect(plugin.getEvolutionRuns('default')[2].mutationRate).toBe(0.4);
+
+    plugin.close();
+  });
+
+  test('offspring get a staged rollout share before competing on equal terms', async () => {
+    const plugin = new ABLearningPlugin(':memory:', { offlineEvolution: true, seed: 5 });
+    const [best] = seededPool(plugin, 30);
+    const [child] = await plugin.evolvePrompts(2, 1, undefined, { rolloutTrials: 5 });
+    expect(plugin.getAllVariants().find(v => v.id === child)!.rolloutTrials).toBe(5);
+
+    let rolloutPicks = 0;
+    for (let i = 0; i < 200; i++) {
+      const assignment = plugin.assignVariant([best, child]);
+      if (assignment.variantId === child) {
+        rolloutPicks++;
+        expect(assignment.propensity).toBe(0.2);
+      }
+    }
+    expect(rolloutPicks).toBeGreaterThan(20);
+    expect(rolloutPicks).toBeLessThan(60);
+
+    // Budget used up: plain Thompson Sampling propensities again
+    for (let i = 0; i < 5; i++) recordTask(plugin, child, `child_${i}`, false);
+    const assignment = plugin.assignVariant([best, child]);
+    expect(assignment.propensity).not.toBe(0.2);
+    expect(assignment.propensity! > 0.8 || assignment.propensity! < 0.2).toBe(true);
+
+    plugin.close();
+  });
+});
+
+describe('Variant lineage', () => {
+  test('records every parent of an offspring and the operation that produced it', async () => {
+    const plugin = new ABLearningPlugin(':memory:', { offlineEvolution: true, seed: 19 });
+    const a = plugin.createVariant('You are a reviewer.\n\nReview the diff for bugs.');
+    const b = plugin.createVariant('## Instructions\nList security issues.\n\n## Constraints\n- Be brief.');
+    for (let i = 0; i < 10; i++) {
+      recordTask(plugin, a, `a_${i}`, i % 2 === 0);
+      recordTask(plugin, b, `b_${i}`, i % 5 === 0);
+    }
+
+    const [child] = await plugin.evolvePrompts(3, 1, undefined, { eliteCount: 2 });
+    const lineage = plugin.getVariantLineage(child);
+    expect(lineage.ancestors.sort()).toEqual([a, b].sort());
+    expect(lineage.edges.map(e => e.parentIndex).sort()).toEqual([0, 1]);
+    for (const edge of lineage.edges) {
+      expect(edge.operation).toMatch(/^crossover/);
+      expect(edge.operator).toBe('genome');
+      expect(edge.inputs.seed).toBe(plugin.getEvolutionRuns('default')[0].seed);
+      const parent = lineage.nodes.find(n => n.id === edge.parentId)!;
+      expect(edge.delta).toBeCloseTo(0.5 - parent.mean, 10); // Untested child: uniform prior
+    }
+    expect(plugin.getVariantLineage(a).descendants).toEqual([child]);
+
+    plugin.close();
+  });
+
+  test('falls back to parent_id for variants evolved before lineage was recorded', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const root = plugin.createVariant('Review the diff.');
+    const child = plugin.createVariant('Review the diff. Be concise.', root, 1);
+    const grandchild = plugin.createVariant('Review the diff. Be concise. Cite lines.', child, 2);
+
+    const lineage = plugin.getVariantLineage(root);
+    expect(lineage.descendants).toEqual([child, grandchild]);
+    expect(lineage.edges.every(e => e.operation === 'unknown' && e.operator === null)).toBe(true);
+    expect(plugin.getVariantLineage(root, 1).descendants).toEqual([child]);
+    expect(() => plugin.getVariantLineage('missing')).toThrow('Unknown variant: missing');
+    expect(() => plugin.getVariantLineage(root, 0)).toThrow('positive integer');
+
+    plugin.close();
+  });
+
+  test('variant_lineage tool returns JSON or graph text', async () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const root = plugin.createVariant('Review the diff.');
+    const child = plugin.createVariant('Review the diff carefully.', root, 1);
+    const tool = pluginModule.tools.find(t => t.name === 'variant_lineage')!;
+
+    const json = (await tool.execute(plugin, { variantId: child } as any)) as any;
+    expect(json.ancestors).toEqual([root]);
+    const mermaid = (await tool.execute(plugin, { variantId: child, format: 'mermaid' } as any)) as any;
+    expect(mermaid.graph).toContain(`v_${root} -->|unknown +0.000| v_${child}`);
+    const dot = (await tool.execute(plugin, { variantId: child, format: 'dot' } as any)) as any;
+    expect(dot.graph).toContain(`"${root}" -> "${child}"`);
+    await expect(tool.execute(plugin, { variantId: child, format: 'svg' } as any)).rejects.toThrow(
+      'Unknown lineage format: svg'
+    );
+
+    plugin.close();
+  });
+});
+
+describe('Variant lifecycle', () => {
+  test('pruning retires low performers and keeps their history', () => {
+    const plugin = new ABLearningPlugin(':memory:', { seed: 20 });
+    const good = plugin.createVariant('Review the diff for bugs.');
+    const poor = plugin.createVariant('Review the diff.');
+    const child = plugin.createVariant('Review the diff. Be concise.', poor, 1);
+    for (let i = 0; i < 25; i++) {
+      recordTask(plugin, good, `good_${i}`, i % 3 !== 0);
+      recordTask(plugin, poor, `poor_${i}`, false);
+    }
+    plugin.recordPreference(good, poor, 'review');
+
+    expect(plugin.pruneVariants('default', true).map(c => c.variantId)).toEqual([poor]);
+    expect(plugin.getAllVariants().every(v => v.status === 'active')).toBe(true);
+
+    const [change] = plugin.pruneVariants();
+    expect(change).toMatchObject({ variantId: poor, from: 'active', to: 'retired' });
+    expect(change.reason).toMatch(/^posterior mean 0\.0\d\d < 0\.05$/);
+    expect(plugin.getVariantStatusChanges(poor)).toEqual([change]);
+
+    // Feedback, preferences and lineage survive
+    expect(plugin.getVariantStats(poor).totalTrials).toBe(25);
+    expect(plugin.getPreferenceRanking().some(s => s.variantId === poor)).toBe(true);
+    expect(plugin.getVariantLineage(child).ancestors).toEqual([poor]);
+
+    // Retired variants are no longer served
+    expect(plugin.getExperimentVariantIds('default', 'active')).toEqual([good, child]);
+    expect(() => plugin.assignVariant([good, poor])).toThrow(`Variant ${poor} is retired`);
+
+    const restored = plugin.restoreVariant(poor);
+    expect(restored.status).toBe('active');
+    expect(plugin.getVariantStatusChanges(poor).map(c => c.reason)).toEqual([
+      change.reason,
+      'restored',
+    ]);
+    expect(plugin.assignVariant([good, poor]).variantId).toBeDefined();
+
+    plugin.close();
+  });
+
+  test('prune policy can retire variants unlikely to be best', () => {
+    const plugin = new ABLearningPlugin(':memory:', { seed: 7 });
+    const ids = [0.9, 0.5, 0.45].map((rate, v) => {
+      const id = plugin.createVariant(`Variant ${v}`);
+      for (let i = 0; i < 40; i++) recordTask(plugin, id, `${v}_${i}`, i < rate * 40);
+      return id;
+    });
+
+    // The default policy only looks at the posterior mean
+    expect(plugin.pruneVariants('default', true)).toEqual([]);
+
+    const experiment = plugin.setPrunePolicy('default', {
+      minProbabilityBest: 0.01,
+      keepActive: 2,
+    });
+    expect(experiment.prunePolicy.minProbabilityBest).toBe(0.01);
+    expect(() => plugin.setPrunePolicy('default', { keepActive: 0 })).toThrow('keepActive');
+
+    const changes = plugin.pruneVariants();
+    expect(changes).toHaveLength(1);
+    expect([ids[1], ids[2]]).toContain(changes[0].variantId);
+    expect(changes[0].reason).toMatch(/^P\(best\)/);
+    expect(plugin.getExperimentVariantIds('default', 'active')).toHaveLength(2);
+
+    plugin.close();
+  });
+
+  test('drafts, pausing and frozen experiments', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const live = plugin.createVariant('Review the diff.');
+    const draft = plugin.createVariant('Review carefully.', undefined, 0, 'default', 'draft');
+    expect(plugin.getExperimentVariantIds('default', 'active')).toEqual([live]);
+    expect(() => plugin.assignVariant([draft])).toThrow(`Variant ${draft} is draft`);
+
+    plugin.setVariantStatus(draft, 'active');
+    plugin.setVariantStatus(live, 'paused', 'rewording');
+    expect(plugin.assignVariant([draft]).variantId).toBe(draft);
+    expect(plugin.getVariantStatusChanges(live)[0]).toMatchObject({
+      from: 'active',
+      to: 'paused',
+      reason: 'rewording',
+    });
+    expect(() => plugin.setVariantStatus(live, 'deleted' as any)).toThrow(
+      'Unknown variant status: deleted'
+    );
+
+    plugin.concludeExperiment('default', draft);
+    expect(plugin.getVariantStatusChanges(live).at(-1)).toMatchObject({
+      from: 'paused',
+      to: 'retired',
+      reason: 'concluded: manual',
+    });
+    expect(() => plugin.restoreVariant(live)).toThrow('Experiment default is concluded');
+
+    plugin.close();
+  });
+});
+
+describe('Data integrity', () => {
+  const INTEGRITY_DB = join(tmpdir(), `ab-learning-integrity-${process.pid}.db`);
+  const removeDb = async () => {
+    for (const suffix of ['', '-wal', '-shm']) {
+      await unlink(INTEGRITY_DB + suffix).catch(() => {});
+    }
+  };
+
+  beforeEach(removeDb);
+  afterAll(removeDb);
+
+  test('rebuild_stats repairs drifted aggregates after a dry run', async () => {
+    const setup = new ABLearningPlugin(INTEGRITY_DB);
+    const a = setup.createVariant('Review the diff.');
+    const b = setup.createVariant('Review the diff for bugs.');
+    for (let i = 0; i < 6; i++) {
+      recordTask(setup, a, `a_${i}`, i % 2 === 0);
+      recordTask(setup, b, `b_${i}`, true);
+    }
+    const expected = setup.getVariantStats(a);
+    expect(setup.checkIntegrity()).toMatchObject({ ok: true, issues: [] });
+    expect(setup.rebuildStats().changes).toEqual([]);
+    setup.close();
+
+    // Simulate a crash between the aggregate and the raw write
+    const db = new Database(INTEGRITY_DB);
+    db.run('UPDATE variant_performance SET total_trials = 2, alpha = 1 WHERE variant_id = ?', [a]);
+    db.close();
+
+    const plugin = new ABLearningPlugin(INTEGRITY_DB);
+    const report = plugin.checkIntegrity();
+    expect(report.ok).toBe(false);
+    expect(report.issues).toEqual([
+      {
+        kind: 'trial_count_mismatch',
+        severity: 'error',
+        table: 'variant_performance',
+        count: 1,
+        examples: [`variant ${a}: total_trials 2, 6 feedback records`],
+      },
+    ]);
+
+    const preview = plugin.rebuildStats({ dryRun: true });
+    expect(preview.changes).toEqual([
+      { variantId: a, field: 'alpha', stored: 1, rebuilt: 4 },
+      { variantId: a, field: 'totalTrials', stored: 2, rebuilt: 6 },
+    ]);
+    expect(preview.diff).toBe(
+      `${a.slice(0, 8)} alpha: 1 → 4\n${a.slice(0, 8)} totalTrials: 2 → 6`
+    );
+    expect(plugin.getVariantStats(a).totalTrials).toBe(2);
+
+    const tool = pluginModule.tools.find(t => t.name === 'rebuild_stats')!;
+    const rebuild = await tool.execute(plugin, {});
+    expect(rebuild.experimentIds).toEqual(['default']);
+    expect(rebuild.integrity.ok).toBe(false);
+    expect(plugin.getVariantStats(a)).toEqual(expected);
+    expect(plugin.checkIntegrity().ok).toBe(true);
+    expect(plugin.rebuildStats({ dryRun: true }).diff).toBe('No changes');
+
+    plugin.close();
+  });
+
+  test('reports orphaned rows, unmatched feedback and pending assignments', () => {
+    const setup = new ABLearningPlugin(INTEGRITY_DB);
+    const a = setup.createVariant('Review the diff.');
+    const b = setup.createVariant('Review the diff for bugs.');
+    recordTask(setup, a, 'done', true);
+    recordTask(setup, b, 'mismatched', false);
+    setup.assignVariant([a], '', 'running');
+    setup.close();
+
+    const db = new Database(INTEGRITY_DB);
+    db.run('PRAGMA foreign_keys = OFF');
+    db.run(`
+      INSERT INTO feedback_records
+      (task_id, experiment_id, variant_id, reward, latency_ms, token_cost, success, timestamp)
+      VALUES ('ghost', 'default', 'gone', 1, 100, 50, 1, 0)
+    `);
+    db.run("UPDATE feedback_records SET variant_id = ? WHERE task_id = 'mismatched'", [a]);
+    db.run('DELETE FROM variant_performance WHERE variant_id = ?', [b]);
+    db.close();
+
+    const plugin = new ABLearningPlugin(INTEGRITY_DB);
+    const report = plugin.checkIntegrity();
+    expect(report.ok).toBe(false);
+    expect(report.issues.map(issue => [issue.kind, issue.table, issue.count])).toEqual([
+      ['orphaned_row', 'feedback_records', 1],
+      ['unassigned_feedback', 'feedback_records', 1],
+      ['assignment_mismatch', 'feedback_records', 1],
+      ['missing_performance', 'prompt_variants', 1],
+      ['trial_count_mismatch', 'variant_performance', 1],
+      ['pending_assignment', 'experiment_assignments', 1],
+    ]);
+    expect(report.issues.at(-1)).toMatchObject({
+      severity: 'warning',
+      examples: [`task running on variant ${a}`],
+    });
+
+    // The rebuild recreates the missing row; it never deletes raw events
+    const rebuild = plugin.rebuildStats();
+    expect(rebuild.changes.filter(c => c.variantId === b).every(c => c.stored === null)).toBe(true);
+    expect(plugin.getVariantStats(b).totalTrials).toBe(0);
+    expect(plugin.getVariantStats(a).totalTrials).toBe(2);
+    expect(() => plugin.rebuildStats({ experimentId: 'missing' })).toThrow(
+      'Unknown experiment: missing'
+    );
+
+    plugin.close();
+  });
+
+  test('rebuild_stats replays change points and keeps cumulative sliding-window evidence', () => {
+    const plugin = new ABLearningPlugin(':memory:');
+    const detection = {
+      delta: 0.005,
+      threshold: 3,
+      minObservations: 10,
+      keepFraction: 0.1,
+    } as const;
+    const windowed = plugin.createExperiment('windowed');
+    plugin.setDriftPolicy(windowed.id, {
+      mode: 'sliding_window',
+      windowMs: 60_000,
+      changeDetection: { ...detection, action: 'reset' },
+    });
+    plugin.setDriftPolicy('default', {
+      mode: 'stationary',
+      changeDetection: { ...detection, action: 'widen' },
+    });
+    const reset = plugin.createVariant('Review the diff.', undefined, 0, windowed.id);
+    const widened = plugin.createVariant('Review the diff.');
+
+    setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    for (let i = 0; i < 40; i++) {
+      recordTask(plugin, reset, `reset_good_${i}`, true);
+      recordTask(plugin, widened, `widen_good_${i}`, true);
+    }
+    setSystemTime(new Date('2026-01-01T00:05:00Z'));
+    for (let i = 0; i < 15; i++) {
+      recordTask(plugin, reset, `reset_bad_${i}`, false);
+      recordTask(plugin, widened, `widen_bad_${i}`, false);
+    }
+    setSystemTime();
+    expect(plugin.getChangePoints(windowed.id).map(c => c.action)).toEqual(['reset']);
+    expect(plugin.getChangePoints().map(c => c.action)).toEqual(['widen']);
+    expect(plugin.getChangePoints()[0].feedbackId).not.toBeNull();
+
+    const before = [reset, widened].map(id => plugin.getVariantStats(id));
+    expect(plugin.rebuildStats({ dryRun: true }).changes).toEqual([]);
+    expect(plugin.rebuildStats().changes).toEqual([]);
+    expect([reset, widened].map(id => plugin.getVariantStats(id))).toEqual(before);
+
+    plugin.close();
+  });
+});
+
+describe('Import and export', () => {
+  function seeded() {
+    const plugin = new ABLearningPlugin(':memory:', { seed: 23 });
+    const { id: experimentId } = plugin.createExperiment('review', 'Code review prompts');
+    const root = plugin.createVariant('Review the diff.', undefined, 0, experimentId);
+    const child = plugin.createVariant('Review the diff for bugs.', root, 1, experimentId);
+    for (let i = 0; i < 8; i++) {
+      recordTask(plugin, root, `root_${i}`, i < 3);
+      recordTask(plugin, child, `child_${i}`, i < 6);
+    }
+    plugin.assignVariant([root], '', 'unfinished');
+    plugin.recordPreference(child, root, 'review', true);
+    return { plugin, experimentId, root, child };
+  }
+
+  test('round-trips an experiment into a fresh database with remapped IDs', async () => {
+    const { plugin: source, experimentId, root, child } = seeded();
+    const exportTool = pluginModule.tools.find(t => t.name === 'export_experiment')!;
+    const exported = await exportTool.execute(source, { experimentId, format: 'ndjson' });
+    expect(exported.bundle.split('\n')[0]).toContain('"type":"experiment"');
+
+    const target = new ABLearningPlugin(':memory:', { seed: 5 });
+    const importTool = pluginModule.tools.find(t => t.name === 'import_experiment')!;
+    const summary = await importTool.execute(target, { bundle: exported.bundle });
+    expect(summary).toMatchObject({ created: true, merged: [], feedback: 16, preferences: 1 });
+    expect(summary.experimentId).not.toBe(experimentId);
+
+    const ids = summary.variantIds;
+    expect(ids[root]).not.toBe(root);
+    expect(target.getExperiment(summary.experimentId).name).toBe('review');
+    expect(target.getVariantStats(ids[child])).toEqual({
+      ...source.getVariantStats(child),
+      variantId: ids[child],
+    });
+    expect(target.getVariantLineage(ids[child]).ancestors).toEqual([ids[root]]);
+    expect(target.getPreferenceRanking(summary.experimentId)[0].variantId).toBe(ids[child]);
+    // Assignments without feedback stay behind
+    expect(target.checkIntegrity()).toMatchObject({ ok: true, issues: [] });
+
+    expect(() => target.importExperiment(exported.bundle)).toThrow(
+      'Experiment already exists: review'
+    );
+    const copy = target.importExperiment(source.exportExperiment(experimentId), { name: 'copy' });
+    expect(target.getExperiment(copy.experimentId).name).toBe('copy');
+
+    source.close();
+    target.close();
+  });
+
+  test('merges matching variants into an existing experiment', () => {
+    const { plugin: source, experimentId, root, child } = seeded();
+    const bundle = source.getExperimentBundle(experimentId);
+
+    const target = new ABLearningPlugin(':memory:', { seed: 9 });
+    const local = target.createVariant('Review the diff.');
+    for (let i = 0; i < 4; i++) recordTask(target, local, `local_${i}`, true);
+    const before = target.getVariantStats(local);
+    const sourceRoot = source.getVariantStats(root);
+
+    const summary = target.importExperiment(bundle, { experimentId: 'default' });
+    expect(summary).toMatchObject({ experimentId: 'default', created: false, merged: [local] });
+    expect(summary.variantIds[root]).toBe(local);
+
+    const after = target.getVariantStats(local);
+    expect(after.totalTrials).toBe(12);
+    expect(after.alpha).toBe(before.alpha + sourceRoot.alpha - 1);
+    expect(after.beta).toBe(before.beta + sourceRoot.beta - 1);
+    expect(target.getExperimentVariantIds('default').sort()).toEqual(
+      [local, summary.variantIds[child]].sort()
+    );
+    expect(target.checkIntegrity().ok).toBe(true);
+
+    // Kept IDs must not collide with existing rows, and a failed import leaves nothing behind
+    const kept = target.importExperiment(bundle, { name: 'kept', remapIds: false });
+    expect(kept.experimentId).toBe(experimentId);
+    expect(kept.variantIds[root]).toBe(root);
+    expect(() => target.importExperiment(bundle, { name: 'again', remapIds: false })).toThrow(
+      `Experiment already exists: ${experimentId}`
+    );
+    const moved = { ...bundle, experiment: { ...bundle.experiment, id: 'moved' } };
+    expect(() => target.importExperiment(moved, { name: 'again', remapIds: false })).toThrow(
+      'Variant already exists'
+    );
+    expect(target.listExperiments().map(e => e.name)).toEqual(['default', 'kept']);
+
+    source.close();
+    target.close();
+  });
+});
+
+describe('Configuration', () => {
+  test('options configure every subsystem and set_config changes them at runtime', async () => {
+    const plugin = new ABLearningPlugin(':memory:', {
+      seed: 4,
+      explorationRate: 0.5,
+      prunePolicy: { minTrials: 30 },
+      evolution: { rolloutTrials: 5 },
+    });
+    const getTool = pluginModule.tools.find(t => t.name === 'get_config')!;
+    const config = await getTool.execute(plugin, {});
+    expect(config).toMatchObject({
+      dbPath: ':memory:',
+      explorationRate: 0.5,
+      currentExplorationRate: 0.5,
+      rolloutShare: 0.2,
+    });
+    expect(plugin.getExperiment('default').prunePolicy.minTrials).toBe(30);
+    const review = plugin.createExperiment('review');
+    expect(review.prunePolicy.minTrials).toBe(30);
+    // Partial policies fill in from the configured one
+    expect(plugin.setPrunePolicy('default', { keepActive: 2 }).prunePolicy.minTrials).toBe(30);
+
+    const setTool = pluginModule.tools.find(t => t.name === 'set_config')!;
+    const updated = await setTool.execute(plugin, {
+      config: { rolloutShare: 0, explorationRate: 0.1, prunePolicy: { minTrials: 5 } },
+    });
+    expect(updated).toMatchObject({ rolloutShare: 0, currentExplorationRate: 0.1 });
+    expect(updated.prunePolicy).toMatchObject({ minTrials: 5, minMeanUtility: 0.05 });
+    // Experiments without a policy of their own follow the config
+    expect(plugin.getExperiment(review.id).prunePolicy.minTrials).toBe(5);
+    expect(plugin.getExperiment('default').prunePolicy.minTrials).toBe(30);
+
+    expect(() => plugin.setConfig({ dbPath: 'other.db' })).toThrow(
+      'dbPath cannot change while the plugin is running'
+    );
+    expect(() => plugin.setConfig({ rolloutShare: -1 })).toThrow('Config rolloutShare');
+    expect(plugin.getConfig().rolloutShare).toBe(0);
+
+    plugin.close();
+  });
+
+  test('the configured temperature reaches the LLM provider', async () => {
+    const provider = new StubLLMProvider();
+    const plugin = new ABLearningPlugin(':memory:', { llmProvider: provider, temperature: 0.4 });
+    const a = plugin.createVariant('Review the diff for bugs.');
+    const b = plugin.createVariant('List security issues first.');
+    recordTask(plugin, a, 'a', true);
+    recordTask(plugin, b, 'b', false);
+
+    await plugin.evolvePrompts(2, 1);
+    expect(provider.callOptions.length).toBeGreaterThan(0);
+    expect(provider.callOptions.every(options => options?.temperature === 0.4)).toBe(true);
+
+    plugin.setConfig({ temperature: 0 });
+    const calls = provider.callOptions.length;
+    await plugin.evolvePrompts(2, 1);
+    expect(provider.callOptions.slice(calls).every(options => options?.temperature === 0)).toBe(true);
+
+    plugin.close();
+  });
+
+  test('a temperature the LLM provider would ignore is rejected', () => {
+    const provider = {
+      name: 'agent-configured',
+      ignoresTemperature: true,
+      complete: async () => 'Review the diff.',
+    };
+    expect(() => new ABLearningPlugin(':memory:', { llmProvider: provider, temperature: 0.2 })).toThrow(
+      'LLM provider agent-configured ignores temperature'
+    );
+
+    const plugin = new ABLearningPlugin(':memory:', { llmProvider: provider });
+    expect(() => plugin.setConfig({ temperature: 0.2 })).toThrow('ignores temperature');
+    expect(plugin.getConfig().temperature).toBe(1);
+    expect(plugin.setConfig({ temperature: 1 }).temperature).toBe(1);
+
+    plugin.close();
+  });
+});
+
+describe('Learning scheduler', () => {
+  // Two variants worth keeping and one the default prune policy retires
+  function seedPlugin(plugin: ABLearningPlugin) {
+    const good = plugin.createVariant('Review the diff for bugs.');
+    const fair = plugin.createVariant('Review the diff for bugs and style.');
+    const poor = plugin.createVariant('Review the diff.');
+    for (let i = 0; i < 25; i++) {
+      recordTask(plugin, good, `good_${i}`, i % 3 !== 0);
+      recordTask(plugin, fair, `fair_${i}`, i % 2 === 0);
+      recordTask(plugin, poor, `poor_${i}`, false);
+    }
+    return { good, fair, poor };
+  }
+
+  test('scheduled runs wait for new feedback and every run is logged', async () => {
+    const plugin = new ABLearningPlugin(':memory:', {
+      seed: 25,
+      offlineEvolution: true,
+      minNewFeedback: 100,
+      evolutionPopulationSize: 2,
+      evolutionGenerations: 1,
+    });
+    const { poor } = seedPlugin(plugin);
+
+    expect(plugin.startLearning(5)).toMatchObject({ started: true, pendingFeedback: 75 });
+    await Bun.sleep(30);
+    const status = await plugin.stopLearning();
+    expect(status).toMatchObject({ started: false, busy: false, lastRun: null });
+    const skipped = plugin.getLearningRuns();
+    expect(skipped.length).toBeGreaterThan(0);
+    expect(skipped[0]).toMatchObject({
+      trigger: 'interval',
+      status: 'skipped',
+      newFeedback: 75,
+      pruned: {},
+      explorationAfter: 0.3,
+    });
+    expect(plugin.getExperimentVariantIds('default', 'active')).toContain(poor);
+
+    // Manual runs do not wait for feedback
+    const tool = pluginModule.tools.find(t => t.name === 'run_learning_now')!;
+    const run = await tool.execute(plugin, {});
+    expect(run).toMatchObject({
+      trigger: 'manual',
+      status: 'completed',
+      newFeedback: 75,
+      pruned: { default: [poor] },
+      explorationBefore: 0.3,
+      error: null,
+    });
+    expect(run.explorationAfter).toBeCloseTo(0.285, 10);
+    expect(run.evolved.default.length).toBeGreaterThan(0);
+    expect(run.feedbackCursor).toBe(75);
+    expect(plugin.getConfig().currentExplorationRate).toBe(run.explorationAfter);
+
+    // Completed runs consume the feedback they saw
+    const history = await pluginModule.tools
+      .find(t => t.name === 'learning_runs')!
+      .execute(plugin, { limit: 1 });
+    expect(history.runs).toEqual([run]);
+    expect(history.status).toMatchObject({ pendingFeedback: 0, lastRun: run });
+
+    plugin.close();
+  });
+
+  test('a failed run keeps what it got done and shutdown waits for it', async () => {
+    let fail = (_error: Error) => {};
+    const plugin = new ABLearningPlugin(':memory:', {
+      seed: 26,
+      llmProvider: {
+        name: 'unavailable',
+        complete: () => new Promise<string>((_, reject) => (fail = reject)),
+      },
+    });
+    const { poor } = seedPlugin(plugin);
+
+    const run = plugin.runLearningNow();
+    expect(plugin.runLearningNow()).toBe(run);
+    await Bun.sleep(5);
+    expect(plugin.getLearningRuns()[0].status).toBe('running');
+    expect(plugin.getLearningStatus().busy).toBe(true);
+
+    let closed = false;
+    const closing = plugin.shutdown().then(() => (closed = true));
+    await Bun.sleep(5);
+    expect(closed).toBe(false);
+
+    fail(new Error('model unavailable'));
+    await closing;
+    expect(await run).toMatchObject({
+      status: 'failed',
+      error: 'model unavailable',
+      pruned: { default: [poor] },
+      evolved: {},
+      explorationAfter: 0.3,
+    });
+  });
+
+  test('closing mid-run logs the run as failed instead of leaving it running', async () => {
+    const dbPath = join(tmpdir(), `ab-learning-close-${process.pid}.db`);
+    const removeDb = async () => {
+      for (const suffix of ['', '-wal', '-shm']) {
+        await unlink(dbPath + suffix).catch(() => {});
+      }
+    };
+    await removeDb();
+    let respond = (_text: string) => {};
+    const plugin = new ABLearningPlugin(dbPath, {
+      seed: 27,
+      llmProvider: {
+        name: 'slow',
+        complete: () => new Promise<string>(resolve => (respond = resolve)),
+      },
+    });
+    const { poor } = seedPlugin(plugin);
+
+    const run = plugin.runLearningNow();
+    await Bun.sleep(5);
+    plugin.close();
+    respond('Review the diff for bugs, then style.');
+    await expect(run).rejects.toThrow('the plugin was closed');
+
+    const reopened = new ABLearningPlugin(dbPath);
+    expect(reopened.getLearningRuns()[0]).toMatchObject({
+      status: 'failed',
+      error: 'Interrupted: the plugin was closed',
+      pruned: { default: [poor] },
+      evolved: {},
+    });
+    expect(reopened.getLearningRuns()[0].finishedAt).not.toBeNull();
+    reopened.close();
+    await removeDb();
+  });
+});
+
+describe('Concurrent sessions', () => {
+  const SHARED_DB = '.opencode/test_concurrent.db';
+
+  beforeEach(async () => {
+    await mkdir('.opencode', { recursive: true });
+    for (const suffix of ['', '-wal', '-shm']) {
+      await unlink(SHARED_DB + suffix).catch(() => {});
+    }
+  });
+
+  test('feedback from parallel processes is never lost', async () => {
+    const setup = new ABLearningPlugin(SHARED_DB, { seed: 1 });
+    const variantId = setup.createVariant('Review the diff.');
+    setup.close();
+
+    // Each worker records 40 feedbacks for the same variant in its own process
+    const worker = (name: string) => `
+      const { ABLearningPlugin } = await import(
+        ${JSON.stringify(`${import.meta.dir}/ab-learning.ts`)}
+      );
+      const plugin = new ABLearningPlugin(${JSON.stringify(SHARED_DB)});
+      for (let i = 0; i < 40; i++) {
+        const { taskId } = plugin.assignVariant([${JSON.stringify(variantId)}], '', '${name}_' + i);
+        plugin.recordFeedback({
+          taskId, reward: i % 2, latencyMs: 100, tokenCost: 10,
+          success: i % 2 === 1, timestamp: Date.now()
+        });
+      }
+      plugin.close();
+    `;
+    const workers = ['a', 'b'].map(name =>
+      Bun.spawn([process.execPath, '-e', worker(name)], { stderr: 'pipe' })
+    );
+    for (const proc of workers) {
+      expect(await proc.exited).toBe(0);
+    }
+
+    const plugin = new ABLearningPlugin(SHARED_DB);
+    const stats = plugin.getVariantStats(variantId);
+    expect(stats.totalTrials).toBe(80);
+    expect(stats.alpha).toBe(41);
+    expect(stats.beta).toBe(41);
+    expect(stats.avgReward).toBeCloseTo(0.5, 10);
+    plugin.close();
+
+    const db = new Database(SHARED_DB);
+    expect(db.query('PRAGMA journal_mode').get()).toEqual({ journal_mode: 'wal' });
+    expect(db.query('SELECT COUNT(*) AS n FROM feedback_records').get()).toEqual({ n: 80 });
+    db.close();
+  });
+
+  test('rejects an invalid busy timeout', () => {
+    expect(() => new ABLearningPlugin(':memory:', { busyTimeoutMs: -1 })).toThrow(
+      'Config busyTimeoutMs must be an integer >= 0'
+    );
+  });
+});
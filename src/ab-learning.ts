@@ -10,40 +10,252 @@
  */
 
 import Database from 'bun:sqlite';
-import { randomBytes } from 'crypto';
+import { createHash } from 'crypto';
+import { initLinUCBState, linUCBScore, updateLinUCBState, type LinUCBState } from './linucb';
+import { OpenCodeLLMProvider, type LLMProvider, type OpenCodeClient } from './llm-provider';
+import { fitBradleyTerry, type PreferenceScore, type WeightedComparison } from './preference';
+import { selectDuelingPair } from './dueling';
+import {
+  bootstrapInterval,
+  cohensD,
+  cohensH,
+  fisherExactTest,
+  mean,
+  meanDifference,
+  posteriorRanking,
+  relativeLift,
+  twoProportionZTest,
+  welchTTest,
+  type BootstrapInterval,
+  type TestResult
+} from './significance';
+import {
+  evaluateOffline,
+  validateCandidatePolicy,
+  type CandidatePolicy,
+  type OfflineEstimates
+} from './offline-evaluation';
+import { requiredTrialsPerArm, simulateThompsonRegret, type RegretSimulation } from './planning';
+import { deriveSeed, randomHex, randomSeed, seededRandom, type RandomSource } from './random';
+import { checkOffspringTemplate, renderTemplate, templateVariables, type TemplateValues } from './template';
+import {
+  DEFAULT_STOPPING_RULE,
+  checkStoppingRule,
+  validateStoppingRule,
+  type StoppingDecision,
+  type StoppingRule
+} from './sequential';
+import {
+  DEFAULT_DRIFT_POLICY,
+  INITIAL_PAGE_HINKLEY,
+  PRIOR_EVIDENCE,
+  addObservation,
+  scaleEvidence,
+  updatePageHinkley,
+  validateDriftPolicy,
+  type DriftPolicy,
+  type PosteriorEvidence
+} from './drift';
+import {
+  DEFAULT_POSTERIOR_FAMILY,
+  isBounded,
+  isPosteriorFamily,
+  observationQuality,
+  samplePosterior,
+  summarizePosterior,
+  type PosteriorFamily,
+  type PosteriorSampler,
+  type PosteriorSummary
+} from './posterior';
+import {
+  DEFAULT_REWARD_POLICY,
+  computeUtility,
+  paretoFront,
+  validateRewardPolicy,
+  type ParetoEntry,
+  type RewardPolicy
+} from './reward-policy';
+import {
+  GenomeEvolutionOperator,
+  LLMEvolutionOperator,
+  OfflineEvolutionOperator,
+  type EvolutionOperator,
+  type GenomeEvolutionOptions,
+  type LLMEvolutionOptions
+} from './evolution-operators';
+import { parseGenome, traceInheritance, type SectionType } from './genome';
+import {
+  adaptMutationRate,
+  populationDiversity,
+  selectIndex,
+  sharedFitness,
+  validateEvolutionConfig,
+  type EvolutionConfig
+} from './evolution';
+import { migrate } from './migrations';
+import { DEFAULT_CONFIG, loadConfig, pickConfig, validateConfig, type PluginConfig, type PluginConfigInput } from './config';
+import { Scheduler, type RunTrigger, type SchedulerStatus } from './scheduler';
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  decodeBundle,
+  encodeBundle,
+  mergeStats,
+  validateBundle,
+  type BundleEncoding,
+  type BundleExperiment,
+  type ExperimentBundle
+} from './bundle';
+import {
+  diffStats,
+  integrityReport,
+  renderStatsDiff,
+  toIssue,
+  type IntegrityReport,
+  type StatsChange,
+  type StatsRebuild,
+  type StatsSnapshot
+} from './integrity';
+import { selectPruned, validatePrunePolicy, type PrunePolicy } from './pruning';
+import {
+  buildLineage,
+  renderDot,
+  renderMermaid,
+  type LineageFormat,
+  type LineageLink,
+  type LineageOperation,
+  type VariantLineage
+} from './lineage';
+
+export { OpenCodeLLMProvider, StubLLMProvider } from './llm-provider';
+export type { CompletionOptions, LLMProvider, OpenCodeClient } from './llm-provider';
+export { GenomeEvolutionOperator, LLMEvolutionOperator, OfflineEvolutionOperator } from './evolution-operators';
+export type { EvolutionOperator, GenomeEvolutionOptions } from './evolution-operators';
+export { parseGenome, renderGenome } from './genome';
+export type { GenomeSection, PromptGenome, SectionType } from './genome';
+export type { EvolutionConfig, SelectionScheme } from './evolution';
+export type { LineageFormat, LineageOperation, VariantLineage } from './lineage';
+export type { PrunePolicy } from './pruning';
+export type { PluginConfig, PluginConfigInput } from './config';
+export type { RunTrigger, SchedulerStatus } from './scheduler';
+export type { IntegrityIssue, IntegrityReport, StatsChange, StatsRebuild } from './integrity';
+export type { BundleEncoding, ExperimentBundle } from './bundle';
+export type { RewardPolicy } from './reward-policy';
+export type { PosteriorFamily, PosteriorSummary } from './posterior';
+export type { DriftPolicy } from './drift';
+export type { StoppingRule } from './sequential';
+export type { CandidatePolicy } from './offline-evaluation';
+export type { RandomSource } from './random';
+export type { TemplateValues } from './template';
 
 // ============================================================================
 // Types & Interfaces
 // ============================================================================
 
+type ExperimentStatus = 'active' | 'paused' | 'concluded' | 'archived';
+
+const EXPERIMENT_STATUSES: ExperimentStatus[] = ['active', 'paused', 'concluded', 'archived'];
+
+// Only active variants are served and evolved; every other status keeps the
+// variant and its history and can be restored
+type VariantStatus = 'draft' | 'active' | 'paused' | 'retired' | 'archived';
+
+const VARIANT_STATUSES: VariantStatus[] = ['draft', 'active', 'paused', 'retired', 'archived'];
+
+interface Experiment {
+  id: string;
+  name: string;
+  description?: string;
+  status: ExperimentStatus;
+  rewardPolicy: RewardPolicy;
+  posteriorFamily: PosteriorFamily;
+  driftPolicy: DriftPolicy;
+  stoppingRule: StoppingRule;
+  prunePolicy: PrunePolicy;
+  defaultVariantId?: string; // Winner promoted when the experiment concluded
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface EvolutionRun {
+  id: number;
+  experimentId: string;
+  populationSize: number;
+  generations: number;
+  offspringIds: string[];
+  seed: number | null; // Seed of the run's random stream; null for runs recorded before seeding
+  mutationRate: number | null; // Rate after the last generation; adaptive runs start from it
+  config: EvolutionConfig | null;
+  timestamp: number;
+}
+
+interface Individual {
+  variant: PromptVariant;
+  fitness: number; // Posterior mean utility, or the parents' mean for unevaluated offspring
+}
+
 interface PromptVariant {
   id: string;
+  experimentId: string;
   template: string;
   parentId?: string;
   generation: number;
+  posteriorFamily?: PosteriorFamily; // Overrides the experiment's family
+  status: VariantStatus;
+  inheritance?: VariantInheritance[]; // Evolved variants: where each section came from
+  rolloutTrials?: number; // Staged rollout budget of an evolved variant
   createdAt: number;
 }
 
+interface VariantInheritance {
+  section: SectionType;
+  parentId: string | null; // Null for sections no parent had
+  modified: boolean; // Taken from that parent, then changed
+}
+
 interface VariantPerformance {
   variantId: string;
-  alpha: number; // Successes (Bayesian posterior)
-  beta: number;  // Failures
+  family: PosteriorFamily;
+  alpha: number; // Utility successes under the experiment's reward policy (Beta families)
+  beta: number;  // Utility failures (Beta families)
+  utilityN: number; // Sufficient statistics of observed utilities (all families)
+  utilitySum: number;
+  utilitySumSq: number;
   totalTrials: number;
   avgReward: number;
   avgLatencyMs: number;
   avgTokenCost: number;
+  posterior: PosteriorSummary;
 }
 
 interface ExperimentAssignment {
   taskId: string;
+  experimentId: string;
   variantId: string;
   context: string;
+  candidateIds?: string[]; // Missing for assignments logged before propensities were recorded
+  propensity?: number; // Probability the selection policy chose this variant
+  selectionPolicy?: 'thompson' | 'linucb' | 'uniform';
   timestamp: number;
 }
 
-interface FeedbackRecord {
+interface RenderedPrompt {
   taskId: string;
   variantId: string;
+  variables: string[]; // Placeholders the variant's template declares
+  prompt: string;
+}
+
+interface OfflineEvaluation extends OfflineEstimates {
+  experimentId: string;
+  policy: CandidatePolicy;
+  metric: RewardPolicy; // Reward the value is measured in
+  unlogged: number; // Feedback whose assignment has no logged propensity
+}
+
+interface FeedbackRecord {
+  taskId: string;
+  variantId?: string; // Resolved from the task's assignment; must match it when given
   reward: number;
   latencyMs: number;
   tokenCost: number;
@@ -59,6 +271,166 @@ interface PreferenceComparison {
   timestamp: number;
 }
 
+interface VariantEvaluation {
+  variantId: string;
+  trials: number;
+  successRate: number;
+  meanReward: number;
+  bayesian: {
+    method: 'posterior Monte Carlo';
+    draws: number;
+    probabilityOfBest: number;
+    expectedLoss: number; // E[max θ − θᵢ] in posterior utility
+  };
+}
+
+interface VariantComparison {
+  variantId: string;
+  baselineId: string;
+  successRate: {
+    zTest: TestResult;
+    fisherExact: TestResult;
+    effectSize: { method: "Cohen's h"; value: number };
+  };
+  reward: {
+    welchT: TestResult;
+    effectSize: { method: "Cohen's d"; value: number };
+    difference: BootstrapInterval | null;
+    lift: BootstrapInterval | null; // Relative to the baseline mean; null when it is 0
+  };
+}
+
+interface EvaluationReport {
+  experimentId: string;
+  baselineId: string;
+  variants: VariantEvaluation[];
+  comparisons: VariantComparison[];
+}
+
+interface EvaluationOptions {
+  baselineId?: string;
+  level?: number;
+  resamples?: number;
+  draws?: number;
+}
+
+interface PlanOptions {
+  experimentId?: string;
+  baselineRate?: number; // Defaults to the experiment's pooled success rate
+  minDetectableEffect: number; // Absolute lift in success rate, or relative when `relative` is set
+  relative?: boolean;
+  alpha?: number;
+  power?: number;
+  arms?: number;
+  simulationRuns?: number;
+  throughputWindowMs?: number; // Feedback window used to estimate tasks per day
+}
+
+interface ExperimentPlan {
+  experimentId: string;
+  baselineRate: number;
+  baselineSource: 'feedback_records' | 'provided';
+  targetRate: number;
+  alpha: number;
+  power: number;
+  arms: number;
+  method: 'two-proportion z-test, Bonferroni vs control';
+  trialsPerArm: number;
+  totalTrials: number;
+  throughput: { tasksPerDay: number; observedTasks: number; windowMs: number };
+  estimatedDaysToCompletion: number | null; // null without recent feedback
+  regret: RegretSimulation;
+}
+
+interface ExperimentDecision {
+  id: number;
+  experimentId: string;
+  winnerId: string;
+  rule: StoppingDecision['rule'] | 'manual';
+  evidence: unknown;
+  retiredIds: string[];
+  timestamp: number;
+}
+
+interface VariantStatusChange {
+  id: number;
+  experimentId: string;
+  variantId: string;
+  from: VariantStatus;
+  to: VariantStatus;
+  reason: string; // e.g. 'manual', 'restored', 'concluded: msprt' or the pruning criterion
+  timestamp: number;
+}
+
+interface ChangePoint {
+  id: number;
+  experimentId: string;
+  variantId: string;
+  statistic: number;
+  action: 'reset' | 'widen';
+  feedbackId: number | null; // Feedback record that triggered it; null if it predates the link and has no match
+  timestamp: number;
+}
+
+interface ImportOptions {
+  experimentId?: string; // Merge into this experiment instead of creating one
+  name?: string; // Name of the created experiment; defaults to the bundle's
+  remapIds?: boolean; // Fresh experiment, variant and task IDs (default); false keeps the bundle's
+}
+
+interface ImportSummary {
+  experimentId: string;
+  created: boolean; // False when merged into an existing experiment
+  variantIds: Record<string, string>; // Bundle variant ID → local variant ID
+  merged: string[]; // Existing variants whose posteriors absorbed the bundle's evidence
+  lineage: number;
+  feedback: number;
+  preferences: number;
+}
+
+type LearningRunStatus = 'running' | 'completed' | 'skipped' | 'failed';
+
+interface LearningRun {
+  id: number;
+  trigger: RunTrigger;
+  status: LearningRunStatus; // 'skipped' when a scheduled run found too little new feedback
+  newFeedback: number; // Feedback records since the last completed run
+  feedbackCursor: number; // Latest feedback record the run saw
+  pruned: Record<string, string[]>; // Experiment ID → variants retired
+  evolved: Record<string, string[]>; // Experiment ID → offspring created
+  explorationBefore: number;
+  explorationAfter: number;
+  error: string | null; // Set when the run failed; pruned and evolved hold what it got done
+  startedAt: number;
+  finishedAt: number | null; // Null while running
+}
+
+interface LearningStatus extends SchedulerStatus {
+  pendingFeedback: number; // Feedback records since the last completed run
+  minNewFeedback: number;
+  lastRun: LearningRun | null;
+}
+
+// Config keys (see src/config.ts) are accepted alongside the options below
+interface ABLearningPluginOptions extends PluginConfigInput {
+  evolutionOperator?: EvolutionOperator; // Custom crossover and mutation; takes precedence over llmProvider
+  llmProvider?: LLMProvider; // Model used by crossover and mutation
+  llmEvolution?: LLMEvolutionOptions;
+  offlineEvolution?: boolean | 'genome' | 'append'; // Without a provider, evolve with genome operators (true or 'genome') or by appending text
+  genomeEvolution?: GenomeEvolutionOptions;
+  seed?: number; // 32-bit seed; the same seed and inputs replay every random choice
+  random?: RandomSource; // Custom uniform source on [0, 1); takes precedence over seed
+}
+
+interface PairProposal {
+  token: string;
+  experimentId: string;
+  variantA: PromptVariant;
+  variantB: PromptVariant;
+  context: string;
+  createdAt: number;
+}
+
 interface ContextualFeatures {
   variantId: string;
   contextHash: string;
@@ -68,503 +440,2674 @@ interface ContextualFeatures {
 }
 
 // ============================================================================
-// Database Schema
+// Constants
 // ============================================================================
 
-const SCHEMA = `
-CREATE TABLE IF NOT EXISTS prompt_variants (
-  id TEXT PRIMARY KEY,
-  template TEXT NOT NULL,
-  parent_id TEXT,
-  generation INTEGER NOT NULL DEFAULT 0,
-  created_at INTEGER NOT NULL
-);
-
-CREATE TABLE IF NOT EXISTS variant_performance (
-  variant_id TEXT PRIMARY KEY,
-  alpha REAL NOT NULL DEFAULT 1.0,
-  beta REAL NOT NULL DEFAULT 1.0,
-  total_trials INTEGER NOT NULL DEFAULT 0,
-  avg_reward REAL NOT NULL DEFAULT 0.0,
-  avg_latency_ms REAL NOT NULL DEFAULT 0.0,
-  avg_token_cost REAL NOT NULL DEFAULT 0.0,
-  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
-);
-
-CREATE TABLE IF NOT EXISTS experiment_assignments (
-  task_id TEXT PRIMARY KEY,
-  variant_id TEXT NOT NULL,
-  context TEXT,
-  timestamp INTEGER NOT NULL,
-  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
-);
-
-CREATE TABLE IF NOT EXISTS feedback_records (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  task_id TEXT NOT NULL,
-  variant_id TEXT NOT NULL,
-  reward REAL NOT NULL,
-  latency_ms REAL NOT NULL,
-  token_cost REAL NOT NULL,
-  success INTEGER NOT NULL,
-  timestamp INTEGER NOT NULL,
-  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
-);
-
-CREATE TABLE IF NOT EXISTS preference_comparisons (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  winner_id TEXT NOT NULL,
-  loser_id TEXT NOT NULL,
-  context TEXT,
-  human_feedback INTEGER NOT NULL DEFAULT 0,
-  timestamp INTEGER NOT NULL,
-  FOREIGN KEY(winner_id) REFERENCES prompt_variants(id),
-  FOREIGN KEY(loser_id) REFERENCES prompt_variants(id)
-);
-
-CREATE TABLE IF NOT EXISTS contextual_features (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  variant_id TEXT NOT NULL,
-  context_hash TEXT NOT NULL,
-  features BLOB NOT NULL,
-  reward REAL NOT NULL,
-  timestamp INTEGER NOT NULL,
-  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
-);
-
-CREATE INDEX IF NOT EXISTS idx_feedback_variant ON feedback_records(variant_id);
-CREATE INDEX IF NOT EXISTS idx_feedback_timestamp ON feedback_records(timestamp);
-CREATE INDEX IF NOT EXISTS idx_contextual_variant ON contextual_features(variant_id, context_hash);
-`;
+const DEFAULT_EXPERIMENT_ID = 'default';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SIMULATION_HORIZON = 50000;
+const PROPENSITY_DRAWS = 1000;
 
 // ============================================================================
 // Core Plugin Class
 // ============================================================================
 
-class ABLearningPlugin {
+export class ABLearningPlugin {
   private db: Database;
-  private explorationRate: number = 0.3;
-  private temperature: number = 1.0;
-  private minTrialsBeforeExploitation: number = 10;
+  private config: PluginConfig;
+  private explorationRate: number; // Current LinUCB α, decayed by learning runs
+  private scheduler = new Scheduler<LearningRun>(trigger => this.learningCycle(trigger));
+  private activeRun: Pick<LearningRun, 'id' | 'pruned' | 'evolved'> | null = null; // Learning run in flight
+  private closed = false;
+  private evolutionOperator: EvolutionOperator | null;
+  private random: RandomSource;
+  readonly seed: number | null; // Null when a custom random source was injected
+  private posteriorSampler: PosteriorSampler = {
+    beta: (a, b) => this.sampleBeta(a, b),
+    gamma: (shape, scale) => this.sampleGamma(shape, scale),
+    normal: () => this.randomNormal()
+  };
+
+  /**
+   * Config comes from the options over the defaults; dbPath, when given, takes
+   * precedence over options.dbPath. The plugin's initialize() also reads the
+   * config file and environment.
+   */
+  constructor(dbPath?: string, options: ABLearningPluginOptions = {}) {
+    this.config = validateConfig({ ...pickConfig({ ...options }), ...(dbPath !== undefined && { dbPath }) });
+    this.explorationRate = this.config.explorationRate;
+    if (options.random) {
+      this.seed = null;
+      this.random = options.random;
+    } else {
+      this.seed = options.seed ?? randomSeed();
+      this.random = seededRandom(this.seed);
+    }
+
+    if (options.evolutionOperator) {
+      this.evolutionOperator = options.evolutionOperator;
+    } else if (options.llmProvider) {
+      this.evolutionOperator = new LLMEvolutionOperator(options.llmProvider, {
+        ...options.llmEvolution,
+        temperature: this.config.temperature
+      });
+    } else {
+      this.evolutionOperator = options.offlineEvolution === 'append'
+        ? new OfflineEvolutionOperator()
+        : options.offlineEvolution
+          ? new GenomeEvolutionOperator(options.genomeEvolution)
+          : null;
+    }
+    this.assertTemperatureApplies(this.config.temperature);
 
-  constructor(dbPath: string = '.opencode/ab_learning.db') {
-    this.db = new Database(dbPath);
+    this.db = new Database(this.config.dbPath);
     this.initDatabase();
   }
 
-  private initDatabase(): void {
-    this.db.exec(SCHEMA);
+  /**
+   * Reject a non-default temperature the LLM provider would silently ignore
+   */
+  private assertTemperatureApplies(temperature: number): void {
+    if (!(this.evolutionOperator instanceof LLMEvolutionOperator)) return;
+    const { provider } = this.evolutionOperator;
+    if (provider.ignoresTemperature && temperature !== DEFAULT_CONFIG.temperature) {
+      throw new Error(
+        `LLM provider ${provider.name} ignores temperature; set it in the model's configuration instead`
+      );
+    }
   }
 
-  // ==========================================================================
-  // Thompson Sampling
-  // ==========================================================================
-
   /**
-   * Select variant using Thompson Sampling from Beta distributions
+   * Several OpenCode sessions may share one database file. WAL lets them read
+   * while another writes, and writers wait up to the busy timeout for the lock
+   * instead of failing.
    */
-  thompsonSample(candidateIds: string[]): string {
-    const performances = candidateIds.map(id => this.getPerformance(id));
-    
-    // Sample from each variant's posterior Beta distribution
-    const samples = performances.map(perf => {
-      return this.sampleBeta(perf.alpha, perf.beta);
-    });
+  private initDatabase(): void {
+    this.db.exec(`PRAGMA busy_timeout = ${this.config.busyTimeoutMs}`);
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA foreign_keys = ON');
+    migrate(this.db);
 
-    // Select variant with highest sample
-    const maxIdx = samples.indexOf(Math.max(...samples));
-    return candidateIds[maxIdx];
+    // Variants created before experiments existed live in the default experiment
+    const now = Date.now();
+    this.db.run(`
+      INSERT OR IGNORE INTO experiments (id, name, description, status, created_at, updated_at)
+      VALUES (?, ?, ?, 'active', ?, ?)
+    `, [DEFAULT_EXPERIMENT_ID, DEFAULT_EXPERIMENT_ID, 'Default experiment', now, now]);
   }
 
   /**
-   * Sample from Beta(alpha, beta) distribution using gamma distributions
+   * Run fn in an immediate transaction. Taking the write lock before reading
+   * serialises read-modify-write updates across sessions; nested calls become
+   * savepoints of the enclosing transaction.
    */
-  private sampleBeta(alpha: number, beta: number): number {
-    const x = this.sampleGamma(alpha, 1);
-    const y = this.sampleGamma(beta, 1);
-    return x / (x + y);
+  private write<T>(fn: () => T): T {
+    return this.db.transaction(fn).immediate();
   }
 
+  // ==========================================================================
+  // Experiments
+  // ==========================================================================
+
   /**
-   * Sample from Gamma distribution using Marsaglia & Tsang method
+   * Create a new experiment with its own, isolated variant pool
    */
-  private sampleGamma(shape: number, scale: number): number {
-    if (shape < 1) {
-      return this.sampleGamma(shape + 1, scale) * Math.pow(Math.random(), 1 / shape);
+  createExperiment(
+    name: string,
+    description?: string,
+    rewardPolicy?: RewardPolicy,
+    posteriorFamily: PosteriorFamily = DEFAULT_POSTERIOR_FAMILY
+  ): Experiment {
+    this.assertPosteriorFamily(posteriorFamily);
+    const existing = this.db.query('SELECT id FROM experiments WHERE name = ?').get(name);
+    if (existing) {
+      throw new Error(`Experiment already exists: ${name}`);
     }
 
-    const d = shape - 1/3;
-    const c = 1 / Math.sqrt(9 * d);
+    const now = Date.now();
+    const experiment: Experiment = {
+      id: this.newId('experiments', 'id'),
+      name,
+      description,
+      status: 'active',
+      rewardPolicy: rewardPolicy ? validateRewardPolicy(rewardPolicy) : DEFAULT_REWARD_POLICY,
+      posteriorFamily,
+      driftPolicy: DEFAULT_DRIFT_POLICY,
+      stoppingRule: DEFAULT_STOPPING_RULE,
+      prunePolicy: this.config.prunePolicy,
+      createdAt: now,
+      updatedAt: now
+    };
 
-    while (true) {
-      let x: number, v: number;
-      do {
-        x = this.randomNormal();
-        v = 1 + c * x;
-      } while (v <= 0);
+    this.db.run(`
+      INSERT INTO experiments (id, name, description, status, reward_policy, posterior_family, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [experiment.id, name, description ?? null, experiment.status,
+        JSON.stringify(experiment.rewardPolicy), posteriorFamily, now, now]);
 
-      v = v * v * v;
-      const u = Math.random();
-      const x2 = x * x;
+    return experiment;
+  }
 
-      if (u < 1 - 0.0331 * x2 * x2) {
-        return d * v * scale;
-      }
-      if (Math.log(u) < 0.5 * x2 + d * (1 - v + Math.log(v))) {
-        return d * v * scale;
-      }
+  listExperiments(status?: ExperimentStatus): Experiment[] {
+    const rows = (status
+      ? this.db.query('SELECT * FROM experiments WHERE status = ? ORDER BY created_at').all(status)
+      : this.db.query('SELECT * FROM experiments ORDER BY created_at').all()) as any[];
+    return rows.map(row => this.rowToExperiment(row));
+  }
+
+  getExperiment(experimentId: string): Experiment {
+    const row = this.db.query('SELECT * FROM experiments WHERE id = ?').get(experimentId) as any;
+    if (!row) {
+      throw new Error(`Unknown experiment: ${experimentId}`);
     }
+    return this.rowToExperiment(row);
   }
 
   /**
-   * Generate standard normal random variable (Box-Muller)
+   * Move an experiment between active, paused and archived. Archived is terminal;
+   * concluded experiments can only be archived.
    */
-  private randomNormal(): number {
-    const u1 = Math.random();
-    const u2 = Math.random();
-    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  setExperimentStatus(experimentId: string, status: ExperimentStatus): Experiment {
+    const experiment = this.getExperiment(experimentId);
+    if (experiment.status === 'archived' && status !== 'archived') {
+      throw new Error(`Experiment ${experimentId} is archived and cannot be reactivated`);
+    }
+    if (status === 'concluded' && experiment.status !== 'concluded') {
+      throw new Error('Experiments conclude through a stopping rule or concludeExperiment');
+    }
+    if (experiment.status === 'concluded' && status !== 'concluded' && status !== 'archived') {
+      throw new Error(`Experiment ${experimentId} is concluded and can only be archived`);
+    }
+
+    const now = Date.now();
+    this.db.run('UPDATE experiments SET status = ?, updated_at = ? WHERE id = ?', [status, now, experimentId]);
+    return { ...experiment, status, updatedAt: now };
   }
 
   /**
-   * Update variant performance with Bayesian update
+   * Change what an experiment optimises and rebuild its posteriors from raw feedback
    */
-  recordFeedback(feedback: FeedbackRecord): void {
-    const perf = this.getPerformance(feedback.variantId);
-
-    // Bayesian update
-    const newAlpha = perf.alpha + (feedback.success ? 1 : 0);
-    const newBeta = perf.beta + (feedback.success ? 0 : 1);
-    const newTrials = perf.totalTrials + 1;
+  setRewardPolicy(experimentId: string, policy: RewardPolicy): Experiment {
+    const experiment = this.getExperiment(experimentId);
+    const rewardPolicy = validateRewardPolicy(policy);
+    const now = Date.now();
+
+    this.write(() => {
+      this.db.run(`
+        UPDATE experiments SET reward_policy = ?, updated_at = ? WHERE id = ?
+      `, [JSON.stringify(rewardPolicy), now, experimentId]);
+      this.rebuildPosteriors(experimentId);
+    });
 
-    // Running averages
-    const newAvgReward = (perf.avgReward * perf.totalTrials + feedback.reward) / newTrials;
-    const newAvgLatency = (perf.avgLatencyMs * perf.totalTrials + feedback.latencyMs) / newTrials;
-    const newAvgTokenCost = (perf.avgTokenCost * perf.totalTrials + feedback.tokenCost) / newTrials;
+    return { ...experiment, rewardPolicy, updatedAt: now };
+  }
 
-    this.db.run(`
-      INSERT OR REPLACE INTO variant_performance 
-      (variant_id, alpha, beta, total_trials, avg_reward, avg_latency_ms, avg_token_cost)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [feedback.variantId, newAlpha, newBeta, newTrials, newAvgReward, newAvgLatency, newAvgTokenCost]);
+  /**
+   * Set the posterior family of an experiment and rebuild its posteriors from raw feedback
+   */
+  setExperimentPosteriorFamily(experimentId: string, family: PosteriorFamily): Experiment {
+    this.assertPosteriorFamily(family);
+    const experiment = this.getExperiment(experimentId);
+    const now = Date.now();
+
+    this.write(() => {
+      this.db.run(`
+        UPDATE experiments SET posterior_family = ?, updated_at = ? WHERE id = ?
+      `, [family, now, experimentId]);
+      this.rebuildPosteriors(experimentId);
+    });
 
-    // Also store raw feedback
-    this.db.run(`
-      INSERT INTO feedback_records 
-      (task_id, variant_id, reward, latency_ms, token_cost, success, timestamp)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [feedback.taskId, feedback.variantId, feedback.reward, feedback.latencyMs, 
-        feedback.tokenCost, feedback.success ? 1 : 0, Date.now()]);
+    return { ...experiment, posteriorFamily: family, updatedAt: now };
   }
 
-  private getPerformance(variantId: string): VariantPerformance {
-    const row = this.db.query(`
-      SELECT * FROM variant_performance WHERE variant_id = ?
-    `).get(variantId) as any;
+  /**
+   * Override the posterior family of one variant (null restores the experiment's family)
+   */
+  setVariantPosteriorFamily(variantId: string, family: PosteriorFamily | null): VariantPerformance {
+    if (family !== null) this.assertPosteriorFamily(family);
+    const experimentId = this.resolveExperiment([variantId]);
 
-    if (row) {
-      return {
-        variantId: row.variant_id,
-        alpha: row.alpha,
-        beta: row.beta,
-        totalTrials: row.total_trials,
-        avgReward: row.avg_reward,
-        avgLatencyMs: row.avg_latency_ms,
-        avgTokenCost: row.avg_token_cost
-      };
-    }
+    this.write(() => {
+      this.db.run('UPDATE prompt_variants SET posterior_family = ? WHERE id = ?', [family, variantId]);
+      this.rebuildPosteriors(experimentId);
+    });
 
-    // Initialize with uniform prior Beta(1, 1)
-    return {
-      variantId,
-      alpha: 1.0,
-      beta: 1.0,
-      totalTrials: 0,
-      avgReward: 0.0,
-      avgLatencyMs: 0.0,
-      avgTokenCost: 0.0
-    };
+    return this.getPerformance(variantId);
   }
 
-  // ==========================================================================
-  // Statistical Evaluation
-  // ==========================================================================
-
   /**
-   * Evaluate statistical significance between two variants
+   * Choose how an experiment's posteriors forget old feedback (discounting,
+   * sliding window, change detection) and rebuild them from raw feedback
    */
-  evaluateABTest(variantA: string, variantB: string): {
-    winner: string | null;
-    confidence: number;
-    pValue: number;
-  } {
-    const perfA = this.getPerformance(variantA);
-    const perfB = this.getPerformance(variantB);
-
-    // Monte Carlo simulation to estimate P(A > B)
-    const nSamples = 10000;
-    let countAWins = 0;
+  setDriftPolicy(experimentId: string, policy: DriftPolicy): Experiment {
+    const experiment = this.getExperiment(experimentId);
+    const driftPolicy = validateDriftPolicy(policy);
+    const now = Date.now();
+
+    this.write(() => {
+      this.db.run(`
+        UPDATE experiments SET drift_policy = ?, updated_at = ? WHERE id = ?
+      `, [JSON.stringify(driftPolicy), now, experimentId]);
+      this.rebuildPosteriors(experimentId);
+    });
 
-    for (let i = 0; i < nSamples; i++) {
-      const sampleA = this.sampleBeta(perfA.alpha, perfA.beta);
-      const sampleB = this.sampleBeta(perfB.alpha, perfB.beta);
-      if (sampleA > sampleB) countAWins++;
-    }
+    return { ...experiment, driftPolicy, updatedAt: now };
+  }
 
-    const probAWins = countAWins / nSamples;
-    const confidence = Math.max(probAWins, 1 - probAWins);
-    const pValue = 2 * Math.min(probAWins, 1 - probAWins);
+  /**
+   * Choose the sequential test checked after every feedback. Takes effect
+   * immediately, so an experiment that already meets the rule concludes now.
+   */
+  setStoppingRule(experimentId: string, rule: StoppingRule): Experiment {
+    this.getExperiment(experimentId);
+    const stoppingRule = validateStoppingRule(rule);
+
+    this.write(() => {
+      this.db.run(`
+        UPDATE experiments SET stopping_rule = ?, updated_at = ? WHERE id = ?
+      `, [JSON.stringify(stoppingRule), Date.now(), experimentId]);
+      this.applyStoppingRule(experimentId);
+    });
 
-    return {
-      winner: confidence > 0.95 ? (probAWins > 0.5 ? variantA : variantB) : null,
-      confidence,
-      pValue
-    };
+    return this.getExperiment(experimentId);
   }
 
-  // ==========================================================================
-  // Genetic Algorithm Evolution
-  // ==========================================================================
-
   /**
-   * Evolve new prompt variants using genetic algorithm
+   * Choose when pruning retires an experiment's variants. Takes effect at the
+   * next prune; nothing is retired now.
    */
-  async evolvePrompts(populationSize: number = 5, nGenerations: number = 3): Promise<string[]> {
-    // Get current population (top performers)
-    const population = this.getTopVariants(populationSize);
-    const newVariants: string[] = [];
+  setPrunePolicy(experimentId: string, policy: Partial<PrunePolicy>): Experiment {
+    const experiment = this.getExperiment(experimentId);
+    const prunePolicy = validatePrunePolicy({ ...this.config.prunePolicy, ...policy });
+    const now = Date.now();
 
-    for (let gen = 0; gen < nGenerations; gen++) {
-      // Selection: Tournament selection
-      const parents = this.tournamentSelection(population, 2);
-
-      // Crossover: LLM-based crossover
-      const offspring = await this.crossoverPrompts(parents[0].template, parents[1].template);
+    this.db.run(`
+      UPDATE experiments SET prune_policy = ?, updated_at = ? WHERE id = ?
+    `, [JSON.stringify(prunePolicy), now, experimentId]);
 
-      // Mutation: LLM-based mutation
-      const mutated = Math.random() < 0.2 ? await this.mutatePrompt(offspring) : offspring;
+    return { ...experiment, prunePolicy, updatedAt: now };
+  }
 
-      // Add to population
-      const newVariantId = this.createVariant(mutated, parents[0].id, parents[0].generation + 1);
-      newVariants.push(newVariantId);
+  /**
+   * Conclude an experiment: promote the winner to its default variant, retire
+   * every other variant and write the decision to experiment_decisions
+   */
+  concludeExperiment(
+    experimentId: string,
+    winnerId: string,
+    rule: ExperimentDecision['rule'] = 'manual',
+    evidence: unknown = {}
+  ): ExperimentDecision {
+    const experiment = this.getExperiment(experimentId);
+    if (experiment.status !== 'active' && experiment.status !== 'paused') {
+      throw new Error(`Experiment ${experiment.name} is ${experiment.status}`);
+    }
+    if (this.resolveExperiment([winnerId]) !== experimentId) {
+      throw new Error(`Variant ${winnerId} does not belong to experiment ${experiment.name}`);
     }
 
-    return newVariants;
+    // Variants already retired or archived keep their status
+    const retiring = this.getAllVariants(experimentId)
+      .filter(v => v.id !== winnerId && v.status !== 'retired' && v.status !== 'archived');
+    const retiredIds = retiring.map(v => v.id);
+    const now = Date.now();
+    let id = 0;
+    this.write(() => {
+      this.db.run(`
+        UPDATE experiments SET status = 'concluded', default_variant_id = ?, updated_at = ? WHERE id = ?
+      `, [winnerId, now, experimentId]);
+      for (const variant of retiring) {
+        this.changeVariantStatus(variant, 'retired', `concluded: ${rule}`, now);
+      }
+      const result = this.db.run(`
+        INSERT INTO experiment_decisions (experiment_id, winner_id, rule, evidence, retired_ids, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [experimentId, winnerId, rule, JSON.stringify(evidence), JSON.stringify(retiredIds), now]);
+      id = Number(result.lastInsertRowid);
+    });
+
+    return { id, experimentId, winnerId, rule, evidence, retiredIds, timestamp: now };
   }
 
-  private getTopVariants(n: number): PromptVariant[] {
+  getDecisions(experimentId: string = DEFAULT_EXPERIMENT_ID): ExperimentDecision[] {
     const rows = this.db.query(`
-      SELECT pv.*, vp.avg_reward 
-      FROM prompt_variants pv
-      JOIN variant_performance vp ON pv.id = vp.variant_id
-      WHERE vp.total_trials >= ?
-      ORDER BY vp.avg_reward DESC
-      LIMIT ?
-    `).all(this.minTrialsBeforeExploitation, n) as any[];
+      SELECT * FROM experiment_decisions WHERE experiment_id = ? ORDER BY id
+    `).all(experimentId) as any[];
 
     return rows.map(row => ({
       id: row.id,
-      template: row.template,
-      parentId: row.parent_id,
-      generation: row.generation,
-      createdAt: row.created_at
+      experimentId: row.experiment_id,
+      winnerId: row.winner_id,
+      rule: row.rule,
+      evidence: JSON.parse(row.evidence),
+      retiredIds: JSON.parse(row.retired_ids),
+      timestamp: row.timestamp
     }));
   }
 
-  private tournamentSelection(population: PromptVariant[], k: number): PromptVariant[] {
-    const selected: PromptVariant[] = [];
-    for (let i = 0; i < k; i++) {
-      const contestants = [];
-      for (let j = 0; j < 3; j++) {
-        contestants.push(population[Math.floor(Math.random() * population.length)]);
-      }
-      // Select best from contestants
-      const best = contestants.reduce((a, b) => {
-        const perfA = this.getPerformance(a.id);
-        const perfB = this.getPerformance(b.id);
-        return perfA.avgReward > perfB.avgReward ? a : b;
-      });
-      selected.push(best);
-    }
-    return selected;
-  }
+  /**
+   * Run the experiment's stopping rule and conclude it if the rule fires
+   */
+  private applyStoppingRule(experimentId: string): ExperimentDecision | null {
+    const { status, stoppingRule } = this.getExperiment(experimentId);
+    if (status !== 'active' || stoppingRule.type === 'none') return null;
+
+    const performances = this.getExperimentVariantIds(experimentId, 'active')
+      .map(id => this.getPerformance(id));
+    const arms = performances.map(perf => ({
+      variantId: perf.variantId,
+      n: perf.utilityN,
+      trials: perf.totalTrials,
+      sum: perf.utilitySum,
+      sumSq: perf.utilitySumSq
+    }));
+    const states = performances.map(perf => this.toPosteriorState(perf));
+    const decision = checkStoppingRule(stoppingRule, arms, i => samplePosterior(states[i], this.posteriorSampler));
+    if (!decision) return null;
 
-  private async crossoverPrompts(promptA: string, promptB: string): Promise<string> {
-    // Use LLM to intelligently combine two prompts
-    const crossoverPrompt = `
-Generate a new prompt that combines the best aspects of these two prompts:
+    return this.concludeExperiment(experimentId, decision.winnerId, decision.rule, decision.evidence);
+  }
 
-Prompt A: ${promptA}
+  getChangePoints(experimentId: string = DEFAULT_EXPERIMENT_ID): ChangePoint[] {
+    const rows = this.db.query(`
+      SELECT * FROM change_points WHERE experiment_id = ? ORDER BY id
+    `).all(experimentId) as any[];
 
-Prompt B: ${promptB}
+    return rows.map(row => ({
+      id: row.id,
+      experimentId: row.experiment_id,
+      variantId: row.variant_id,
+      statistic: row.statistic,
+      action: row.action,
+      feedbackId: row.feedback_id ?? null,
+      timestamp: row.timestamp
+    }));
+  }
 
-Create a hybrid prompt that:
-1. Takes the clearest instructions from both
-2. Maintains the most effective phrasing
-3. Preserves key constraints and requirements
-4. Results in a prompt that could outperform both parents
+  private assertPosteriorFamily(family: unknown): void {
+    if (!isPosteriorFamily(family)) {
+      throw new Error(`Unknown posterior family: ${family}`);
+    }
+  }
 
-Return ONLY the new hybrid prompt, no explanation.
-`;
+  /**
+   * Non-dominated active variants on quality, latency and token cost. Quality
+   * is the mean quality signal of each variant's posterior family (success, or
+   * reward), without the reward policy's latency and cost terms, which would
+   * count those axes twice.
+   */
+  getParetoFront(experimentId: string = DEFAULT_EXPERIMENT_ID): ParetoEntry[] {
+    const experiment = this.getExperiment(experimentId);
+    const rows = this.db.query(`
+      SELECT f.variant_id, f.success, f.reward, f.latency_ms, f.token_cost, pv.posterior_family
+      FROM feedback_records f
+      JOIN prompt_variants pv ON pv.id = f.variant_id AND pv.status = 'active'
+      WHERE f.experiment_id = ?
+      ORDER BY f.id
+    `).all(experimentId) as any[];
+
+    const totals = new Map<string, { n: number; quality: number; latencyMs: number; tokenCost: number }>();
+    for (const row of rows) {
+      const family = (row.posterior_family ?? experiment.posteriorFamily) as PosteriorFamily;
+      const total = totals.get(row.variant_id) ?? { n: 0, quality: 0, latencyMs: 0, tokenCost: 0 };
+      total.n++;
+      total.quality += observationQuality(family, { success: !!row.success, reward: row.reward });
+      total.latencyMs += row.latency_ms;
+      total.tokenCost += row.token_cost;
+      totals.set(row.variant_id, total);
+    }
 
-    // This would call OpenCode's LLM - placeholder for now
-    return `${promptA}\n\nAdditionally: ${promptB.split('\n')[0]}`;
+    return paretoFront([...totals].map(([variantId, total]) => ({
+      variantId,
+      quality: total.quality / total.n,
+      latencyMs: total.latencyMs / total.n,
+      tokenCost: total.tokenCost / total.n
+    })));
   }
 
-  private async mutatePrompt(prompt: string): Promise<string> {
-    const mutationPrompt = `
-Improve this prompt with a small random mutation:
-
-${prompt}
+  /**
+   * Recompute every variant's posterior from feedback_records under the
+   * experiment's current reward policy, drift policy and each variant's family
+   */
+  private rebuildPosteriors(experimentId: string): void {
+    for (const [variantId, evidence] of this.replayEvidence(experimentId)) {
+      this.writeEvidence(variantId, evidence);
+      this.db.run('DELETE FROM change_detectors WHERE variant_id = ?', [variantId]);
+    }
+  }
 
-Make ONE of these changes:
-1. Rephrase for clarity
-2. Add a helpful constraint
-3. Remove redundancy
-4. Adjust tone/style
-5. Add example format
+  /**
+   * Posterior evidence of every variant in an experiment, replayed from its
+   * feedback_records in the order they were recorded, with the recorded change
+   * points reapplied while change detection is on. Like the stored row, the
+   * result is cumulative under a sliding window; reads apply the window.
+   */
+  private replayEvidence(experimentId: string): Map<string, PosteriorEvidence> {
+    const { rewardPolicy, driftPolicy } = this.getExperiment(experimentId);
+    const families = new Map<string, PosteriorFamily>();
+    const totals = new Map<string, PosteriorEvidence>();
+    for (const id of this.getExperimentVariantIds(experimentId)) {
+      families.set(id, this.getPerformance(id).family);
+      totals.set(id, PRIOR_EVIDENCE);
+    }
 
-Return ONLY the mutated prompt, no explanation.
-`;
+    const detection = driftPolicy.changeDetection;
+    const changePoints = new Map(detection
+      ? (this.db.query(`
+          SELECT feedback_id, action FROM change_points WHERE experiment_id = ? AND feedback_id IS NOT NULL
+        `).all(experimentId) as any[]).map(row => [row.feedback_id as number, row.action as 'reset' | 'widen'])
+      : []);
+    const rows = this.db.query(`
+      SELECT id, variant_id, reward, success, latency_ms, token_cost FROM feedback_records
+      WHERE experiment_id = ?
+      ORDER BY id
+    `).all(experimentId) as any[];
+
+    for (const row of rows) {
+      const family = families.get(row.variant_id);
+      if (!family) continue;
+      if (driftPolicy.mode === 'discounted') {
+        for (const [id, evidence] of totals) totals.set(id, scaleEvidence(evidence, driftPolicy.gamma));
+      }
+      const utility = this.feedbackUtility(rewardPolicy, family, {
+        success: !!row.success,
+        reward: row.reward,
+        latencyMs: row.latency_ms,
+        tokenCost: row.token_cost
+      });
+      const change = changePoints.get(row.id);
+      const before = change === 'reset' ? PRIOR_EVIDENCE : totals.get(row.variant_id)!;
+      const evidence = addObservation(before, utility, isBounded(family));
+      totals.set(row.variant_id, change === 'widen' ? scaleEvidence(evidence, detection!.keepFraction) : evidence);
+    }
+    return totals;
+  }
 
-    // Placeholder - would use OpenCode LLM
-    const mutations = [
-      ' Be concise.',
-      ' Focus on performance.',
-      ' Consider edge cases.',
-      ' Use modern patterns.',
-      ' Optimize for readability.'
-    ];
-    return prompt + mutations[Math.floor(Math.random() * mutations.length)];
+  private feedbackUtility(
+    policy: RewardPolicy,
+    family: PosteriorFamily,
+    feedback: { success: boolean; reward: number; latencyMs: number; tokenCost: number }
+  ): number {
+    return computeUtility(policy, {
+      quality: observationQuality(family, feedback),
+      latencyMs: feedback.latencyMs,
+      tokenCost: feedback.tokenCost
+    }, isBounded(family));
   }
 
-  createVariant(template: string, parentId?: string, generation: number = 0): string {
-    const id = randomBytes(16).toString('hex');
-    this.db.run(`
-      INSERT INTO prompt_variants (id, template, parent_id, generation, created_at)
-      VALUES (?, ?, ?, ?, ?)
-    `, [id, template, parentId || null, generation, Date.now()]);
+  private readEvidence(variantId: string): PosteriorEvidence {
+    const row = this.db.query(`
+      SELECT alpha, beta, utility_n, utility_sum, utility_sum_sq FROM variant_performance WHERE variant_id = ?
+    `).get(variantId) as any;
+    if (!row) return PRIOR_EVIDENCE;
+    return { alpha: row.alpha, beta: row.beta, n: row.utility_n, sum: row.utility_sum, sumSq: row.utility_sum_sq };
+  }
 
-    // Initialize performance
+  private writeEvidence(variantId: string, evidence: PosteriorEvidence): void {
     this.db.run(`
-      INSERT INTO variant_performance (variant_id)
-      VALUES (?)
-    `, [id]);
-
-    return id;
+      UPDATE variant_performance
+      SET alpha = ?, beta = ?, utility_n = ?, utility_sum = ?, utility_sum_sq = ?
+      WHERE variant_id = ?
+    `, [evidence.alpha, evidence.beta, evidence.n, evidence.sum, evidence.sumSq, variantId]);
   }
 
-  // ==========================================================================
-  // Contextual Bandits (LinUCB)
+  /**
+   * Feed a utility to the variant's Page-Hinkley detector.
+   * Returns the action to apply when a change point is detected.
+   */
+  private detectChange(
+    experimentId: string,
+    variantId: string,
+    feedbackId: number,
+    utility: number,
+    driftPolicy: DriftPolicy
+  ): 'reset' | 'widen' | null {
+    const config = driftPolicy.changeDetection;
+    if (!config) return null;
+
+    const row = this.db.query('SELECT * FROM change_detectors WHERE variant_id = ?').get(variantId) as any;
+    const state = row
+      ? {
+          n: row.n,
+          mean: row.mean,
+          cumulative: row.cumulative,
+          minCumulative: row.min_cumulative,
+          cumulativeDown: row.cumulative_down,
+          maxCumulativeDown: row.max_cumulative_down
+        }
+      : INITIAL_PAGE_HINKLEY;
+    const { state: next, statistic } = updatePageHinkley(state, utility, config);
+
+    if (next.n >= config.minObservations && statistic > config.threshold) {
+      this.db.run('DELETE FROM change_detectors WHERE variant_id = ?', [variantId]);
+      this.db.run(`
+        INSERT INTO change_points (experiment_id, variant_id, feedback_id, statistic, action, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [experimentId, variantId, feedbackId, statistic, config.action, Date.now()]);
+      return config.action;
+    }
+
+    this.db.run(`
+      INSERT OR REPLACE INTO change_detectors
+      (variant_id, n, mean, cumulative, min_cumulative, cumulative_down, max_cumulative_down)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [variantId, next.n, next.mean, next.cumulative, next.minCumulative, next.cumulativeDown, next.maxCumulativeDown]);
+    return null;
+  }
+
+  /**
+   * Posterior evidence from feedback inside the sliding window, starting no
+   * earlier than the feedback that triggered the variant's last reset. The
+   * window ends at the experiment's newest feedback rather than the wall
+   * clock, so feedback recorded with the caller's own timestamps (e.g. the
+   * simulation's round numbers) is windowed on that same clock.
+   */
+  private windowEvidence(variantId: string, family: PosteriorFamily, policy: RewardPolicy, windowMs: number): PosteriorEvidence {
+    // Bounded by record rather than time: feedback carries the caller's timestamps
+    const lastChange = this.db.query(`
+      SELECT MAX(feedback_id) AS feedback_id FROM change_points WHERE variant_id = ? AND action = 'reset'
+    `).get(variantId) as any;
+
+    const newest = this.db.query(`
+      SELECT MAX(timestamp) AS ts FROM feedback_records
+      WHERE experiment_id = (SELECT experiment_id FROM prompt_variants WHERE id = ?)
+    `).get(variantId) as any;
+
+    const rows = this.db.query(`
+      SELECT reward, success, latency_ms, token_cost FROM feedback_records
+      WHERE variant_id = ? AND timestamp >= ? AND id >= ?
+    `).all(variantId, (newest?.ts ?? 0) - windowMs, lastChange?.feedback_id ?? 0) as any[];
+
+    return rows.reduce((evidence: PosteriorEvidence, row) => addObservation(evidence, this.feedbackUtility(policy, family, {
+      success: !!row.success,
+      reward: row.reward,
+      latencyMs: row.latency_ms,
+      tokenCost: row.token_cost
+    }), isBounded(family)), PRIOR_EVIDENCE);
+  }
+
+  /**
+   * IDs of every variant in an experiment's pool
+   */
+  getExperimentVariantIds(experimentId: string, status?: VariantStatus): string[] {
+    this.getExperiment(experimentId);
+    const rows = (status
+      ? this.db.query(`
+          SELECT id FROM prompt_variants WHERE experiment_id = ? AND status = ? ORDER BY created_at
+        `).all(experimentId, status)
+      : this.db.query(`
+          SELECT id FROM prompt_variants WHERE experiment_id = ? ORDER BY created_at
+        `).all(experimentId)) as any[];
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Resolve the single experiment shared by all given variants.
+   * Selection and evaluation never compare prompts across experiments.
+   */
+  private resolveExperiment(variantIds: string[]): string {
+    if (variantIds.length === 0) {
+      throw new Error('At least one variant is required');
+    }
+
+    const experimentIds = new Set<string>();
+    for (const id of variantIds) {
+      const row = this.db.query('SELECT experiment_id FROM prompt_variants WHERE id = ?').get(id) as any;
+      if (!row) {
+        throw new Error(`Unknown variant: ${id}`);
+      }
+      experimentIds.add(row.experiment_id);
+    }
+
+    if (experimentIds.size > 1) {
+      throw new Error(`Variants belong to different experiments: ${[...experimentIds].join(', ')}`);
+    }
+    return [...experimentIds][0];
+  }
+
+  /**
+   * Resolve the experiment for a selection and require it and every candidate to be active
+   */
+  private resolveActiveExperiment(variantIds: string[]): string {
+    const experimentId = this.resolveExperiment(variantIds);
+    const experiment = this.getExperiment(experimentId);
+    if (experiment.status !== 'active') {
+      throw new Error(`Experiment ${experiment.name} is ${experiment.status}`);
+    }
+    for (const id of variantIds) {
+      const { status } = this.db.query('SELECT status FROM prompt_variants WHERE id = ?').get(id) as any;
+      if (status !== 'active') {
+        throw new Error(`Variant ${id} is ${status}`);
+      }
+    }
+    return experimentId;
+  }
+
+  // ==========================================================================
+  // Assignments
+  // ==========================================================================
+
+  /**
+   * Select a variant with Thompson Sampling and record the assignment for a task.
+   * The logged propensity is a Monte Carlo estimate from a separate pass of
+   * PROPENSITY_DRAWS posterior draws, not the draw that picked the variant, so
+   * offline estimates built on it carry that sampling noise.
+   */
+  assignVariant(candidateIds: string[], context: string = '', taskId?: string): ExperimentAssignment {
+    // Offspring in staged rollout share a fixed slice of traffic until their
+    // budget is used up; the rest goes to Thompson Sampling over the others
+    const rollout = this.inRollout(candidateIds);
+    let variantId: string;
+    let propensity: number;
+    if (rollout.length > 0 && rollout.length < candidateIds.length) {
+      this.resolveActiveExperiment(candidateIds);
+      const established = candidateIds.filter(id => !rollout.includes(id));
+      const share = this.config.rolloutShare;
+      if (this.random() < share) {
+        variantId = rollout[Math.floor(this.random() * rollout.length)];
+        propensity = share / rollout.length;
+      } else {
+        variantId = this.thompsonSample(established);
+        propensity = (1 - share) * this.thompsonPropensities(established).get(variantId)!;
+      }
+    } else {
+      variantId = this.thompsonSample(candidateIds);
+      propensity = this.thompsonPropensities(candidateIds).get(variantId)!;
+    }
+    return this.recordAssignment(variantId, context, taskId, {
+      candidateIds,
+      propensity,
+      selectionPolicy: 'thompson'
+    });
+  }
+
+  /**
+   * Select a variant uniformly at random and record the assignment, logging
+   * every candidate at propensity 1/k
+   */
+  assignUniformVariant(candidateIds: string[], context: string = '', taskId?: string): ExperimentAssignment {
+    this.resolveActiveExperiment(candidateIds);
+    const variantId = candidateIds[Math.floor(this.random() * candidateIds.length)];
+    return this.recordAssignment(variantId, context, taskId, {
+      candidateIds,
+      propensity: 1 / candidateIds.length,
+      selectionPolicy: 'uniform'
+    });
+  }
+
+  /**
+   * Select a variant with LinUCB and record the assignment with its feature vector
+   */
+  assignContextualVariant(
+    candidateIds: string[],
+    contextFeatures: number[],
+    taskId?: string
+  ): ExperimentAssignment {
+    const variantId = this.contextualBanditSelect(candidateIds, contextFeatures);
+    // LinUCB is deterministic given its state
+    return this.recordAssignment(variantId, JSON.stringify(contextFeatures), taskId, {
+      candidateIds,
+      propensity: 1,
+      selectionPolicy: 'linucb'
+    });
+  }
+
+  getAssignment(taskId: string): ExperimentAssignment | null {
+    const row = this.db.query('SELECT * FROM experiment_assignments WHERE task_id = ?').get(taskId) as any;
+    if (!row) return null;
+
+    return {
+      taskId: row.task_id,
+      experimentId: row.experiment_id,
+      variantId: row.variant_id,
+      context: row.context ?? '',
+      candidateIds: row.candidate_ids ? JSON.parse(row.candidate_ids) : undefined,
+      propensity: row.propensity ?? undefined,
+      selectionPolicy: row.selection_policy ?? undefined,
+      timestamp: row.timestamp
+    };
+  }
+
+  /**
+   * Fill the assigned variant's template placeholders for a task
+   */
+  renderVariant(taskId: string, context: TemplateValues = {}): RenderedPrompt {
+    const assignment = this.getAssignment(taskId);
+    if (!assignment) {
+      throw new Error(`Unknown task ${taskId}: no assignment recorded`);
+    }
+
+    const row = this.db.query('SELECT template FROM prompt_variants WHERE id = ?').get(assignment.variantId) as any;
+    if (!row) {
+      throw new Error(`Unknown variant: ${assignment.variantId}`);
+    }
+    return {
+      taskId,
+      variantId: assignment.variantId,
+      variables: templateVariables(row.template),
+      prompt: renderTemplate(row.template, context)
+    };
+  }
+
+  private recordAssignment(
+    variantId: string,
+    context: string,
+    taskId: string | undefined,
+    logging: Pick<ExperimentAssignment, 'candidateIds' | 'propensity' | 'selectionPolicy'>
+  ): ExperimentAssignment {
+    const assignment: ExperimentAssignment = {
+      taskId: taskId ?? this.newId('experiment_assignments', 'task_id'),
+      experimentId: this.resolveExperiment([variantId]),
+      variantId,
+      context,
+      ...logging,
+      timestamp: Date.now()
+    };
+
+    this.write(() => {
+      if (this.getAssignment(assignment.taskId)) {
+        throw new Error(`Task ${assignment.taskId} already has an assignment`);
+      }
+
+      this.db.run(`
+        INSERT INTO experiment_assignments
+        (task_id, experiment_id, variant_id, context, candidate_ids, propensity, selection_policy, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [assignment.taskId, assignment.experimentId, variantId, context,
+          JSON.stringify(logging.candidateIds), logging.propensity ?? null, logging.selectionPolicy ?? null,
+          assignment.timestamp]);
+    });
+
+    return assignment;
+  }
+
+  private rowToExperiment(row: any): Experiment {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      status: row.status,
+      rewardPolicy: row.reward_policy ? JSON.parse(row.reward_policy) : DEFAULT_REWARD_POLICY,
+      posteriorFamily: row.posterior_family ?? DEFAULT_POSTERIOR_FAMILY,
+      driftPolicy: row.drift_policy ? JSON.parse(row.drift_policy) : DEFAULT_DRIFT_POLICY,
+      stoppingRule: row.stopping_rule ? JSON.parse(row.stopping_rule) : DEFAULT_STOPPING_RULE,
+      prunePolicy: row.prune_policy ? JSON.parse(row.prune_policy) : this.config.prunePolicy,
+      defaultVariantId: row.default_variant_id ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  // ==========================================================================
+  // Thompson Sampling
+  // ==========================================================================
+
+  /**
+   * Select variant using Thompson Sampling from each variant's posterior
+   */
+  thompsonSample(candidateIds: string[]): string {
+    this.resolveActiveExperiment(candidateIds);
+    const performances = candidateIds.map(id => this.getPerformance(id));
+    
+    // Sample expected utility from each variant's posterior (Beta or Normal-Inverse-Gamma)
+    const samples = performances.map(perf => {
+      return samplePosterior(this.toPosteriorState(perf), this.posteriorSampler);
+    });
+
+    // Select variant with highest sample
+    const maxIdx = samples.indexOf(Math.max(...samples));
+    return candidateIds[maxIdx];
+  }
+
+  /**
+   * Candidates that have not used up their staged rollout budget
+   */
+  private inRollout(candidateIds: string[]): string[] {
+    const query = this.db.query(`
+      SELECT 1 FROM prompt_variants pv
+      JOIN variant_performance vp ON pv.id = vp.variant_id
+      WHERE pv.id = ? AND pv.rollout_trials IS NOT NULL AND vp.total_trials < pv.rollout_trials
+    `);
+    return candidateIds.filter(id => query.get(id));
+  }
+
+  /**
+   * Probability that Thompson Sampling picks each candidate, estimated from
+   * posterior draws with add-one smoothing so no logged propensity is zero
+   */
+  private thompsonPropensities(candidateIds: string[]): Map<string, number> {
+    const states = candidateIds.map(id => this.toPosteriorState(this.getPerformance(id)));
+    const wins = new Array(candidateIds.length).fill(1);
+    for (let s = 0; s < PROPENSITY_DRAWS; s++) {
+      const samples = states.map(state => samplePosterior(state, this.posteriorSampler));
+      wins[samples.indexOf(Math.max(...samples))]++;
+    }
+    const total = PROPENSITY_DRAWS + candidateIds.length;
+    return new Map(candidateIds.map((id, i) => [id, wins[i] / total]));
+  }
+
+  /**
+   * Sample from Beta(alpha, beta) distribution using gamma distributions
+   */
+  private sampleBeta(alpha: number, beta: number): number {
+    const x = this.sampleGamma(alpha, 1);
+    const y = this.sampleGamma(beta, 1);
+    return x / (x + y);
+  }
+
+  /**
+   * Sample from Gamma distribution using Marsaglia & Tsang method
+   */
+  private sampleGamma(shape: number, scale: number): number {
+    if (shape < 1) {
+      return this.sampleGamma(shape + 1, scale) * Math.pow(this.random(), 1 / shape);
+    }
+
+    const d = shape - 1/3;
+    const c = 1 / Math.sqrt(9 * d);
+
+    while (true) {
+      let x: number, v: number;
+      do {
+        x = this.randomNormal();
+        v = 1 + c * x;
+      } while (v <= 0);
+
+      v = v * v * v;
+      const u = this.random();
+      const x2 = x * x;
+
+      if (u < 1 - 0.0331 * x2 * x2) {
+        return d * v * scale;
+      }
+      if (Math.log(u) < 0.5 * x2 + d * (1 - v + Math.log(v))) {
+        return d * v * scale;
+      }
+    }
+  }
+
+  /**
+   * Generate standard normal random variable (Box-Muller)
+   */
+  private randomNormal(): number {
+    // 1 − u keeps the logarithm finite; the stream can return exactly 0
+    const u1 = 1 - this.random();
+    const u2 = this.random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  /**
+   * Update variant performance with Bayesian update.
+   * Feedback is attributed to the variant recorded in the task's assignment.
+   */
+  recordFeedback(feedback: FeedbackRecord): void {
+    // One immediate transaction: concurrent sessions queue for the write lock, so
+    // two of them can neither both pass the duplicate check nor lose an update
+    this.write(() => {
+      const assignment = this.getAssignment(feedback.taskId);
+      if (!assignment) {
+        throw new Error(`Unknown task ${feedback.taskId}: no assignment recorded`);
+      }
+      if (feedback.variantId !== undefined && feedback.variantId !== assignment.variantId) {
+        throw new Error(
+          `Variant mismatch for task ${feedback.taskId}: assigned ${assignment.variantId}, got ${feedback.variantId}`
+        );
+      }
+      const existing = this.db.query('SELECT id FROM feedback_records WHERE task_id = ?').get(feedback.taskId);
+      if (existing) {
+        throw new Error(`Feedback already recorded for task ${feedback.taskId}`);
+      }
+
+      const { experimentId, variantId } = assignment;
+      const { rewardPolicy, driftPolicy } = this.getExperiment(experimentId);
+      const { family } = this.getPerformance(variantId);
+      const bounded = isBounded(family);
+      const utility = this.feedbackUtility(rewardPolicy, family, feedback);
+
+      // Raw feedback first, so a change point can link to the record that triggered it
+      const feedbackId = Number(this.db.run(`
+        INSERT INTO feedback_records
+        (task_id, experiment_id, variant_id, reward, latency_ms, token_cost, success, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [feedback.taskId, experimentId, variantId, feedback.reward, feedback.latencyMs,
+          feedback.tokenCost, feedback.success ? 1 : 0, feedback.timestamp]).lastInsertRowid);
+
+      // Discounted TS: every observation in the experiment decays all of its posteriors
+      if (driftPolicy.mode === 'discounted') {
+        for (const id of this.getExperimentVariantIds(experimentId)) {
+          this.writeEvidence(id, scaleEvidence(this.readEvidence(id), driftPolicy.gamma));
+        }
+      }
+
+      // Bayesian update on the policy's utility (0/1 under the default success policy)
+      const change = this.detectChange(experimentId, variantId, feedbackId, utility, driftPolicy);
+      if (change === 'reset') {
+        this.writeEvidence(variantId, addObservation(PRIOR_EVIDENCE, utility, bounded));
+      } else if (change === 'widen') {
+        const evidence = addObservation(this.readEvidence(variantId), utility, bounded);
+        this.writeEvidence(variantId, scaleEvidence(evidence, driftPolicy.changeDetection!.keepFraction));
+      } else {
+        const increment = addObservation({ alpha: 0, beta: 0, n: 0, sum: 0, sumSq: 0 }, utility, bounded);
+        this.db.run(`
+          UPDATE variant_performance
+          SET alpha = alpha + ?, beta = beta + ?, utility_n = utility_n + ?,
+              utility_sum = utility_sum + ?, utility_sum_sq = utility_sum_sq + ?
+          WHERE variant_id = ?
+        `, [increment.alpha, increment.beta, increment.n, increment.sum, increment.sumSq, variantId]);
+      }
+
+      // Running averages; every right-hand side sees the row before this update
+      this.db.run(`
+        UPDATE variant_performance
+        SET total_trials = total_trials + 1,
+            avg_reward = avg_reward + (? - avg_reward) / (total_trials + 1),
+            avg_latency_ms = avg_latency_ms + (? - avg_latency_ms) / (total_trials + 1),
+            avg_token_cost = avg_token_cost + (? - avg_token_cost) / (total_trials + 1)
+        WHERE variant_id = ?
+      `, [feedback.reward, feedback.latencyMs, feedback.tokenCost, variantId]);
+
+      // Always-valid sequential test: safe to check after every observation
+      this.applyStoppingRule(experimentId);
+    });
+  }
+
+  private getPerformance(variantId: string): VariantPerformance {
+    const row = this.db.query(`
+      SELECT vp.*, COALESCE(pv.posterior_family, e.posterior_family) AS family,
+             e.reward_policy, e.drift_policy
+      FROM variant_performance vp
+      LEFT JOIN prompt_variants pv ON pv.id = vp.variant_id
+      LEFT JOIN experiments e ON e.id = pv.experiment_id
+      WHERE vp.variant_id = ?
+    `).get(variantId) as any;
+
+    if (row) {
+      const family = (row.family ?? DEFAULT_POSTERIOR_FAMILY) as PosteriorFamily;
+      const driftPolicy: DriftPolicy = row.drift_policy ? JSON.parse(row.drift_policy) : DEFAULT_DRIFT_POLICY;
+      const evidence = driftPolicy.mode === 'sliding_window'
+        ? this.windowEvidence(
+            variantId,
+            family,
+            row.reward_policy ? JSON.parse(row.reward_policy) : DEFAULT_REWARD_POLICY,
+            driftPolicy.windowMs
+          )
+        : { alpha: row.alpha, beta: row.beta, n: row.utility_n, sum: row.utility_sum, sumSq: row.utility_sum_sq };
+
+      const perf = {
+        variantId: row.variant_id,
+        family,
+        alpha: evidence.alpha,
+        beta: evidence.beta,
+        utilityN: evidence.n,
+        utilitySum: evidence.sum,
+        utilitySumSq: evidence.sumSq,
+        totalTrials: row.total_trials,
+        avgReward: row.avg_reward,
+        avgLatencyMs: row.avg_latency_ms,
+        avgTokenCost: row.avg_token_cost
+      };
+      return { ...perf, posterior: summarizePosterior(this.toPosteriorState(perf)) };
+    }
+
+    // Initialize with uniform prior Beta(1, 1)
+    const perf = {
+      variantId,
+      family: DEFAULT_POSTERIOR_FAMILY,
+      alpha: 1.0,
+      beta: 1.0,
+      utilityN: 0,
+      utilitySum: 0,
+      utilitySumSq: 0,
+      totalTrials: 0,
+      avgReward: 0.0,
+      avgLatencyMs: 0.0,
+      avgTokenCost: 0.0
+    };
+    return { ...perf, posterior: summarizePosterior(this.toPosteriorState(perf)) };
+  }
+
+  private toPosteriorState(perf: Omit<VariantPerformance, 'posterior'>) {
+    return {
+      family: perf.family,
+      alpha: perf.alpha,
+      beta: perf.beta,
+      n: perf.utilityN,
+      sum: perf.utilitySum,
+      sumSq: perf.utilitySumSq
+    };
+  }
+
+  // ==========================================================================
+  // Statistical Evaluation
+  // ==========================================================================
+
+  /**
+   * Evaluate statistical significance between two variants
+   */
+  evaluateABTest(variantA: string, variantB: string): {
+    winner: string | null;
+    confidence: number;
+    probabilityAWins: number;
+    method: 'posterior Monte Carlo';
+  } {
+    this.resolveExperiment([variantA, variantB]);
+    const perfA = this.getPerformance(variantA);
+    const perfB = this.getPerformance(variantB);
+
+    // Monte Carlo simulation to estimate P(A > B)
+    const nSamples = 10000;
+    let countAWins = 0;
+
+    const stateA = this.toPosteriorState(perfA);
+    const stateB = this.toPosteriorState(perfB);
+    for (let i = 0; i < nSamples; i++) {
+      const sampleA = samplePosterior(stateA, this.posteriorSampler);
+      const sampleB = samplePosterior(stateB, this.posteriorSampler);
+      if (sampleA > sampleB) countAWins++;
+    }
+
+    const probAWins = countAWins / nSamples;
+    const confidence = Math.max(probAWins, 1 - probAWins);
+
+    return {
+      winner: confidence > 0.95 ? (probAWins > 0.5 ? variantA : variantB) : null,
+      confidence,
+      probabilityAWins: probAWins,
+      method: 'posterior Monte Carlo'
+    };
+  }
+
+  /**
+   * Compare any number of variants from one experiment. Success rates get a
+   * two-proportion z-test and Fisher's exact test, rewards a Welch t-test and
+   * bootstrap intervals, each against the baseline (first variant by default).
+   * Posterior draws give every variant's probability of being best and expected loss.
+   */
+  evaluateVariants(variantIds: string[], options: EvaluationOptions = {}): EvaluationReport {
+    if (variantIds.length < 2) {
+      throw new Error('At least two variants are required for an evaluation');
+    }
+    const experimentId = this.resolveExperiment(variantIds);
+    const baselineId = options.baselineId ?? variantIds[0];
+    if (!variantIds.includes(baselineId)) {
+      throw new Error(`Baseline ${baselineId} is not among the evaluated variants`);
+    }
+    const nDraws = options.draws ?? 10000;
+    const bootstrap = { resamples: options.resamples, level: options.level };
+
+    const samples = new Map(variantIds.map(id => {
+      const rows = this.db.query(`
+        SELECT success, reward FROM feedback_records WHERE variant_id = ?
+      `).all(id) as any[];
+      return [id, {
+        successes: rows.reduce((sum, row) => sum + (row.success ? 1 : 0), 0),
+        rewards: rows.map(row => row.reward as number)
+      }];
+    }));
+
+    const draws = variantIds.map(id => {
+      const state = this.toPosteriorState(this.getPerformance(id));
+      return Array.from({ length: nDraws }, () => samplePosterior(state, this.posteriorSampler));
+    });
+    const ranking = posteriorRanking(draws);
+
+    const variants = variantIds.map((variantId, i) => {
+      const { successes, rewards } = samples.get(variantId)!;
+      return {
+        variantId,
+        trials: rewards.length,
+        successRate: rewards.length > 0 ? successes / rewards.length : 0,
+        meanReward: mean(rewards),
+        bayesian: {
+          method: 'posterior Monte Carlo' as const,
+          draws: nDraws,
+          probabilityOfBest: ranking.probabilityOfBest[i],
+          expectedLoss: ranking.expectedLoss[i]
+        }
+      };
+    });
+
+    const baseline = samples.get(baselineId)!;
+    const baselineCounts = { successes: baseline.successes, trials: baseline.rewards.length };
+    const baselineRate = variants.find(v => v.variantId === baselineId)!.successRate;
+    const comparisons = variants
+      .filter(v => v.variantId !== baselineId)
+      .map(v => {
+        const { successes, rewards } = samples.get(v.variantId)!;
+        const counts = { successes, trials: rewards.length };
+        return {
+          variantId: v.variantId,
+          baselineId,
+          successRate: {
+            zTest: twoProportionZTest(baselineCounts, counts),
+            fisherExact: fisherExactTest(baselineCounts, counts),
+            effectSize: { method: "Cohen's h" as const, value: cohensH(baselineRate, v.successRate) }
+          },
+          reward: {
+            welchT: welchTTest(baseline.rewards, rewards),
+            effectSize: { method: "Cohen's d" as const, value: cohensD(baseline.rewards, rewards) },
+            difference: bootstrapInterval(baseline.rewards, rewards, meanDifference, this.random, bootstrap),
+            lift: bootstrapInterval(baseline.rewards, rewards, relativeLift, this.random, bootstrap)
+          }
+        };
+      });
+
+    return { experimentId, baselineId, variants, comparisons };
+  }
+
+  /**
+   * Size an experiment before launch: trials per arm to detect the minimum
+   * effect, time to completion at recent feedback throughput, and the regret
+   * Thompson Sampling would pay over the same number of trials
+   */
+  planExperiment(options: PlanOptions): ExperimentPlan {
+    const experimentId = options.experimentId ?? DEFAULT_EXPERIMENT_ID;
+    this.getExperiment(experimentId);
+    const alpha = options.alpha ?? 0.05;
+    const power = options.power ?? 0.8;
+    const arms = options.arms ?? 2;
+    const windowMs = options.throughputWindowMs ?? 7 * DAY_MS;
+    const simulationRuns = options.simulationRuns ?? 20;
+    const effect = options.minDetectableEffect;
+    if (!(alpha > 0 && alpha < 1) || !(power > 0 && power < 1)) {
+      throw new Error('alpha and power must be in (0, 1)');
+    }
+    if (!Number.isInteger(arms) || arms < 2) {
+      throw new Error('An experiment needs at least two arms');
+    }
+    if (!Number.isInteger(simulationRuns) || simulationRuns < 1) {
+      throw new Error('simulationRuns must be a positive integer');
+    }
+    if (typeof effect !== 'number' || !Number.isFinite(effect) || effect === 0) {
+      throw new Error('minDetectableEffect must be a non-zero number');
+    }
+
+    let baselineRate = options.baselineRate;
+    const baselineSource = baselineRate === undefined ? 'feedback_records' : 'provided';
+    if (baselineRate === undefined) {
+      // Raw success rate: posterior evidence follows the reward policy, family and drift policy
+      const row = this.db.query(`
+        SELECT SUM(success) AS successes, COUNT(*) AS trials FROM feedback_records WHERE experiment_id = ?
+      `).get(experimentId) as any;
+      if (!row?.trials) {
+        throw new Error(`Experiment ${experimentId} has no feedback yet; pass baselineRate`);
+      }
+      baselineRate = row.successes / row.trials;
+    }
+    const inUnit = (rate: number) => rate > 0 && rate < 1;
+    if (!inUnit(baselineRate)) {
+      throw new Error(`Cannot plan from a baseline rate of ${baselineRate}; it must lie in (0, 1)`);
+    }
+    const targetRate = options.relative ? baselineRate * (1 + effect) : baselineRate + effect;
+    if (!inUnit(targetRate)) {
+      throw new Error(
+        `minDetectableEffect ${effect} moves the rate from ${baselineRate} to ${targetRate}; rates must lie in (0, 1)`
+      );
+    }
+
+    const trialsPerArm = requiredTrialsPerArm({ baselineRate, targetRate, alpha, power, arms });
+    const totalTrials = trialsPerArm * arms;
+
+    const now = Date.now();
+    const recent = this.db.query(`
+      SELECT COUNT(*) AS count, MIN(timestamp) AS earliest FROM feedback_records
+      WHERE experiment_id = ? AND timestamp >= ?
+    `).get(experimentId, now - windowMs) as any;
+    // Young experiments: measure over their actual span (at least an hour), not the full window
+    const spanMs = recent.count > 0 ? Math.max(now - recent.earliest, 60 * 60 * 1000) : windowMs;
+    const tasksPerDay = (recent.count / Math.min(spanMs, windowMs)) * DAY_MS;
+
+    const rates = [targetRate, ...new Array(arms - 1).fill(baselineRate)];
+    const regret = simulateThompsonRegret(
+      rates,
+      Math.min(totalTrials, MAX_SIMULATION_HORIZON),
+      simulationRuns,
+      { beta: (a, b) => this.sampleBeta(a, b), uniform: this.random }
+    );
+
+    return {
+      experimentId,
+      baselineRate,
+      baselineSource,
+      targetRate,
+      alpha,
+      power,
+      arms,
+      method: 'two-proportion z-test, Bonferroni vs control',
+      trialsPerArm,
+      totalTrials,
+      throughput: { tasksPerDay, observedTasks: recent.count, windowMs },
+      estimatedDaysToCompletion: tasksPerDay > 0 ? totalTrials / tasksPerDay : null,
+      regret
+    };
+  }
+
+  /**
+   * Estimate how a candidate selection policy would have performed on the
+   * experiment's logged assignments (IPS, SNIPS and doubly robust), measured
+   * in the experiment's reward policy
+   */
+  evaluatePolicyOffline(
+    candidate: CandidatePolicy,
+    experimentId: string = DEFAULT_EXPERIMENT_ID,
+    level: number = 0.95
+  ): OfflineEvaluation {
+    const experiment = this.getExperiment(experimentId);
+    const policy = validateCandidatePolicy(candidate);
+    if (policy.type === 'fixed' && this.resolveExperiment([policy.variantId]) !== experimentId) {
+      throw new Error(`Variant ${policy.variantId} does not belong to experiment ${experiment.name}`);
+    }
+    const learningPolicy = (policy.type !== 'fixed' && policy.rewardPolicy) || experiment.rewardPolicy;
+
+    const rows = this.db.query(`
+      SELECT f.*, a.candidate_ids, a.propensity, a.selection_policy, a.context
+      FROM feedback_records f JOIN experiment_assignments a ON a.task_id = f.task_id
+      WHERE f.experiment_id = ?
+      ORDER BY f.timestamp, f.id
+    `).all(experimentId) as any[];
+    const logged = rows.filter(row => row.propensity !== null);
+
+    const families = new Map<string, PosteriorFamily>();
+    const familyOf = (id: string) => {
+      if (!families.has(id)) families.set(id, this.getPerformance(id).family);
+      return families.get(id)!;
+    };
+
+    const decisions = logged.map(row => {
+      const candidateIds: string[] = JSON.parse(row.candidate_ids);
+      const family = familyOf(row.variant_id);
+      const feedback = {
+        success: !!row.success,
+        reward: row.reward,
+        latencyMs: row.latency_ms,
+        tokenCost: row.token_cost
+      };
+      return {
+        variantId: row.variant_id,
+        candidateIds,
+        propensity: row.propensity,
+        features: row.selection_policy === 'linucb' ? JSON.parse(row.context) : null,
+        candidateFamilies: candidateIds.map(familyOf),
+        reward: this.feedbackUtility(experiment.rewardPolicy, family, feedback),
+        learningUtility: this.feedbackUtility(learningPolicy, family, feedback)
+      };
+    });
+
+    return {
+      experimentId,
+      policy,
+      metric: experiment.rewardPolicy,
+      unlogged: rows.length - logged.length,
+      ...evaluateOffline(policy, decisions, this.posteriorSampler, level)
+    };
+  }
+
+  // ==========================================================================
+  // Genetic Algorithm Evolution
+  // ==========================================================================
+
+  /**
+   * Evolve new prompt variants within one experiment with a generational
+   * genetic algorithm. Each generation keeps the eliteCount best individuals and
+   * fills the rest of populationSize with offspring of parents chosen by shared
+   * fitness. Offspring enter later generations with the mean fitness of their
+   * parents and start in staged rollout. Offspring that repeat an existing
+   * prompt or change the parents' template placeholders are dropped and redrawn.
+   *
+   * Each run draws its own seed from the plugin stream and records it, so a run
+   * can be replayed even when other calls consume randomness while it awaits
+   * the model. The run is recorded with the offspring it created even when an
+   * operator fails partway.
+   */
+  async evolvePrompts(
+    populationSize: number = 5,
+    nGenerations: number = 3,
+    experimentId: string = DEFAULT_EXPERIMENT_ID,
+    options: Partial<EvolutionConfig> = {}
+  ): Promise<string[]> {
+    const experiment = this.getExperiment(experimentId);
+    if (experiment.status !== 'active') {
+      throw new Error(`Experiment ${experiment.name} is ${experiment.status}`);
+    }
+    if (!Number.isInteger(populationSize) || populationSize < 1 || !Number.isInteger(nGenerations) || nGenerations < 1) {
+      throw new Error('Evolution needs a positive integer population size and number of generations');
+    }
+    const config = validateEvolutionConfig({ ...this.config.evolution, ...options });
+    this.requireEvolutionOperator();
+
+    let population = this.evolutionPopulation(populationSize, experimentId);
+    if (population.length === 0) {
+      throw new Error(`Experiment ${experiment.name} has no variants to evolve`);
+    }
+    const seen = new Set(this.getAllVariants(experimentId).map(v => v.template));
+    const newVariants: string[] = [];
+    const seed = deriveSeed(this.random);
+    const random = seededRandom(seed);
+    let mutationRate = options.mutationRate ?? (config.adaptiveMutation ? this.lastMutationRate(experimentId) : null) ?? config.mutationRate;
+
+    try {
+      for (let gen = 0; gen < nGenerations; gen++) {
+        const templates = population.map(i => i.variant.template);
+        if (config.adaptiveMutation) {
+          mutationRate = adaptMutationRate(mutationRate, populationDiversity(templates), config);
+        }
+        const fitness = sharedFitness(population.map(i => i.fitness), templates, config.sharingRadius);
+
+        // Elitism: the best individuals carry over unchanged
+        const next = [...population]
+          .sort((a, b) => b.fitness - a.fitness)
+          .slice(0, Math.min(config.eliteCount, populationSize));
+
+        for (let attempt = 0; next.length < populationSize && attempt < populationSize * 3; attempt++) {
+          const parents = this.selectParents(population, fitness, config, random);
+          const [first, second] = parents.map(p => p.variant.template);
+
+          let offspring = second === undefined ? first : await this.crossoverPrompts(first, second, random);
+          let mutated = false;
+          // A copy of an existing prompt carries no new information, so it is always mutated
+          if (random() < mutationRate || seen.has(offspring)) {
+            offspring = await this.mutatePrompt(offspring, random);
+            mutated = true;
+          }
+          if (seen.has(offspring)) continue;
+
+          // Custom operators are not trusted to keep the parents' placeholders;
+          // offspring that change them are dropped and redrawn like duplicates
+          if (checkOffspringTemplate(parents.map(p => p.variant.template), offspring)) continue;
+
+          const generation = Math.max(...parents.map(p => p.variant.generation)) + 1;
+          const operation: LineageOperation =
+            second === undefined ? 'mutation' : mutated ? 'crossover+mutation' : 'crossover';
+          // The variant and its lineage appear together or not at all
+          const variant = this.write(() => {
+            const variantId = this.createVariant(offspring, parents[0].variant.id, generation, experimentId);
+            return this.recordOffspring(variantId, parents.map(p => p.variant), config.rolloutTrials, {
+              operation,
+              inputs: { seed, generation: gen, mutationRate, parentFitness: parents.map(p => p.fitness) }
+            });
+          });
+          seen.add(offspring);
+          newVariants.push(variant.id);
+          next.push({ variant, fitness: mean(parents.map(p => p.fitness)) });
+        }
+        population = next;
+      }
+    } finally {
+      this.db.run(`
+        INSERT INTO evolution_runs
+          (experiment_id, population_size, generations, offspring_ids, seed, mutation_rate, config, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        experimentId, populationSize, nGenerations, JSON.stringify(newVariants), seed,
+        mutationRate, JSON.stringify(config), Date.now()
+      ]);
+    }
+
+    return newVariants;
+  }
+
+  getEvolutionRuns(experimentId: string): EvolutionRun[] {
+    const rows = this.db.query(`
+      SELECT * FROM evolution_runs WHERE experiment_id = ? ORDER BY id
+    `).all(experimentId) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      experimentId: row.experiment_id,
+      populationSize: row.population_size,
+      generations: row.generations,
+      offspringIds: JSON.parse(row.offspring_ids),
+      seed: row.seed ?? null,
+      mutationRate: row.mutation_rate ?? null,
+      config: row.config ? JSON.parse(row.config) : null,
+      timestamp: row.timestamp
+    }));
+  }
+
+  /**
+   * Starting population: the fittest evaluated variants (enough trials, out of
+   * staged rollout). Until two are evaluated, every active variant takes part.
+   */
+  private evolutionPopulation(size: number, experimentId: string): Individual[] {
+    const rows = this.db.query(`
+      SELECT pv.*, vp.total_trials
+      FROM prompt_variants pv
+      JOIN variant_performance vp ON pv.id = vp.variant_id
+      WHERE pv.experiment_id = ? AND pv.status = 'active'
+    `).all(experimentId) as any[];
+
+    const evaluated = rows.filter(row =>
+      row.total_trials >= this.config.minTrialsBeforeExploitation &&
+      (row.rollout_trials === null || row.total_trials >= row.rollout_trials)
+    );
+    // Rank by posterior mean utility, which depends on each variant's family
+    return (evaluated.length >= 2 ? evaluated : rows)
+      .map(row => ({ variant: this.rowToVariant(row), fitness: this.getPerformance(row.id).posterior.mean }))
+      .sort((a, b) => b.fitness - a.fitness)
+      .slice(0, size);
+  }
+
+  /**
+   * Two distinct parents, the second chosen from the rest of the population;
+   * a population of one gives a single parent, which is only mutated
+   */
+  private selectParents(
+    population: Individual[],
+    fitness: number[],
+    config: EvolutionConfig,
+    random: RandomSource
+  ): Individual[] {
+    const first = selectIndex(fitness, config.selection, random, config.tournamentSize);
+    if (population.length < 2) return [population[first]];
+
+    const rest = population.filter((_, i) => i !== first);
+    const second = selectIndex(fitness.filter((_, i) => i !== first), config.selection, random, config.tournamentSize);
+    return [population[first], rest[second]];
+  }
+
+  private lastMutationRate(experimentId: string): number | null {
+    const row = this.db.query(`
+      SELECT mutation_rate FROM evolution_runs
+      WHERE experiment_id = ? AND mutation_rate IS NOT NULL
+      ORDER BY id DESC LIMIT 1
+    `).get(experimentId) as any;
+    return row ? row.mutation_rate : null;
+  }
+
+  private async crossoverPrompts(promptA: string, promptB: string, random: RandomSource): Promise<string> {
+    return this.requireEvolutionOperator().crossover(promptA, promptB, random);
+  }
+
+  /**
+   * Link an offspring to every parent with the operation that produced it,
+   * record which parent each of its sections came from and give it a staged
+   * rollout budget
+   */
+  private recordOffspring(
+    variantId: string,
+    parents: PromptVariant[],
+    rolloutTrials: number,
+    lineage: { operation: LineageOperation; inputs: Record<string, unknown> }
+  ): PromptVariant {
+    const operator = this.requireEvolutionOperator().name;
+    const now = Date.now();
+    parents.forEach((parent, index) => {
+      this.db.run(`
+        INSERT INTO variant_lineage (child_id, parent_id, parent_index, operation, operator, inputs, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [variantId, parent.id, index, lineage.operation, operator, JSON.stringify(lineage.inputs), now]);
+    });
+
+    const row = this.db.query('SELECT * FROM prompt_variants WHERE id = ?').get(variantId) as any;
+    const inheritance: VariantInheritance[] = traceInheritance(
+      parents.map(p => parseGenome(p.template)),
+      parseGenome(row.template)
+    ).map(({ section, parent, modified }) => ({
+      section,
+      parentId: parent === null ? null : parents[parent].id,
+      modified
+    }));
+    this.db.run(`
+      UPDATE prompt_variants SET inheritance = ?, rollout_trials = ? WHERE id = ?
+    `, [JSON.stringify(inheritance), rolloutTrials > 0 ? rolloutTrials : null, variantId]);
+
+    return this.rowToVariant({ ...row, inheritance: JSON.stringify(inheritance), rollout_trials: rolloutTrials || null });
+  }
+
+  private async mutatePrompt(prompt: string, random: RandomSource): Promise<string> {
+    return this.requireEvolutionOperator().mutate(prompt, random);
+  }
+
+  /**
+   * Random hex identifier from the plugin stream. Redrawn on collision, since a
+   * seeded plugin reopening an existing database replays the same identifiers.
+   */
+  private newId(table: string, column: string): string {
+    while (true) {
+      const id = randomHex(this.random);
+      if (!this.db.query(`SELECT 1 FROM ${table} WHERE ${column} = ?`).get(id)) return id;
+    }
+  }
+
+  private requireEvolutionOperator(): EvolutionOperator {
+    if (!this.evolutionOperator) {
+      throw new Error('Prompt evolution requires an LLM provider; pass llmProvider or enable offlineEvolution');
+    }
+    return this.evolutionOperator;
+  }
+
+  /**
+   * Add a variant to an experiment. Drafts are stored but not served or evolved
+   * until they are activated.
+   */
+  createVariant(
+    template: string,
+    parentId?: string,
+    generation: number = 0,
+    experimentId: string = DEFAULT_EXPERIMENT_ID,
+    status: 'draft' | 'active' = 'active'
+  ): string {
+    const experiment = this.getExperiment(experimentId);
+    if (experiment.status === 'archived' || experiment.status === 'concluded') {
+      throw new Error(`Experiment ${experiment.name} is ${experiment.status}`);
+    }
+    if (status !== 'draft' && status !== 'active') {
+      throw new Error(`New variants must be draft or active, not ${status}`);
+    }
+    templateVariables(template); // Rejects malformed placeholders
+
+    return this.write(() => {
+      const id = this.newId('prompt_variants', 'id');
+      this.db.run(`
+        INSERT INTO prompt_variants (id, experiment_id, template, parent_id, generation, status, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [id, experimentId, template, parentId || null, generation, status, Date.now()]);
+
+      // Initialize performance
+      this.db.run(`
+        INSERT INTO variant_performance (variant_id)
+        VALUES (?)
+      `, [id]);
+
+      return id;
+    });
+  }
+
+  // ==========================================================================
+  // Contextual Bandits (LinUCB)
   // ==========================================================================
 
   /**
-   * Select variant using contextual bandit (LinUCB) with context features
+   * Select variant using disjoint LinUCB: θᵀx + α·sqrt(xᵀA⁻¹x) per variant
    */
   contextualBanditSelect(candidateIds: string[], contextFeatures: number[]): string {
+    this.resolveActiveExperiment(candidateIds);
     const scores = candidateIds.map(id => {
-      const features = this.getContextualFeatures(id, contextFeatures);
-      return this.linUCBScore(features, this.explorationRate);
+      const state = this.getLinUCBState(id, contextFeatures.length);
+      return linUCBScore(state, contextFeatures, this.explorationRate);
     });
 
     const maxIdx = scores.indexOf(Math.max(...scores));
     return candidateIds[maxIdx];
   }
 
-  private getContextualFeatures(variantId: string, context: number[]): number[] {
-    // Retrieve historical features for this variant + context
-    // For now, return context as-is
-    return context;
+  /**
+   * Update a variant's LinUCB model with an observed reward for a context
+   */
+  recordContextualReward(variantId: string, contextFeatures: number[], reward: number): void {
+    const record: ContextualFeatures = {
+      variantId,
+      contextHash: this.hashContext(contextFeatures),
+      features: contextFeatures,
+      reward,
+      timestamp: Date.now()
+    };
+
+    this.write(() => {
+      const state = this.getLinUCBState(variantId, contextFeatures.length);
+      const updated = updateLinUCBState(state, record.features, record.reward);
+
+      this.db.run(`
+        INSERT OR REPLACE INTO linucb_state (variant_id, dimension, a_matrix, b_vector, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `, [variantId, updated.dimension, JSON.stringify(updated.A), JSON.stringify(updated.b), record.timestamp]);
+
+      this.db.run(`
+        INSERT INTO contextual_features (variant_id, context_hash, features, reward, timestamp)
+        VALUES (?, ?, ?, ?, ?)
+      `, [variantId, record.contextHash, new Uint8Array(new Float64Array(record.features).buffer),
+          record.reward, record.timestamp]);
+    });
+  }
+
+  private getLinUCBState(variantId: string, dimension: number): LinUCBState {
+    const row = this.db.query(`
+      SELECT * FROM linucb_state WHERE variant_id = ?
+    `).get(variantId) as any;
+
+    if (!row) {
+      return initLinUCBState(dimension);
+    }
+
+    if (row.dimension !== dimension) {
+      throw new Error(
+        `Context dimension mismatch for variant ${variantId}: expected ${row.dimension} features, got ${dimension}`
+      );
+    }
+
+    return {
+      dimension: row.dimension,
+      A: JSON.parse(row.a_matrix),
+      b: JSON.parse(row.b_vector)
+    };
+  }
+
+  private hashContext(features: number[]): string {
+    return createHash('sha256').update(JSON.stringify(features)).digest('hex').slice(0, 16);
+  }
+
+  // ==========================================================================
+  // RLHF-Style Preference Learning
+  // ==========================================================================
+
+  /**
+   * Record a pairwise preference and refit the experiment's Bradley-Terry model.
+   * Preferences never touch the Beta success posteriors.
+   */
+  recordPreference(winnerId: string, loserId: string, context: string, humanFeedback: boolean = false): void {
+    if (winnerId === loserId) {
+      throw new Error('A variant cannot be compared with itself');
+    }
+    const experimentId = this.resolveExperiment([winnerId, loserId]);
+
+    this.write(() => {
+      this.db.run(`
+        INSERT INTO preference_comparisons (winner_id, loser_id, context, human_feedback, timestamp)
+        VALUES (?, ?, ?, ?, ?)
+      `, [winnerId, loserId, context, humanFeedback ? 1 : 0, Date.now()]);
+
+      this.refitPreferenceModel(experimentId);
+    });
+  }
+
+  /**
+   * Bradley-Terry ranking of an experiment's variants, strongest first
+   */
+  getPreferenceRanking(experimentId: string = DEFAULT_EXPERIMENT_ID): PreferenceScore[] {
+    const variantIds = this.getExperimentVariantIds(experimentId);
+    const rows = this.db.query(`
+      SELECT ps.* FROM preference_strengths ps
+      JOIN prompt_variants pv ON pv.id = ps.variant_id
+      WHERE pv.experiment_id = ?
+    `).all(experimentId) as any[];
+    const stored = new Map(rows.map(row => [row.variant_id, row]));
+
+    // Variants added since the last fit have no comparisons yet
+    const unfitted = fitBradleyTerry(variantIds.filter(id => !stored.has(id)), []);
+    const fitted: PreferenceScore[] = rows.map(row => ({
+      variantId: row.variant_id,
+      score: row.score,
+      stdError: row.std_error,
+      wins: row.wins,
+      losses: row.losses,
+      comparisons: row.comparisons
+    }));
+
+    return [...fitted, ...unfitted].sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Propose the most informative pair for a human comparison (Double Thompson Sampling)
+   */
+  selectPair(experimentId: string = DEFAULT_EXPERIMENT_ID, context: string = ''): PairProposal {
+    const experiment = this.getExperiment(experimentId);
+    if (experiment.status !== 'active') {
+      throw new Error(`Experiment ${experiment.name} is ${experiment.status}`);
+    }
+
+    const variants = this.getAllVariants(experimentId).filter(v => v.status === 'active');
+    const index = new Map(variants.map((v, i) => [v.id, i]));
+    const wins = variants.map(() => new Array(variants.length).fill(0));
+    for (const c of this.getWeightedComparisons(experimentId)) {
+      const w = index.get(c.winnerId);
+      const l = index.get(c.loserId);
+      if (w !== undefined && l !== undefined) wins[w][l] += c.weight;
+    }
+
+    const [first, second] = selectDuelingPair(wins, {
+      beta: (a, b) => this.sampleBeta(a, b),
+      uniform: this.random
+    });
+
+    const proposal: PairProposal = {
+      token: this.newId('comparison_requests', 'token'),
+      experimentId,
+      variantA: variants[first],
+      variantB: variants[second],
+      context,
+      createdAt: Date.now()
+    };
+
+    this.db.run(`
+      INSERT INTO comparison_requests (token, experiment_id, variant_a, variant_b, context, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [proposal.token, experimentId, proposal.variantA.id, proposal.variantB.id, context, proposal.createdAt]);
+
+    return proposal;
+  }
+
+  /**
+   * Close a comparison token proposed by selectPair with the preferred variant
+   */
+  submitPreference(
+    token: string,
+    winnerId: string,
+    humanFeedback: boolean = true
+  ): { winnerId: string; loserId: string } {
+    return this.write(() => {
+      const request = this.db.query('SELECT * FROM comparison_requests WHERE token = ?').get(token) as any;
+      if (!request) {
+        throw new Error(`Unknown comparison token: ${token}`);
+      }
+      if (request.resolved_at !== null) {
+        throw new Error(`Comparison ${token} was already submitted`);
+      }
+      if (winnerId !== request.variant_a && winnerId !== request.variant_b) {
+        throw new Error(`Variant ${winnerId} is not part of comparison ${token}`);
+      }
+
+      const loserId = winnerId === request.variant_a ? request.variant_b : request.variant_a;
+      this.recordPreference(winnerId, loserId, request.context ?? '', humanFeedback);
+      this.db.run(`
+        UPDATE comparison_requests SET resolved_at = ?, winner_id = ? WHERE token = ?
+      `, [Date.now(), winnerId, token]);
+      return { winnerId, loserId };
+    });
+  }
+
+  private getWeightedComparisons(experimentId: string): WeightedComparison[] {
+    return (this.db.query(`
+      SELECT pc.winner_id, pc.loser_id, pc.human_feedback
+      FROM preference_comparisons pc
+      JOIN prompt_variants pv ON pv.id = pc.winner_id
+      WHERE pv.experiment_id = ?
+    `).all(experimentId) as any[]).map(row => ({
+      winnerId: row.winner_id,
+      loserId: row.loser_id,
+      weight: row.human_feedback ? this.config.humanPreferenceWeight : 1.0
+    }));
+  }
+
+  private refitPreferenceModel(experimentId: string): void {
+    const comparisons = this.getWeightedComparisons(experimentId);
+    const scores = fitBradleyTerry(this.getExperimentVariantIds(experimentId), comparisons);
+    const now = Date.now();
+    for (const s of scores) {
+      this.db.run(`
+        INSERT OR REPLACE INTO preference_strengths
+        (variant_id, score, std_error, wins, losses, comparisons, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [s.variantId, s.score, s.stdError, s.wins, s.losses, s.comparisons, now]);
+    }
+  }
+
+  // ==========================================================================
+  // Continuous Learning
+  // ==========================================================================
+
+  /**
+   * Run the learning cycle every intervalMs in the background. Runs never
+   * overlap; a scheduled run only prunes, evolves and decays once
+   * minNewFeedback records arrived since the last completed run, and is
+   * logged as skipped otherwise. Restarts a started scheduler.
+   */
+  startLearning(intervalMs: number = this.config.learningIntervalMs): LearningStatus {
+    this.scheduler.start(intervalMs);
+    return this.getLearningStatus();
+  }
+
+  /**
+   * Stop scheduling learning runs. Resolves once the run in flight finished.
+   */
+  async stopLearning(): Promise<LearningStatus> {
+    await this.scheduler.stop();
+    return this.getLearningStatus();
+  }
+
+  /**
+   * Run the learning cycle now regardless of new feedback, or join the run in
+   * flight. A started scheduler counts its next interval from the end of it.
+   */
+  runLearningNow(): Promise<LearningRun> {
+    return this.scheduler.run('manual');
+  }
+
+  getLearningStatus(): LearningStatus {
+    const lastRun = this.db.query(`
+      SELECT * FROM learning_runs WHERE status != 'skipped' ORDER BY id DESC LIMIT 1
+    `).get() as any;
+    return {
+      ...this.scheduler.status(),
+      pendingFeedback: this.pendingFeedback().count,
+      minNewFeedback: this.config.minNewFeedback,
+      lastRun: lastRun ? this.rowToLearningRun(lastRun) : null
+    };
+  }
+
+  /**
+   * Logged learning runs, newest first
+   */
+  getLearningRuns(limit: number = 20): LearningRun[] {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('limit must be a positive integer');
+    }
+    const rows = this.db.query(`
+      SELECT * FROM learning_runs ORDER BY id DESC LIMIT ?
+    `).all(limit) as any[];
+    return rows.map(row => this.rowToLearningRun(row));
+  }
+
+  /**
+   * One learning run: retire low performers, evolve active experiments and
+   * decay the exploration rate. A failing step ends the run as failed with the
+   * steps done so far; the feedback it saw counts as new again for the next run.
+   * A run the plugin was closed under is logged as failed by close() and
+   * rejects without touching the closed database.
+   */
+  private async learningCycle(trigger: RunTrigger): Promise<LearningRun> {
+    const { count, cursor } = this.pendingFeedback();
+    const explorationBefore = this.explorationRate;
+    const now = Date.now();
+
+    if (trigger === 'interval' && count < this.config.minNewFeedback) {
+      const { lastInsertRowid } = this.db.run(`
+        INSERT INTO learning_runs
+          (triggered_by, status, new_feedback, feedback_cursor, exploration_before, exploration_after, started_at, finished_at)
+        VALUES (?, 'skipped', ?, ?, ?, ?, ?, ?)
+      `, [trigger, count, cursor, explorationBefore, explorationBefore, now, now]);
+      return this.getLearningRun(Number(lastInsertRowid));
+    }
+
+    const id = Number(this.db.run(`
+      INSERT INTO learning_runs
+        (triggered_by, status, new_feedback, feedback_cursor, exploration_before, exploration_after, started_at)
+      VALUES (?, 'running', ?, ?, ?, ?, ?)
+    `, [trigger, count, cursor, explorationBefore, explorationBefore, now]).lastInsertRowid);
+
+    const pruned: Record<string, string[]> = {};
+    const evolved: Record<string, string[]> = {};
+    this.activeRun = { id, pruned, evolved };
+    let error: string | null = null;
+    try {
+      // 1. Retire low performers; concluded and archived experiments are frozen
+      for (const experiment of this.listExperiments()) {
+        if (experiment.status === 'active' || experiment.status === 'paused') {
+          const retired = this.pruneVariants(experiment.id).map(change => change.variantId);
+          if (retired.length > 0) pruned[experiment.id] = retired;
+        }
+      }
+
+      // 2. Evolve new variants in every active experiment
+      if (this.evolutionOperator) {
+        for (const experiment of this.listExperiments('active')) {
+          if (this.getAllVariants(experiment.id).some(v => v.status === 'active')) {
+            evolved[experiment.id] = await this.evolvePrompts(
+              this.config.evolutionPopulationSize, this.config.evolutionGenerations, experiment.id
+            );
+          }
+        }
+      }
+
+      // 3. Decay exploration rate
+      this.explorationRate = Math.max(
+        this.config.minExplorationRate,
+        this.explorationRate * this.config.explorationDecay
+      );
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    } finally {
+      this.activeRun = null;
+    }
+
+    if (this.closed) {
+      throw new Error(`Learning run ${id} was interrupted: the plugin was closed`);
+    }
+    this.finishLearningRun(id, error === null ? 'completed' : 'failed', pruned, evolved, error);
+    return this.getLearningRun(id);
+  }
+
+  private finishLearningRun(
+    id: number,
+    status: LearningRunStatus,
+    pruned: Record<string, string[]>,
+    evolved: Record<string, string[]>,
+    error: string | null
+  ): void {
+    this.db.run(`
+      UPDATE learning_runs
+      SET status = ?, pruned = ?, evolved = ?, exploration_after = ?, error = ?, finished_at = ?
+      WHERE id = ?
+    `, [status, JSON.stringify(pruned), JSON.stringify(evolved), this.explorationRate, error, Date.now(), id]);
+  }
+
+  /**
+   * Feedback recorded since the last completed learning run, and the latest
+   * feedback record ID
+   */
+  private pendingFeedback(): { count: number; cursor: number } {
+    return this.db.query(`
+      WITH last AS (
+        SELECT COALESCE(MAX(feedback_cursor), 0) AS cursor FROM learning_runs WHERE status = 'completed'
+      )
+      SELECT COUNT(fr.id) AS count, COALESCE(MAX(fr.id), last.cursor) AS cursor
+      FROM last LEFT JOIN feedback_records fr ON fr.id > last.cursor
+    `).get() as { count: number; cursor: number };
+  }
+
+  private getLearningRun(id: number): LearningRun {
+    return this.rowToLearningRun(this.db.query('SELECT * FROM learning_runs WHERE id = ?').get(id));
+  }
+
+  private rowToLearningRun(row: any): LearningRun {
+    return {
+      id: row.id,
+      trigger: row.triggered_by,
+      status: row.status,
+      newFeedback: row.new_feedback,
+      feedbackCursor: row.feedback_cursor,
+      pruned: JSON.parse(row.pruned),
+      evolved: JSON.parse(row.evolved),
+      explorationBefore: row.exploration_before,
+      explorationAfter: row.exploration_after,
+      error: row.error ?? null,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at ?? null
+    };
+  }
+
+  // ==========================================================================
+  // Configuration
+  // ==========================================================================
+
+  /**
+   * The effective config, with the current (decayed) LinUCB α
+   */
+  getConfig(): PluginConfig & { currentExplorationRate: number } {
+    return { ...this.config, currentExplorationRate: this.explorationRate };
+  }
+
+  /**
+   * Change config at runtime. Changes are validated together and apply to the
+   * next operation that reads them; setting explorationRate also resets the
+   * decayed α, and a new learningIntervalMs restarts a started scheduler. dbPath
+   * is fixed once the database is open.
+   */
+  setConfig(changes: PluginConfigInput): PluginConfig {
+    const config = validateConfig(changes, this.config);
+    if (config.dbPath !== this.config.dbPath) {
+      throw new Error('dbPath cannot change while the plugin is running');
+    }
+    this.assertTemperatureApplies(config.temperature);
+
+    const previous = this.config;
+    this.config = config;
+    if (config.busyTimeoutMs !== previous.busyTimeoutMs) {
+      this.db.exec(`PRAGMA busy_timeout = ${config.busyTimeoutMs}`);
+    }
+    if (this.evolutionOperator instanceof LLMEvolutionOperator) {
+      this.evolutionOperator.temperature = config.temperature;
+    }
+    if (changes.explorationRate !== undefined) {
+      this.explorationRate = config.explorationRate;
+    } else {
+      this.explorationRate = Math.max(config.minExplorationRate, this.explorationRate);
+    }
+    if (this.scheduler.status().started && config.learningIntervalMs !== previous.learningIntervalMs) {
+      if (config.learningIntervalMs > 0) {
+        this.startLearning(config.learningIntervalMs);
+      } else {
+        void this.scheduler.stop();
+      }
+    }
+    return this.getConfig();
+  }
+
+  // ==========================================================================
+  // Variant Lifecycle
+  // ==========================================================================
+
+  /**
+   * Retire the active variants that fail the experiment's prune policy. Retired
+   * variants keep their feedback, preferences and lineage and can be restored.
+   * With dryRun the verdicts are returned without retiring anything.
+   */
+  pruneVariants(
+    experimentId: string = DEFAULT_EXPERIMENT_ID,
+    dryRun: boolean = false
+  ): VariantStatusChange[] {
+    const experiment = this.getExperiment(experimentId);
+    if (experiment.status !== 'active' && experiment.status !== 'paused') {
+      throw new Error(`Experiment ${experiment.name} is ${experiment.status}`);
+    }
+
+    const policy = experiment.prunePolicy;
+    const variants = this.getAllVariants(experimentId).filter(v => v.status === 'active');
+    const performances = variants.map(v => this.getPerformance(v.id));
+    // Sample only when the P(best) criterion is in use
+    const probabilityOfBest = policy.enabled && policy.minProbabilityBest !== null
+      ? posteriorRanking(performances.map(perf => {
+          const state = this.toPosteriorState(perf);
+          return Array.from({ length: policy.draws }, () => samplePosterior(state, this.posteriorSampler));
+        })).probabilityOfBest
+      : variants.map(() => 1 / variants.length);
+    const verdicts = selectPruned(variants.map((v, i) => ({
+      variantId: v.id,
+      trials: performances[i].totalTrials,
+      mean: performances[i].posterior.mean,
+      probabilityOfBest: probabilityOfBest[i],
+      inRollout: v.rolloutTrials !== undefined && performances[i].totalTrials < v.rolloutTrials
+    })), policy);
+
+    const now = Date.now();
+    const changes: VariantStatusChange[] = [];
+    this.write(() => {
+      for (const { variantId, reason } of verdicts) {
+        const variant = variants.find(v => v.id === variantId)!;
+        changes.push(dryRun
+          ? { id: 0, experimentId, variantId, from: variant.status, to: 'retired', reason, timestamp: now }
+          : this.changeVariantStatus(variant, 'retired', reason, now));
+      }
+    });
+    return changes;
+  }
+
+  /**
+   * Move a variant through its lifecycle. Variants of concluded or archived
+   * experiments are frozen.
+   */
+  setVariantStatus(variantId: string, status: VariantStatus, reason: string = 'manual'): PromptVariant {
+    if (!VARIANT_STATUSES.includes(status)) {
+      throw new Error(`Unknown variant status: ${status}`);
+    }
+    return this.write(() => {
+      const row = this.db.query('SELECT * FROM prompt_variants WHERE id = ?').get(variantId) as any;
+      if (!row) {
+        throw new Error(`Unknown variant: ${variantId}`);
+      }
+      const experiment = this.getExperiment(row.experiment_id);
+      if (experiment.status !== 'active' && experiment.status !== 'paused') {
+        throw new Error(`Experiment ${experiment.name} is ${experiment.status}`);
+      }
+
+      const variant = this.rowToVariant(row);
+      if (variant.status !== status) {
+        this.changeVariantStatus(variant, status, reason, Date.now());
+      }
+      return { ...variant, status };
+    });
+  }
+
+  /**
+   * Return a paused, retired, archived or draft variant to active service
+   */
+  restoreVariant(variantId: string): PromptVariant {
+    return this.setVariantStatus(variantId, 'active', 'restored');
+  }
+
+  getVariantStatusChanges(variantId: string): VariantStatusChange[] {
+    const rows = this.db.query(`
+      SELECT * FROM variant_status_changes WHERE variant_id = ? ORDER BY id
+    `).all(variantId) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      experimentId: row.experiment_id,
+      variantId: row.variant_id,
+      from: row.from_status,
+      to: row.to_status,
+      reason: row.reason,
+      timestamp: row.timestamp
+    }));
+  }
+
+  private changeVariantStatus(
+    variant: PromptVariant,
+    status: VariantStatus,
+    reason: string,
+    timestamp: number
+  ): VariantStatusChange {
+    this.db.run('UPDATE prompt_variants SET status = ? WHERE id = ?', [status, variant.id]);
+    const result = this.db.run(`
+      INSERT INTO variant_status_changes (experiment_id, variant_id, from_status, to_status, reason, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [variant.experimentId, variant.id, variant.status, status, reason, timestamp]);
+
+    return {
+      id: Number(result.lastInsertRowid),
+      experimentId: variant.experimentId,
+      variantId: variant.id,
+      from: variant.status,
+      to: status,
+      reason,
+      timestamp
+    };
+  }
+
+  // ==========================================================================
+  // Data Integrity
+  // ==========================================================================
+
+  /**
+   * Check the raw event tables against each other and against the aggregates
+   * cached in variant_performance
+   */
+  checkIntegrity(): IntegrityReport {
+    const orphans = this.db.query('PRAGMA foreign_key_check').all() as any[];
+    const unassigned = this.db.query(`
+      SELECT f.id, f.task_id FROM feedback_records f
+      LEFT JOIN experiment_assignments a ON a.task_id = f.task_id
+      WHERE a.task_id IS NULL
+      ORDER BY f.id
+    `).all() as any[];
+    const mismatched = this.db.query(`
+      SELECT f.id, f.task_id, f.variant_id, a.variant_id AS assigned_id FROM feedback_records f
+      JOIN experiment_assignments a ON a.task_id = f.task_id
+      WHERE f.variant_id != a.variant_id OR f.experiment_id != a.experiment_id
+      ORDER BY f.id
+    `).all() as any[];
+    const duplicates = this.db.query(`
+      SELECT task_id, COUNT(*) AS records FROM feedback_records
+      GROUP BY task_id HAVING records > 1
+      ORDER BY MIN(id)
+    `).all() as any[];
+    const missing = this.db.query(`
+      SELECT pv.id FROM prompt_variants pv
+      LEFT JOIN variant_performance vp ON vp.variant_id = pv.id
+      WHERE vp.variant_id IS NULL
+      ORDER BY pv.created_at
+    `).all() as any[];
+    const miscounted = this.db.query(`
+      SELECT vp.variant_id, vp.total_trials, COUNT(f.id) AS records FROM variant_performance vp
+      LEFT JOIN feedback_records f ON f.variant_id = vp.variant_id
+      GROUP BY vp.variant_id HAVING vp.total_trials != records
+    `).all() as any[];
+    const pending = this.db.query(`
+      SELECT a.task_id, a.variant_id FROM experiment_assignments a
+      LEFT JOIN feedback_records f ON f.task_id = a.task_id
+      WHERE f.id IS NULL
+      ORDER BY a.timestamp
+    `).all() as any[];
+
+    const orphanTables = [...new Set(orphans.map(row => row.table as string))];
+    return integrityReport([
+      ...orphanTables.map(table => toIssue('orphaned_row', table, orphans
+        .filter(row => row.table === table)
+        .map(row => `rowid ${row.rowid} references a missing ${row.parent} row`))),
+      toIssue('unassigned_feedback', 'feedback_records',
+        unassigned.map(row => `#${row.id} for task ${row.task_id}`)),
+      toIssue('assignment_mismatch', 'feedback_records', mismatched.map(row =>
+        `#${row.id} for task ${row.task_id}: variant ${row.variant_id}, assigned ${row.assigned_id}`)),
+      toIssue('duplicate_feedback', 'feedback_records',
+        duplicates.map(row => `task ${row.task_id}: ${row.records} records`)),
+      toIssue('missing_performance', 'prompt_variants', missing.map(row => `variant ${row.id}`)),
+      toIssue('trial_count_mismatch', 'variant_performance', miscounted.map(row =>
+        `variant ${row.variant_id}: total_trials ${row.total_trials}, ${row.records} feedback records`)),
+      toIssue('pending_assignment', 'experiment_assignments',
+        pending.map(row => `task ${row.task_id} on variant ${row.variant_id}`))
+    ]);
+  }
+
+  /**
+   * Recompute variant_performance from feedback_records: posterior evidence by
+   * replaying the feedback under each experiment's current policies, trial
+   * counts and averages from the records themselves. Variants without a
+   * performance row get one. The integrity report describes the database
+   * before the rebuild; with dryRun nothing is written.
+   */
+  rebuildStats(options: { experimentId?: string; dryRun?: boolean } = {}): StatsRebuild {
+    const dryRun = options.dryRun ?? false;
+    const experimentIds = options.experimentId !== undefined
+      ? [this.getExperiment(options.experimentId).id]
+      : this.listExperiments().map(experiment => experiment.id);
+
+    return this.write(() => {
+      const integrity = this.checkIntegrity();
+      const changes: StatsChange[] = [];
+      for (const experimentId of experimentIds) {
+        const rows = this.db.query(`
+          SELECT variant_id, COUNT(*) AS trials, AVG(reward) AS reward,
+                 AVG(latency_ms) AS latency, AVG(token_cost) AS cost
+          FROM feedback_records WHERE experiment_id = ?
+          GROUP BY variant_id
+        `).all(experimentId) as any[];
+        const aggregates = new Map(rows.map(row => [row.variant_id as string, row]));
+
+        for (const [variantId, evidence] of this.replayEvidence(experimentId)) {
+          const aggregate = aggregates.get(variantId);
+          const rebuilt: StatsSnapshot = {
+            alpha: evidence.alpha,
+            beta: evidence.beta,
+            utilityN: evidence.n,
+            utilitySum: evidence.sum,
+            utilitySumSq: evidence.sumSq,
+            totalTrials: aggregate?.trials ?? 0,
+            avgReward: aggregate?.reward ?? 0,
+            avgLatencyMs: aggregate?.latency ?? 0,
+            avgTokenCost: aggregate?.cost ?? 0
+          };
+          const diff = diffStats(variantId, this.storedStats(variantId), rebuilt);
+          changes.push(...diff);
+          if (dryRun || diff.length === 0) continue;
+
+          this.writeStats(variantId, rebuilt);
+          this.db.run('DELETE FROM change_detectors WHERE variant_id = ?', [variantId]);
+        }
+      }
+      return { dryRun, experimentIds, changes, diff: renderStatsDiff(changes), integrity };
+    });
+  }
+
+  /**
+   * The variant_performance row as stored, without sliding-window evidence
+   */
+  private storedStats(variantId: string): StatsSnapshot | null {
+    const row = this.db.query('SELECT * FROM variant_performance WHERE variant_id = ?').get(variantId) as any;
+    if (!row) return null;
+    return {
+      alpha: row.alpha,
+      beta: row.beta,
+      utilityN: row.utility_n,
+      utilitySum: row.utility_sum,
+      utilitySumSq: row.utility_sum_sq,
+      totalTrials: row.total_trials,
+      avgReward: row.avg_reward,
+      avgLatencyMs: row.avg_latency_ms,
+      avgTokenCost: row.avg_token_cost
+    };
   }
 
-  private linUCBScore(features: number[], alpha: number): number {
-    // Simplified LinUCB score: reward estimate + uncertainty bonus
-    const rewardEstimate = features.reduce((sum, f) => sum + f, 0) / features.length;
-    const uncertainty = alpha * Math.sqrt(features.length);
-    return rewardEstimate + uncertainty;
+  /**
+   * Replace a variant's variant_performance row, creating it if missing
+   */
+  private writeStats(variantId: string, stats: StatsSnapshot): void {
+    this.db.run('INSERT OR IGNORE INTO variant_performance (variant_id) VALUES (?)', [variantId]);
+    this.writeEvidence(variantId, {
+      alpha: stats.alpha,
+      beta: stats.beta,
+      n: stats.utilityN,
+      sum: stats.utilitySum,
+      sumSq: stats.utilitySumSq
+    });
+    this.db.run(`
+      UPDATE variant_performance
+      SET total_trials = ?, avg_reward = ?, avg_latency_ms = ?, avg_token_cost = ?
+      WHERE variant_id = ?
+    `, [stats.totalTrials, stats.avgReward, stats.avgLatencyMs, stats.avgTokenCost, variantId]);
   }
 
   // ==========================================================================
-  // RLHF-Style Preference Learning
+  // Import & Export
   // ==========================================================================
 
   /**
-   * Record human preference between two variants
+   * An experiment with its variants, lineage, performance, feedback and
+   * preferences as a versioned bundle. Records linking to other experiments
+   * are left out.
    */
-  recordPreference(winnerId: string, loserId: string, context: string, humanFeedback: boolean = false): void {
-    this.db.run(`
-      INSERT INTO preference_comparisons (winner_id, loser_id, context, human_feedback, timestamp)
-      VALUES (?, ?, ?, ?, ?)
-    `, [winnerId, loserId, context, humanFeedback ? 1 : 0, Date.now()]);
-
-    // Update Bradley-Terry model estimates
-    // (Simplified: boost winner's alpha, loser's beta)
-    const winnerPerf = this.getPerformance(winnerId);
-    const loserPerf = this.getPerformance(loserId);
-
-    this.db.run(`
-      UPDATE variant_performance 
-      SET alpha = alpha + 0.1
-      WHERE variant_id = ?
-    `, [winnerId]);
+  getExperimentBundle(experimentId: string = DEFAULT_EXPERIMENT_ID): ExperimentBundle {
+    const experiment = this.getExperiment(experimentId);
+    const variants = this.db.query(`
+      SELECT * FROM prompt_variants WHERE experiment_id = ? ORDER BY created_at, id
+    `).all(experimentId) as any[];
+    const lineage = this.db.query(`
+      SELECT l.* FROM variant_lineage l
+      JOIN prompt_variants c ON c.id = l.child_id AND c.experiment_id = ?
+      JOIN prompt_variants p ON p.id = l.parent_id AND p.experiment_id = c.experiment_id
+      ORDER BY l.id
+    `).all(experimentId) as any[];
+    const feedback = this.db.query(`
+      SELECT f.*, a.task_id AS assigned_task, a.context, a.candidate_ids, a.propensity,
+             a.selection_policy, a.timestamp AS assigned_at
+      FROM feedback_records f
+      JOIN prompt_variants pv ON pv.id = f.variant_id AND pv.experiment_id = ?
+      LEFT JOIN experiment_assignments a ON a.task_id = f.task_id
+      ORDER BY f.timestamp, f.id
+    `).all(experimentId) as any[];
+    const preferences = this.db.query(`
+      SELECT pc.* FROM preference_comparisons pc
+      JOIN prompt_variants w ON w.id = pc.winner_id AND w.experiment_id = ?
+      JOIN prompt_variants l ON l.id = pc.loser_id AND l.experiment_id = w.experiment_id
+      ORDER BY pc.id
+    `).all(experimentId) as any[];
 
-    this.db.run(`
-      UPDATE variant_performance 
-      SET beta = beta + 0.1
-      WHERE variant_id = ?
-    `, [loserId]);
+    return {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: Date.now(),
+      experiment: {
+        id: experiment.id,
+        name: experiment.name,
+        description: experiment.description ?? null,
+        status: experiment.status,
+        rewardPolicy: experiment.rewardPolicy,
+        posteriorFamily: experiment.posteriorFamily,
+        driftPolicy: experiment.driftPolicy,
+        stoppingRule: experiment.stoppingRule,
+        prunePolicy: experiment.prunePolicy,
+        defaultVariantId: experiment.defaultVariantId ?? null,
+        createdAt: experiment.createdAt
+      },
+      variants: variants.map(row => ({
+        id: row.id,
+        template: row.template,
+        parentId: row.parent_id,
+        generation: row.generation,
+        posteriorFamily: row.posterior_family,
+        status: row.status ?? 'active',
+        inheritance: row.inheritance ? JSON.parse(row.inheritance) : null,
+        rolloutTrials: row.rollout_trials,
+        createdAt: row.created_at
+      })),
+      lineage: lineage.map(row => ({
+        childId: row.child_id,
+        parentId: row.parent_id,
+        parentIndex: row.parent_index,
+        operation: row.operation,
+        operator: row.operator,
+        inputs: JSON.parse(row.inputs),
+        timestamp: row.timestamp
+      })),
+      performance: variants.flatMap(row => {
+        const stats = this.storedStats(row.id);
+        return stats ? [{ variantId: row.id, ...stats }] : [];
+      }),
+      feedback: feedback.map(row => ({
+        taskId: row.task_id,
+        variantId: row.variant_id,
+        reward: row.reward,
+        latencyMs: row.latency_ms,
+        tokenCost: row.token_cost,
+        success: !!row.success,
+        timestamp: row.timestamp,
+        assignment: row.assigned_task === null ? null : {
+          context: row.context ?? '',
+          candidateIds: row.candidate_ids ? JSON.parse(row.candidate_ids) : null,
+          propensity: row.propensity,
+          selectionPolicy: row.selection_policy,
+          timestamp: row.assigned_at
+        }
+      })),
+      preferences: preferences.map(row => ({
+        winnerId: row.winner_id,
+        loserId: row.loser_id,
+        context: row.context,
+        humanFeedback: !!row.human_feedback,
+        timestamp: row.timestamp
+      }))
+    };
   }
 
-  // ==========================================================================
-  // Continuous Learning Loop
-  // ==========================================================================
+  exportExperiment(experimentId: string = DEFAULT_EXPERIMENT_ID, encoding: BundleEncoding = 'json'): string {
+    return encodeBundle(this.getExperimentBundle(experimentId), encoding);
+  }
 
   /**
-   * Background task: Periodically evaluate and evolve
+   * Import a bundle (JSON or NDJSON text, or a decoded bundle) as a new
+   * experiment, or merge it into an existing one. A bundle variant whose
+   * template matches a variant of the target experiment is merged into it:
+   * posteriors are pooled as they are, without replaying the feedback under
+   * the target's policies (rebuild_stats does that), and its feedback and
+   * preferences are attributed to the existing variant. The whole import is
+   * one transaction.
    */
-  async continuousLearningLoop(intervalMs: number = 3600000): Promise<void> {
-    setInterval(async () => {
-      // 1. Prune low-performing variants
-      this.pruneLowPerformers();
+  importExperiment(input: string | ExperimentBundle, options: ImportOptions = {}): ImportSummary {
+    const bundle = typeof input === 'string' ? decodeBundle(input) : validateBundle(input);
+    const remapIds = options.remapIds ?? true;
+
+    return this.write(() => {
+      const target = options.experimentId !== undefined ? this.getExperiment(options.experimentId) : null;
+      if (target && (target.status === 'concluded' || target.status === 'archived')) {
+        throw new Error(`Experiment ${target.name} is ${target.status}`);
+      }
+      const experimentId = target?.id
+        ?? this.insertBundleExperiment(bundle.experiment, options.name ?? bundle.experiment.name, remapIds);
+      const existing = new Map(target ? this.getAllVariants(target.id).map(v => [v.template, v.id]) : []);
+
+      // Allocate every ID first: parents may come after their children
+      const ids = new Map<string, string>();
+      const merged = new Set<string>();
+      for (const variant of bundle.variants) {
+        const match = existing.get(variant.template);
+        if (match) {
+          ids.set(variant.id, match);
+          merged.add(match);
+        } else {
+          ids.set(variant.id, remapIds ? this.newId('prompt_variants', 'id') : variant.id);
+        }
+      }
 
-      // 2. Evolve new variants
-      await this.evolvePrompts(5, 2);
+      const now = Date.now();
+      for (const variant of bundle.variants) {
+        const id = ids.get(variant.id)!;
+        if (merged.has(id)) continue;
+        if (!remapIds && this.db.query('SELECT 1 FROM prompt_variants WHERE id = ?').get(id)) {
+          throw new Error(`Variant already exists: ${id}`);
+        }
+        if (!VARIANT_STATUSES.includes(variant.status as VariantStatus)) {
+          throw new Error(`Unknown variant status: ${variant.status}`);
+        }
+        if (variant.posteriorFamily !== null) this.assertPosteriorFamily(variant.posteriorFamily);
+        templateVariables(variant.template); // Rejects malformed placeholders
+
+        const inheritance = variant.inheritance?.map(i => ({
+          ...i,
+          parentId: i.parentId === null ? null : ids.get(i.parentId) ?? null
+        }));
+        this.db.run(`
+          INSERT INTO prompt_variants
+          (id, experiment_id, template, parent_id, generation, posterior_family, status, inheritance,
+           rollout_trials, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [id, experimentId, variant.template, variant.parentId ? ids.get(variant.parentId) ?? null : null,
+            variant.generation ?? 0, variant.posteriorFamily ?? null, variant.status,
+            inheritance ? JSON.stringify(inheritance) : null, variant.rolloutTrials ?? null, variant.createdAt ?? now]);
+        this.db.run('INSERT INTO variant_performance (variant_id) VALUES (?)', [id]);
+      }
 
-      // 3. Decay exploration rate
-      this.explorationRate = Math.max(0.05, this.explorationRate * 0.95);
-    }, intervalMs);
+      for (const perf of bundle.performance) {
+        const id = ids.get(perf.variantId)!;
+        const stored = merged.has(id) ? this.storedStats(id) : null;
+        this.writeStats(id, stored ? mergeStats(stored, perf) : perf);
+      }
+
+      const lineage = bundle.lineage.filter(link => !merged.has(ids.get(link.childId)!));
+      for (const link of lineage) {
+        this.db.run(`
+          INSERT INTO variant_lineage (child_id, parent_id, parent_index, operation, operator, inputs, timestamp)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `, [ids.get(link.childId)!, ids.get(link.parentId)!, link.parentIndex, link.operation, link.operator,
+            JSON.stringify(link.inputs ?? {}), link.timestamp]);
+      }
+
+      const tasks = new Map<string, string>();
+      for (const record of bundle.feedback) {
+        const variantId = ids.get(record.variantId)!;
+        let taskId = tasks.get(record.taskId);
+        if (taskId === undefined) {
+          taskId = remapIds ? this.newId('experiment_assignments', 'task_id') : record.taskId;
+          if (!remapIds && this.db.query('SELECT 1 FROM experiment_assignments WHERE task_id = ?').get(taskId)) {
+            throw new Error(`Task already exists: ${taskId}`);
+          }
+          tasks.set(record.taskId, taskId);
+
+          const assignment = record.assignment;
+          const candidateIds = assignment?.candidateIds?.flatMap(id => ids.has(id) ? [ids.get(id)!] : []);
+          this.db.run(`
+            INSERT INTO experiment_assignments
+            (task_id, experiment_id, variant_id, context, candidate_ids, propensity, selection_policy, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          `, [taskId, experimentId, variantId, assignment?.context ?? '',
+              candidateIds ? JSON.stringify(candidateIds) : null, assignment?.propensity ?? null,
+              assignment?.selectionPolicy ?? null, assignment?.timestamp ?? record.timestamp]);
+        }
+
+        this.db.run(`
+          INSERT INTO feedback_records
+          (task_id, experiment_id, variant_id, reward, latency_ms, token_cost, success, timestamp)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `, [taskId, experimentId, variantId, record.reward, record.latencyMs, record.tokenCost,
+            record.success ? 1 : 0, record.timestamp]);
+      }
+
+      for (const preference of bundle.preferences) {
+        this.db.run(`
+          INSERT INTO preference_comparisons (winner_id, loser_id, context, human_feedback, timestamp)
+          VALUES (?, ?, ?, ?, ?)
+        `, [ids.get(preference.winnerId)!, ids.get(preference.loserId)!, preference.context ?? null,
+            preference.humanFeedback ? 1 : 0, preference.timestamp]);
+      }
+      if (bundle.preferences.length > 0) this.refitPreferenceModel(experimentId);
+
+      if (!target && bundle.experiment.defaultVariantId !== null) {
+        this.db.run('UPDATE experiments SET default_variant_id = ? WHERE id = ?', [
+          ids.get(bundle.experiment.defaultVariantId)!,
+          experimentId
+        ]);
+      }
+
+      return {
+        experimentId,
+        created: !target,
+        variantIds: Object.fromEntries(ids),
+        merged: [...merged],
+        lineage: lineage.length,
+        feedback: bundle.feedback.length,
+        preferences: bundle.preferences.length
+      };
+    });
   }
 
-  private pruneLowPerformers(): void {
-    // Remove variants with < 5% win rate after sufficient trials
+  /**
+   * Create the experiment of an imported bundle with its validated settings
+   */
+  private insertBundleExperiment(source: BundleExperiment, name: string, remapIds: boolean): string {
+    if (this.db.query('SELECT 1 FROM experiments WHERE name = ?').get(name)) {
+      throw new Error(`Experiment already exists: ${name}`);
+    }
+    if (!remapIds && this.db.query('SELECT 1 FROM experiments WHERE id = ?').get(source.id)) {
+      throw new Error(`Experiment already exists: ${source.id}`);
+    }
+    if (!EXPERIMENT_STATUSES.includes(source.status as ExperimentStatus)) {
+      throw new Error(`Unknown experiment status: ${source.status}`);
+    }
+    this.assertPosteriorFamily(source.posteriorFamily);
+
+    const id = remapIds ? this.newId('experiments', 'id') : source.id;
+    const now = Date.now();
     this.db.run(`
-      DELETE FROM prompt_variants
-      WHERE id IN (
-        SELECT variant_id FROM variant_performance
-        WHERE total_trials >= 20 AND (alpha / (alpha + beta)) < 0.05
-      )
-    `);
+      INSERT INTO experiments
+      (id, name, description, status, reward_policy, posterior_family, drift_policy, stopping_rule,
+       prune_policy, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [id, name, source.description ?? null, source.status,
+        JSON.stringify(validateRewardPolicy(source.rewardPolicy)), source.posteriorFamily,
+        JSON.stringify(validateDriftPolicy(source.driftPolicy)),
+        JSON.stringify(validateStoppingRule(source.stoppingRule)),
+        JSON.stringify(validatePrunePolicy(source.prunePolicy)), now, now]);
+    return id;
   }
 
   // ==========================================================================
   // Query Methods
   // ==========================================================================
 
-  getAllVariants(): PromptVariant[] {
-    const rows = this.db.query('SELECT * FROM prompt_variants ORDER BY created_at DESC').all() as any[];
-    return rows.map(row => ({
+  getAllVariants(experimentId?: string): PromptVariant[] {
+    const rows = (experimentId
+      ? this.db.query('SELECT * FROM prompt_variants WHERE experiment_id = ? ORDER BY created_at DESC').all(experimentId)
+      : this.db.query('SELECT * FROM prompt_variants ORDER BY created_at DESC').all()) as any[];
+    return rows.map(row => this.rowToVariant(row));
+  }
+
+  private rowToVariant(row: any): PromptVariant {
+    return {
       id: row.id,
+      experimentId: row.experiment_id,
       template: row.template,
       parentId: row.parent_id,
       generation: row.generation,
+      posteriorFamily: row.posterior_family ?? undefined,
+      status: row.status ?? 'active',
+      inheritance: row.inheritance ? JSON.parse(row.inheritance) : undefined,
+      rolloutTrials: row.rollout_trials ?? undefined,
       createdAt: row.created_at
-    }));
+    };
   }
 
   getVariantStats(variantId: string): VariantPerformance {
     return this.getPerformance(variantId);
   }
 
+  /**
+   * Ancestors and descendants of a variant up to depth generations away, with
+   * the change in posterior mean utility along every parent → child edge
+   */
+  getVariantLineage(variantId: string, depth: number = Infinity): VariantLineage {
+    if (!(depth >= 1) || (depth !== Infinity && !Number.isInteger(depth))) {
+      throw new Error('Lineage depth must be a positive integer');
+    }
+    const variant = this.db.query('SELECT experiment_id FROM prompt_variants WHERE id = ?').get(variantId) as any;
+    if (!variant) {
+      throw new Error(`Unknown variant: ${variantId}`);
+    }
+
+    const rows = this.db.query('SELECT * FROM prompt_variants WHERE experiment_id = ?')
+      .all(variant.experiment_id) as any[];
+    const variants = new Map(rows.map(row => [row.id as string, this.rowToVariant(row)]));
+
+    return buildLineage(variantId, this.lineageLinks(variants), id => {
+      const v = variants.get(id)!;
+      const perf = this.getPerformance(id);
+      return {
+        id,
+        generation: v.generation,
+        status: v.status,
+        trials: perf.totalTrials,
+        mean: perf.posterior.mean,
+        preview: v.template.split('\n')[0].slice(0, 60)
+      };
+    }, depth);
+  }
+
+  /**
+   * Parent links among the given variants. Variants evolved before lineage was
+   * recorded fall back to their single parent_id with an unknown operation.
+   */
+  private lineageLinks(variants: Map<string, PromptVariant>): LineageLink[] {
+    const ids = [...variants.keys()];
+    const rows = this.db.query(`
+      SELECT * FROM variant_lineage
+      WHERE child_id IN (${ids.map(() => '?').join(', ')})
+      ORDER BY child_id, parent_index
+    `).all(...ids) as any[];
+
+    const links: LineageLink[] = rows.map(row => ({
+      childId: row.child_id,
+      parentId: row.parent_id,
+      parentIndex: row.parent_index,
+      operation: row.operation,
+      operator: row.operator,
+      inputs: JSON.parse(row.inputs)
+    }));
+    const recorded = new Set(links.map(link => link.childId));
+    for (const v of variants.values()) {
+      if (v.parentId && !recorded.has(v.id) && variants.has(v.parentId)) {
+        links.push({ childId: v.id, parentId: v.parentId, parentIndex: 0, operation: 'unknown', operator: null, inputs: {} });
+      }
+    }
+    return links;
+  }
+
+  /**
+   * Stop the learning scheduler, wait for a learning run in flight and close
+   * the database
+   */
+  async shutdown(): Promise<void> {
+    await this.scheduler.stop();
+    this.close();
+  }
+
+  /**
+   * Stop the learning scheduler and close the database right away. A learning
+   * run in flight is logged as failed with the steps it got done; use
+   * shutdown() to let it finish.
+   */
   close(): void {
+    void this.scheduler.stop();
+    if (this.activeRun) {
+      const { id, pruned, evolved } = this.activeRun;
+      this.finishLearningRun(id, 'failed', pruned, evolved, 'Interrupted: the plugin was closed');
+    }
+    this.closed = true;
     this.db.close();
   }
 }
@@ -578,11 +3121,30 @@ export default {
   description: 'Self-learning A/B testing with Thompson Sampling and genetic evolution',
   version: '0.1.0',
 
-  async initialize() {
-    const plugin = new ABLearningPlugin();
-    
-    // Start continuous learning loop
-    plugin.continuousLearningLoop();
+  /**
+   * Config comes from the options, then AB_LEARNING_* environment variables,
+   * then .opencode/ab-learning.json, then the defaults
+   */
+  async initialize(options: {
+    client?: OpenCodeClient;
+    llmProvider?: LLMProvider;
+    offlineEvolution?: boolean | 'genome' | 'append';
+    seed?: number;
+    random?: RandomSource;
+  } & PluginConfigInput = {}) {
+    const config = loadConfig(pickConfig(options));
+    const plugin = new ABLearningPlugin(config.dbPath, {
+      ...config,
+      llmProvider: options.llmProvider ?? (options.client ? new OpenCodeLLMProvider(options.client) : undefined),
+      offlineEvolution: options.offlineEvolution,
+      seed: options.seed,
+      random: options.random
+    });
+
+    // Start the background learning scheduler
+    if (config.learningIntervalMs > 0) {
+      plugin.startLearning();
+    }
 
     return plugin;
   },
@@ -590,20 +3152,28 @@ export default {
   tools: [
     {
       name: 'thompson_sample',
-      description: 'Select optimal variant using Thompson Sampling',
+      description: 'Select optimal variant using Thompson Sampling and record the task assignment',
       parameters: {
-        candidateIds: { type: 'array', items: { type: 'string' }, description: 'Variant IDs to choose from' }
+        candidateIds: { type: 'array', items: { type: 'string' }, description: 'Variant IDs to choose from' },
+        experimentId: { type: 'string', description: 'Choose from this experiment\'s pool when no candidates are given' },
+        context: { type: 'string', description: 'Task context stored with the assignment' },
+        taskId: { type: 'string', description: 'Task ID to assign; generated when omitted' }
       },
-      async execute(plugin: ABLearningPlugin, args: { candidateIds: string[] }) {
-        return plugin.thompsonSample(args.candidateIds);
+      async execute(
+        plugin: ABLearningPlugin,
+        args: { candidateIds?: string[]; experimentId?: string; context?: string; taskId?: string }
+      ) {
+        const candidateIds = args.candidateIds
+          ?? plugin.getExperimentVariantIds(args.experimentId ?? DEFAULT_EXPERIMENT_ID, 'active');
+        return plugin.assignVariant(candidateIds, args.context, args.taskId);
       }
     },
     {
       name: 'record_feedback',
-      description: 'Record performance feedback for a variant',
+      description: 'Record performance feedback for an assigned task',
       parameters: {
         taskId: { type: 'string' },
-        variantId: { type: 'string' },
+        variantId: { type: 'string', description: 'Optional; must match the task\'s assigned variant' },
         reward: { type: 'number' },
         latencyMs: { type: 'number' },
         tokenCost: { type: 'number' },
@@ -614,9 +3184,20 @@ export default {
         return { status: 'recorded' };
       }
     },
+    {
+      name: 'render_variant',
+      description: 'Fill the template placeholders of the variant assigned to a task',
+      parameters: {
+        taskId: { type: 'string' },
+        context: { type: 'object', description: 'Values for the template variables, e.g. { "diff": "..." }' }
+      },
+      async execute(plugin: ABLearningPlugin, args: { taskId: string; context?: TemplateValues }) {
+        return plugin.renderVariant(args.taskId, args.context);
+      }
+    },
     {
       name: 'evaluate_ab_test',
-      description: 'Evaluate statistical significance between variants',
+      description: 'Bayesian probability that one variant beats another (posterior Monte Carlo)',
       parameters: {
         variantA: { type: 'string' },
         variantB: { type: 'string' }
@@ -625,26 +3206,449 @@ export default {
         return plugin.evaluateABTest(args.variantA, args.variantB);
       }
     },
+    {
+      name: 'evaluate_variants',
+      description: 'Significance tests, effect sizes, lift and probability of being best across variants',
+      parameters: {
+        variantIds: { type: 'array', items: { type: 'string' } },
+        baselineId: { type: 'string', description: 'Defaults to the first variant' },
+        level: { type: 'number', default: 0.95 },
+        resamples: { type: 'number', default: 2000 }
+      },
+      async execute(plugin: ABLearningPlugin, args: { variantIds: string[] } & EvaluationOptions) {
+        const { variantIds, ...options } = args;
+        return plugin.evaluateVariants(variantIds, options);
+      }
+    },
+    {
+      name: 'plan_experiment',
+      description: 'Trials per arm to detect a lift, time to completion and simulated Thompson Sampling regret',
+      parameters: {
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID },
+        baselineRate: { type: 'number', description: 'Defaults to the success rate of the experiment\'s feedback' },
+        minDetectableEffect: { type: 'number', description: 'Absolute lift in success rate' },
+        relative: { type: 'boolean', default: false, description: 'Treat minDetectableEffect as relative lift' },
+        alpha: { type: 'number', default: 0.05 },
+        power: { type: 'number', default: 0.8 },
+        arms: { type: 'number', default: 2 },
+        simulationRuns: { type: 'number', default: 20 }
+      },
+      async execute(plugin: ABLearningPlugin, args: PlanOptions) {
+        return plugin.planExperiment(args);
+      }
+    },
+    {
+      name: 'evaluate_policy_offline',
+      description: 'Estimate a candidate selection policy from logged assignments (IPS, SNIPS, doubly robust)',
+      parameters: {
+        policy: {
+          type: 'object',
+          description: '{ type: thompson (prior, rewardPolicy) | linucb (alpha, rewardPolicy) | fixed (variantId) }'
+        },
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID },
+        level: { type: 'number', default: 0.95 }
+      },
+      async execute(
+        plugin: ABLearningPlugin,
+        args: { policy: CandidatePolicy; experimentId?: string; level?: number }
+      ) {
+        return plugin.evaluatePolicyOffline(args.policy, args.experimentId, args.level);
+      }
+    },
     {
       name: 'evolve_prompts',
       description: 'Generate new variants using genetic algorithm',
       parameters: {
         populationSize: { type: 'number', default: 5 },
-        generations: { type: 'number', default: 3 }
+        generations: { type: 'number', default: 3 },
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID },
+        config: {
+          type: 'object',
+          description: '{ eliteCount, selection: tournament | rank | roulette, mutationRate, sharingRadius, rolloutTrials, … }'
+        }
+      },
+      async execute(
+        plugin: ABLearningPlugin,
+        args: { populationSize?: number; generations?: number; experimentId?: string; config?: Partial<EvolutionConfig> }
+      ) {
+        return plugin.evolvePrompts(args.populationSize, args.generations, args.experimentId, args.config);
+      }
+    },
+    {
+      name: 'variant_lineage',
+      description: 'Ancestors, descendants and per-edge utility change of a variant, as JSON or a Mermaid/DOT graph',
+      parameters: {
+        variantId: { type: 'string' },
+        depth: { type: 'number', description: 'Generations to follow in each direction; all when omitted' },
+        format: { type: 'string', enum: ['json', 'mermaid', 'dot'], default: 'json' }
       },
-      async execute(plugin: ABLearningPlugin, args: { populationSize?: number; generations?: number }) {
-        return plugin.evolvePrompts(args.populationSize, args.generations);
+      async execute(plugin: ABLearningPlugin, args: { variantId: string; depth?: number; format?: LineageFormat }) {
+        const lineage = plugin.getVariantLineage(args.variantId, args.depth);
+        const format = args.format ?? 'json';
+        if (format === 'json') return lineage;
+        if (format !== 'mermaid' && format !== 'dot') {
+          throw new Error(`Unknown lineage format: ${format}`);
+        }
+        const graph = format === 'mermaid' ? renderMermaid(lineage) : renderDot(lineage);
+        return { variantId: lineage.variantId, format, graph };
       }
     },
     {
       name: 'contextual_bandit_select',
-      description: 'Select variant using contextual features',
+      description: 'Select variant using contextual features and record the task assignment',
       parameters: {
         candidateIds: { type: 'array', items: { type: 'string' } },
-        contextFeatures: { type: 'array', items: { type: 'number' } }
+        contextFeatures: { type: 'array', items: { type: 'number' } },
+        taskId: { type: 'string', description: 'Task ID to assign; generated when omitted' }
+      },
+      async execute(
+        plugin: ABLearningPlugin,
+        args: { candidateIds: string[]; contextFeatures: number[]; taskId?: string }
+      ) {
+        return plugin.assignContextualVariant(args.candidateIds, args.contextFeatures, args.taskId);
+      }
+    },
+    {
+      name: 'record_contextual_reward',
+      description: 'Update a variant\'s LinUCB model with the reward observed for a context',
+      parameters: {
+        variantId: { type: 'string' },
+        contextFeatures: { type: 'array', items: { type: 'number' } },
+        reward: { type: 'number' }
+      },
+      async execute(plugin: ABLearningPlugin, args: { variantId: string; contextFeatures: number[]; reward: number }) {
+        plugin.recordContextualReward(args.variantId, args.contextFeatures, args.reward);
+        return { status: 'recorded' };
+      }
+    },
+    {
+      name: 'preference_ranking',
+      description: 'Rank an experiment\'s variants by Bradley-Terry preference strength with standard errors',
+      parameters: {
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId?: string }) {
+        return plugin.getPreferenceRanking(args.experimentId);
+      }
+    },
+    {
+      name: 'select_pair',
+      description: 'Propose the two variants whose human comparison is most informative',
+      parameters: {
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID },
+        context: { type: 'string', description: 'Task context shown to the reviewer' }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId?: string; context?: string }) {
+        return plugin.selectPair(args.experimentId, args.context);
+      }
+    },
+    {
+      name: 'submit_preference',
+      description: 'Submit the preferred variant for a comparison token from select_pair',
+      parameters: {
+        token: { type: 'string' },
+        winnerId: { type: 'string' },
+        humanFeedback: { type: 'boolean', default: true }
+      },
+      async execute(plugin: ABLearningPlugin, args: { token: string; winnerId: string; humanFeedback?: boolean }) {
+        return { status: 'recorded', ...plugin.submitPreference(args.token, args.winnerId, args.humanFeedback) };
+      }
+    },
+    {
+      name: 'create_experiment',
+      description: 'Create an experiment with its own isolated pool of prompt variants',
+      parameters: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        rewardPolicy: { type: 'object', description: 'Reward policy; defaults to { type: \'success\' }' },
+        posteriorFamily: {
+          type: 'string',
+          enum: ['beta-bernoulli', 'beta-fractional', 'normal-inverse-gamma'],
+          default: 'beta-bernoulli'
+        }
+      },
+      async execute(
+        plugin: ABLearningPlugin,
+        args: { name: string; description?: string; rewardPolicy?: RewardPolicy; posteriorFamily?: PosteriorFamily }
+      ) {
+        return plugin.createExperiment(args.name, args.description, args.rewardPolicy, args.posteriorFamily);
+      }
+    },
+    {
+      name: 'set_drift_policy',
+      description: 'Handle non-stationary rewards with discounting, a sliding window and change detection',
+      parameters: {
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID },
+        driftPolicy: {
+          type: 'object',
+          description: '{ mode: stationary | discounted (gamma) | sliding_window (windowMs), changeDetection? }'
+        }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId?: string; driftPolicy: DriftPolicy }) {
+        return plugin.setDriftPolicy(args.experimentId ?? DEFAULT_EXPERIMENT_ID, args.driftPolicy);
+      }
+    },
+    {
+      name: 'set_posterior_family',
+      description: 'Set the posterior family of an experiment, or override it for one variant',
+      parameters: {
+        family: { type: 'string', enum: ['beta-bernoulli', 'beta-fractional', 'normal-inverse-gamma'] },
+        experimentId: { type: 'string' },
+        variantId: { type: 'string', description: 'Override one variant instead of the whole experiment' }
+      },
+      async execute(
+        plugin: ABLearningPlugin,
+        args: { family: PosteriorFamily; experimentId?: string; variantId?: string }
+      ) {
+        if (args.variantId) {
+          return plugin.setVariantPosteriorFamily(args.variantId, args.family);
+        }
+        return plugin.setExperimentPosteriorFamily(args.experimentId ?? DEFAULT_EXPERIMENT_ID, args.family);
+      }
+    },
+    {
+      name: 'set_reward_policy',
+      description: 'Set what an experiment optimises: success, weighted, cost_ceiling or latency_slo',
+      parameters: {
+        experimentId: { type: 'string' },
+        rewardPolicy: { type: 'object' }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId: string; rewardPolicy: RewardPolicy }) {
+        return plugin.setRewardPolicy(args.experimentId, args.rewardPolicy);
+      }
+    },
+    {
+      name: 'pareto_front',
+      description: 'Report which active variants are non-dominated on quality, latency and token cost',
+      parameters: {
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId?: string }) {
+        return plugin.getParetoFront(args.experimentId);
+      }
+    },
+    {
+      name: 'set_stopping_rule',
+      description: 'Stop an experiment automatically with an always-valid sequential test',
+      parameters: {
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID },
+        stoppingRule: {
+          type: 'object',
+          description: '{ type: none | msprt (alpha, tau) | expected_loss (threshold, draws), minSamples }'
+        }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId?: string; stoppingRule: StoppingRule }) {
+        return plugin.setStoppingRule(args.experimentId ?? DEFAULT_EXPERIMENT_ID, args.stoppingRule);
+      }
+    },
+    {
+      name: 'experiment_decisions',
+      description: 'Audit log of concluded experiments: winner, retired variants and the evidence',
+      parameters: {
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId?: string }) {
+        return plugin.getDecisions(args.experimentId);
+      }
+    },
+    {
+      name: 'set_prune_policy',
+      description: 'Choose when pruning retires an experiment\'s variants',
+      parameters: {
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID },
+        prunePolicy: {
+          type: 'object',
+          description: '{ enabled, minTrials, minMeanUtility, minProbabilityBest, draws, keepActive }'
+        }
+      },
+      async execute(
+        plugin: ABLearningPlugin,
+        args: { experimentId?: string; prunePolicy: Partial<PrunePolicy> }
+      ) {
+        return plugin.setPrunePolicy(args.experimentId ?? DEFAULT_EXPERIMENT_ID, args.prunePolicy);
+      }
+    },
+    {
+      name: 'prune_variants',
+      description: 'Retire variants that fail the experiment\'s prune policy, keeping their history',
+      parameters: {
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID },
+        dryRun: {
+          type: 'boolean',
+          default: false,
+          description: 'Report what would be retired without retiring it'
+        }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId?: string; dryRun?: boolean }) {
+        return plugin.pruneVariants(args.experimentId, args.dryRun);
+      }
+    },
+    {
+      name: 'set_variant_status',
+      description: 'Move a variant to draft, active, paused, retired or archived',
+      parameters: {
+        variantId: { type: 'string' },
+        status: { type: 'string', enum: VARIANT_STATUSES },
+        reason: { type: 'string', default: 'manual' }
+      },
+      async execute(
+        plugin: ABLearningPlugin,
+        args: { variantId: string; status: VariantStatus; reason?: string }
+      ) {
+        return plugin.setVariantStatus(args.variantId, args.status, args.reason);
+      }
+    },
+    {
+      name: 'restore_variant',
+      description: 'Return a retired, paused, archived or draft variant to active service',
+      parameters: {
+        variantId: { type: 'string' }
+      },
+      async execute(plugin: ABLearningPlugin, args: { variantId: string }) {
+        return plugin.restoreVariant(args.variantId);
+      }
+    },
+    {
+      name: 'rebuild_stats',
+      description: 'Check data integrity and recompute variant statistics from the raw feedback',
+      parameters: {
+        experimentId: { type: 'string', description: 'Defaults to every experiment' },
+        dryRun: {
+          type: 'boolean',
+          default: false,
+          description: 'Report the integrity check and the diff without changing anything'
+        }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId?: string; dryRun?: boolean }) {
+        return plugin.rebuildStats(args);
+      }
+    },
+    {
+      name: 'export_experiment',
+      description: 'Export an experiment\'s variants, lineage, statistics, feedback and preferences as a portable bundle',
+      parameters: {
+        experimentId: { type: 'string', default: DEFAULT_EXPERIMENT_ID },
+        format: { type: 'string', enum: ['json', 'ndjson'], default: 'json' }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId?: string; format?: BundleEncoding }) {
+        const experimentId = args.experimentId ?? DEFAULT_EXPERIMENT_ID;
+        const format = args.format ?? 'json';
+        return { experimentId, format, bundle: plugin.exportExperiment(experimentId, format) };
+      }
+    },
+    {
+      name: 'import_experiment',
+      description: 'Import an exported bundle as a new experiment or merge it into an existing one',
+      parameters: {
+        bundle: { type: 'string', description: 'JSON or NDJSON bundle from export_experiment' },
+        experimentId: { type: 'string', description: 'Merge into this experiment instead of creating one' },
+        name: { type: 'string', description: 'Name of the created experiment; defaults to the bundle\'s' },
+        remapIds: {
+          type: 'boolean',
+          default: true,
+          description: 'Give the experiment, variants and tasks fresh IDs'
+        }
+      },
+      async execute(plugin: ABLearningPlugin, args: { bundle: string } & ImportOptions) {
+        const { bundle, ...options } = args;
+        return plugin.importExperiment(bundle, options);
+      }
+    },
+    {
+      name: 'get_config',
+      description: 'Show the effective plugin configuration',
+      parameters: {},
+      async execute(plugin: ABLearningPlugin) {
+        return plugin.getConfig();
+      }
+    },
+    {
+      name: 'set_config',
+      description: 'Change plugin configuration for the running session',
+      parameters: {
+        config: {
+          type: 'object',
+          description: '{ explorationRate, rolloutShare, learningIntervalMs, prunePolicy, evolution, … } as shown by get_config'
+        }
+      },
+      async execute(plugin: ABLearningPlugin, args: { config: PluginConfigInput }) {
+        return plugin.setConfig(args.config);
+      }
+    },
+    {
+      name: 'start_learning',
+      description: 'Start or restart the background learning scheduler',
+      parameters: {
+        intervalMs: { type: 'number', description: 'Period between runs; defaults to learningIntervalMs' }
+      },
+      async execute(plugin: ABLearningPlugin, args: { intervalMs?: number }) {
+        return plugin.startLearning(args.intervalMs);
+      }
+    },
+    {
+      name: 'stop_learning',
+      description: 'Stop the background learning scheduler, waiting for a run in progress',
+      parameters: {},
+      async execute(plugin: ABLearningPlugin) {
+        return plugin.stopLearning();
+      }
+    },
+    {
+      name: 'run_learning_now',
+      description: 'Prune, evolve and decay exploration now, regardless of new feedback',
+      parameters: {},
+      async execute(plugin: ABLearningPlugin) {
+        return plugin.runLearningNow();
+      }
+    },
+    {
+      name: 'learning_runs',
+      description: 'Show the learning scheduler status and what recent runs pruned, evolved and decayed',
+      parameters: {
+        limit: { type: 'number', description: 'Runs to show, newest first (default 20)' }
+      },
+      async execute(plugin: ABLearningPlugin, args: { limit?: number }) {
+        return { status: plugin.getLearningStatus(), runs: plugin.getLearningRuns(args.limit) };
+      }
+    },
+    {
+      name: 'list_experiments',
+      description: 'List experiments, optionally filtered by status',
+      parameters: {
+        status: { type: 'string', enum: EXPERIMENT_STATUSES }
+      },
+      async execute(plugin: ABLearningPlugin, args: { status?: ExperimentStatus }) {
+        return plugin.listExperiments(args.status);
+      }
+    },
+    {
+      name: 'pause_experiment',
+      description: 'Pause an experiment so no variants are selected or evolved from it',
+      parameters: {
+        experimentId: { type: 'string' }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId: string }) {
+        return plugin.setExperimentStatus(args.experimentId, 'paused');
+      }
+    },
+    {
+      name: 'resume_experiment',
+      description: 'Resume a paused experiment',
+      parameters: {
+        experimentId: { type: 'string' }
+      },
+      async execute(plugin: ABLearningPlugin, args: { experimentId: string }) {
+        return plugin.setExperimentStatus(args.experimentId, 'active');
+      }
+    },
+    {
+      name: 'archive_experiment',
+      description: 'Archive an experiment, freezing its variants and history',
+      parameters: {
+        experimentId: { type: 'string' }
       },
-      async execute(plugin: ABLearningPlugin, args: { candidateIds: string[]; contextFeatures: number[] }) {
-        return plugin.contextualBanditSelect(args.candidateIds, args.contextFeatures);
+      async execute(plugin: ABLearningPlugin, args: { experimentId: string }) {
+        return plugin.setExperimentStatus(args.experimentId, 'archived');
       }
     }
   ]
@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  decodeBundle,
+  encodeBundle,
+  mergeStats,
+  type ExperimentBundle,
+} from './bundle';
+
+const STATS = {
+  alpha: 3,
+  beta: 2,
+  utilityN: 3,
+  utilitySum: 2,
+  utilitySumSq: 2,
+  totalTrials: 3,
+  avgReward: 2 / 3,
+  avgLatencyMs: 100,
+  avgTokenCost: 30,
+};
+
+function bundle(): ExperimentBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: 1,
+    experiment: {
+      id: 'e',
+      name: 'review',
+      description: null,
+      status: 'active',
+      rewardPolicy: { type: 'success' },
+      posteriorFamily: 'beta-bernoulli',
+      driftPolicy: { mode: 'none' },
+      stoppingRule: { type: 'none' },
+      prunePolicy: {},
+      defaultVariantId: null,
+      createdAt: 1,
+    },
+    variants: ['a', 'b'].map(id => ({
+      id,
+      template: `Prompt ${id}`,
+      parentId: id === 'b' ? 'a' : null,
+      generation: id === 'b' ? 1 : 0,
+      posteriorFamily: null,
+      status: 'active',
+      inheritance: null,
+      rolloutTrials: null,
+      createdAt: 1,
+    })),
+    lineage: [
+      {
+        childId: 'b',
+        parentId: 'a',
+        parentIndex: 0,
+        operation: 'mutation',
+        operator: 'genome',
+        inputs: { seed: 1 },
+        timestamp: 2,
+      },
+    ],
+    performance: [{ variantId: 'a', ...STATS }],
+    feedback: [
+      {
+        taskId: 't',
+        variantId: 'a',
+        reward: 1,
+        latencyMs: 100,
+        tokenCost: 30,
+        success: true,
+        timestamp: 3,
+        assignment: null,
+      },
+    ],
+    preferences: [
+      { winnerId: 'b', loserId: 'a', context: null, humanFeedback: true, timestamp: 4 },
+    ],
+  };
+}
+
+describe('Experiment bundles', () => {
+  test('round-trips through JSON and NDJSON', () => {
+    const original = bundle();
+    expect(decodeBundle(encodeBundle(original))).toEqual(original);
+
+    const ndjson = encodeBundle(original, 'ndjson');
+    const lines = ndjson.trim().split('\n');
+    expect(lines).toHaveLength(7);
+    expect(JSON.parse(lines[0])).toMatchObject({ type: 'experiment', format: BUNDLE_FORMAT });
+    expect(JSON.parse(lines[4])).toMatchObject({ type: 'performance', variantId: 'a' });
+    expect(decodeBundle(ndjson)).toEqual(original);
+  });
+
+  test('rejects foreign, newer and inconsistent bundles', () => {
+    expect(() => decodeBundle('{"name":"x"}')).toThrow('Not an experiment bundle');
+    expect(() => decodeBundle('not json')).toThrow('Bundle is neither JSON nor NDJSON');
+    expect(() => decodeBundle(encodeBundle({ ...bundle(), version: BUNDLE_VERSION + 1 }))).toThrow(
+      `Bundle version ${BUNDLE_VERSION + 1} is newer than this plugin supports`
+    );
+
+    const dangling = bundle();
+    dangling.feedback[0].variantId = 'gone';
+    expect(() => decodeBundle(encodeBundle(dangling, 'ndjson'))).toThrow(
+      'Bundle feedback references unknown variant gone'
+    );
+
+    const lines = encodeBundle(bundle(), 'ndjson').trim().split('\n');
+    expect(() => decodeBundle([...lines, '{"type":"comment"}'].join('\n'))).toThrow(
+      'Unknown bundle record type "comment" on line 8'
+    );
+    expect(() => decodeBundle([lines[0], '{'].join('\n'))).toThrow('Invalid JSON on bundle line 2');
+  });
+
+  test('merging counts the prior once and weights averages by trials', () => {
+    const other = { ...STATS, alpha: 2, beta: 3, utilitySum: 1, totalTrials: 1, avgLatencyMs: 300 };
+    const merged = mergeStats(STATS, other);
+    expect(merged).toMatchObject({ alpha: 4, beta: 4, utilityN: 6, utilitySum: 3, totalTrials: 4 });
+    expect(merged.avgLatencyMs).toBe(150);
+    expect(merged.avgReward).toBeCloseTo(2 / 3, 10);
+
+    const empty = { ...STATS, alpha: 1, beta: 1, totalTrials: 0, avgReward: 0 };
+    expect(mergeStats(empty, empty).avgReward).toBe(0);
+  });
+});
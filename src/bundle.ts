@@ -0,0 +1,242 @@
+/**
+ * Portable experiment bundles
+ *
+ * A bundle carries one experiment out of its SQLite file: its settings,
+ * variants, lineage, cached performance, feedback (with the assignment each
+ * feedback was recorded against) and pairwise preferences. Bundles are
+ * versioned and encode either as one JSON document or as NDJSON, one record
+ * per line behind an `experiment` header line, which streams and diffs well.
+ *
+ * Decoding validates the structure and that every record refers to a variant
+ * of the bundle; policies are validated by the plugin on import.
+ */
+
+import type { StatsSnapshot } from './integrity';
+
+export const BUNDLE_FORMAT = 'ab-learning-experiment';
+export const BUNDLE_VERSION = 1;
+
+export type BundleEncoding = 'json' | 'ndjson';
+
+export interface BundleExperiment {
+  id: string;
+  name: string;
+  description: string | null;
+  status: string;
+  rewardPolicy: unknown;
+  posteriorFamily: string;
+  driftPolicy: unknown;
+  stoppingRule: unknown;
+  prunePolicy: unknown;
+  defaultVariantId: string | null;
+  createdAt: number;
+}
+
+export interface BundleVariant {
+  id: string;
+  template: string;
+  parentId: string | null;
+  generation: number;
+  posteriorFamily: string | null;
+  status: string;
+  inheritance: { section: string; parentId: string | null; modified: boolean }[] | null;
+  rolloutTrials: number | null;
+  createdAt: number;
+}
+
+export interface BundleLineage {
+  childId: string;
+  parentId: string;
+  parentIndex: number;
+  operation: string;
+  operator: string;
+  inputs: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface BundlePerformance extends StatsSnapshot {
+  variantId: string;
+}
+
+export interface BundleAssignment {
+  context: string;
+  candidateIds: string[] | null;
+  propensity: number | null;
+  selectionPolicy: string | null;
+  timestamp: number;
+}
+
+export interface BundleFeedback {
+  taskId: string;
+  variantId: string;
+  reward: number;
+  latencyMs: number;
+  tokenCost: number;
+  success: boolean;
+  timestamp: number;
+  assignment: BundleAssignment | null; // Null when the feedback had no assignment
+}
+
+export interface BundlePreference {
+  winnerId: string;
+  loserId: string;
+  context: string | null;
+  humanFeedback: boolean;
+  timestamp: number;
+}
+
+export interface ExperimentBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  experiment: BundleExperiment;
+  variants: BundleVariant[];
+  lineage: BundleLineage[];
+  performance: BundlePerformance[];
+  feedback: BundleFeedback[];
+  preferences: BundlePreference[];
+}
+
+// NDJSON record type of each bundle section
+const SECTIONS = {
+  variant: 'variants',
+  lineage: 'lineage',
+  performance: 'performance',
+  feedback: 'feedback',
+  preference: 'preferences',
+} as const;
+
+export function encodeBundle(bundle: ExperimentBundle, encoding: BundleEncoding = 'json'): string {
+  if (encoding === 'json') return JSON.stringify(bundle, null, 2);
+  if (encoding !== 'ndjson') {
+    throw new Error(`Unknown bundle encoding: ${encoding}`);
+  }
+
+  const { format, version, exportedAt, experiment } = bundle;
+  const lines = [JSON.stringify({ type: 'experiment', format, version, exportedAt, experiment })];
+  for (const [type, section] of Object.entries(SECTIONS)) {
+    for (const record of bundle[section]) {
+      lines.push(JSON.stringify({ type, ...record }));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse and validate a bundle in either encoding
+ */
+export function decodeBundle(text: string): ExperimentBundle {
+  const lines = text.split('\n').filter(line => line.trim() !== '');
+  const first = parseLine(lines[0] ?? '', 1);
+  if (first?.type !== 'experiment') {
+    return validateBundle(parseLine(text, null));
+  }
+
+  const bundle: any = {
+    format: first.format,
+    version: first.version,
+    exportedAt: first.exportedAt,
+    experiment: first.experiment,
+    variants: [],
+    lineage: [],
+    performance: [],
+    feedback: [],
+    preferences: [],
+  };
+  lines.slice(1).forEach((line, index) => {
+    const { type, ...record } = parseLine(line, index + 2) ?? {};
+    const section = SECTIONS[type as keyof typeof SECTIONS];
+    if (!section) {
+      throw new Error(`Unknown bundle record type ${JSON.stringify(type)} on line ${index + 2}`);
+    }
+    bundle[section].push(record);
+  });
+  return validateBundle(bundle);
+}
+
+function parseLine(text: string, line: number | null): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    if (line === null) throw new Error('Bundle is neither JSON nor NDJSON');
+    if (line === 1) return null;
+    throw new Error(`Invalid JSON on bundle line ${line}`);
+  }
+}
+
+/**
+ * Check an untrusted bundle's structure and internal references
+ */
+export function validateBundle(bundle: any): ExperimentBundle {
+  if (bundle?.format !== BUNDLE_FORMAT) {
+    throw new Error('Not an experiment bundle');
+  }
+  if (!Number.isInteger(bundle.version) || bundle.version < 1) {
+    throw new Error('Bundle version must be a positive integer');
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error(
+      `Bundle version ${bundle.version} is newer than this plugin supports (${BUNDLE_VERSION})`
+    );
+  }
+  if (typeof bundle.experiment?.id !== 'string' || typeof bundle.experiment.name !== 'string') {
+    throw new Error('Bundle experiment needs an id and a name');
+  }
+  for (const section of Object.values(SECTIONS)) {
+    if (!Array.isArray(bundle[section])) {
+      throw new Error(`Bundle ${section} must be an array`);
+    }
+  }
+
+  const ids = new Set<string>();
+  for (const variant of bundle.variants) {
+    if (typeof variant?.id !== 'string' || typeof variant.template !== 'string') {
+      throw new Error('Bundle variants need an id and a template');
+    }
+    if (ids.has(variant.id)) {
+      throw new Error(`Duplicate bundle variant ${variant.id}`);
+    }
+    ids.add(variant.id);
+  }
+  const known = (section: string, id: unknown) => {
+    if (typeof id !== 'string' || !ids.has(id)) {
+      throw new Error(`Bundle ${section} references unknown variant ${id}`);
+    }
+  };
+  for (const link of bundle.lineage) {
+    known('lineage', link?.childId);
+    known('lineage', link.parentId);
+  }
+  for (const perf of bundle.performance) known('performance', perf?.variantId);
+  for (const record of bundle.feedback) known('feedback', record?.variantId);
+  for (const preference of bundle.preferences) {
+    known('preference', preference?.winnerId);
+    known('preference', preference.loserId);
+  }
+  if (bundle.experiment.defaultVariantId != null) {
+    known('experiment', bundle.experiment.defaultVariantId);
+  }
+
+  return bundle as ExperimentBundle;
+}
+
+/**
+ * Pool two sets of evidence for the same prompt. Both include the Beta(1, 1)
+ * prior, which is counted once; averages are weighted by trials.
+ */
+export function mergeStats(a: StatsSnapshot, b: StatsSnapshot): StatsSnapshot {
+  const totalTrials = a.totalTrials + b.totalTrials;
+  const average = (x: number, y: number) =>
+    totalTrials === 0 ? 0 : (x * a.totalTrials + y * b.totalTrials) / totalTrials;
+  return {
+    alpha: a.alpha + b.alpha - 1,
+    beta: a.beta + b.beta - 1,
+    utilityN: a.utilityN + b.utilityN,
+    utilitySum: a.utilitySum + b.utilitySum,
+    utilitySumSq: a.utilitySumSq + b.utilitySumSq,
+    totalTrials,
+    avgReward: average(a.avgReward, b.avgReward),
+    avgLatencyMs: average(a.avgLatencyMs, b.avgLatencyMs),
+    avgTokenCost: average(a.avgTokenCost, b.avgTokenCost),
+  };
+}
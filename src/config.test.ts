@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { DEFAULT_CONFIG, configFromEnv, loadConfig, pickConfig, validateConfig } from './config';
+
+const CONFIG_PATH = '.opencode/test_config.json';
+
+describe('Plugin configuration', () => {
+  afterEach(() => {
+    rmSync(CONFIG_PATH, { force: true });
+  });
+
+  test('validates changes over a base and merges nested settings', () => {
+    const config = validateConfig({ explorationRate: 0.5, prunePolicy: { minTrials: 40 } });
+    expect(config.explorationRate).toBe(0.5);
+    expect(config.prunePolicy).toEqual({ ...DEFAULT_CONFIG.prunePolicy, minTrials: 40 });
+    expect(config.evolution.mutationRate).toBe(0.2);
+
+    const next = validateConfig({ evolution: { mutationRate: 0.4 } }, config);
+    expect(next.prunePolicy.minTrials).toBe(40);
+    expect(next.evolution.mutationRate).toBe(0.4);
+
+    expect(() => validateConfig({ temprature: 1 })).toThrow('Unknown config key: temprature');
+    expect(() => validateConfig({ temperature: 2.5 })).toThrow(
+      'Config temperature must be a number in [0, 2]'
+    );
+    expect(() => validateConfig({ evolution: 0.4 })).toThrow('Config evolution must be an object');
+    expect(() => validateConfig([])).toThrow('Config must be an object');
+    expect(() => validateConfig({ rolloutShare: 1.5 })).toThrow('Config rolloutShare must be');
+    expect(() => validateConfig({ minExplorationRate: 0.4 })).toThrow('minExplorationRate');
+    expect(() => validateConfig({ learningIntervalMs: 1.5 })).toThrow(
+      'Config learningIntervalMs must be an integer >= 0'
+    );
+    expect(() => validateConfig({ prunePolicy: { keepActive: 0 } })).toThrow('keepActive');
+  });
+
+  test('reads AB_LEARNING_* environment variables', () => {
+    expect(
+      configFromEnv({
+        AB_LEARNING_DB_PATH: '/tmp/ab.db',
+        AB_LEARNING_EXPLORATION_RATE: '0.2',
+        AB_LEARNING_PRUNE_POLICY: '{"minTrials":30}',
+        AB_LEARNING_ROLLOUT_SHARE: '',
+        UNRELATED: '1',
+      })
+    ).toEqual({ dbPath: '/tmp/ab.db', explorationRate: 0.2, prunePolicy: { minTrials: 30 } });
+    expect(() => configFromEnv({ AB_LEARNING_EVOLUTION: '{' })).toThrow(
+      'AB_LEARNING_EVOLUTION must be JSON'
+    );
+    expect(pickConfig({ seed: 1, rolloutShare: 0.1, dbPath: undefined })).toEqual({
+      rolloutShare: 0.1,
+    });
+  });
+
+  test('options override the environment, which overrides the file', () => {
+    mkdirSync('.opencode', { recursive: true });
+    writeFileSync(
+      CONFIG_PATH,
+      JSON.stringify({ explorationRate: 0.6, rolloutShare: 0.1, prunePolicy: { minTrials: 50 } })
+    );
+    const env = { AB_LEARNING_EXPLORATION_RATE: '0.4', AB_LEARNING_HUMAN_PREFERENCE_WEIGHT: '2' };
+
+    const config = loadConfig({ humanPreferenceWeight: 5 }, { file: CONFIG_PATH, env });
+    expect(config.rolloutShare).toBe(0.1);
+    expect(config.prunePolicy.minTrials).toBe(50);
+    expect(config.explorationRate).toBe(0.4);
+    expect(config.humanPreferenceWeight).toBe(5);
+
+    expect(loadConfig({}, { file: '.opencode/missing.json', env: {} })).toEqual(DEFAULT_CONFIG);
+    writeFileSync(CONFIG_PATH, '{ not json');
+    expect(() => loadConfig({}, { file: CONFIG_PATH, env: {} })).toThrow(
+      `Invalid config file ${CONFIG_PATH}`
+    );
+  });
+});
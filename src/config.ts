@@ -0,0 +1,194 @@
+/**
+ * Plugin configuration
+ *
+ * Every tunable the plugin reads lives in one validated PluginConfig. The
+ * effective config is built in layers, each overriding the last:
+ * 1. DEFAULT_CONFIG
+ * 2. The JSON file CONFIG_FILE (`.opencode/ab-learning.json`), when present
+ * 3. Environment variables named AB_LEARNING_ plus the key in upper snake
+ *    case, e.g. AB_LEARNING_EXPLORATION_RATE=0.2. Object keys take JSON.
+ * 4. Options passed to the plugin
+ *
+ * Nested prunePolicy and evolution settings merge field by field, so a layer
+ * only needs the fields it changes.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import {
+  DEFAULT_EVOLUTION_CONFIG,
+  validateEvolutionConfig,
+  type EvolutionConfig,
+} from './evolution';
+import { DEFAULT_PRUNE_POLICY, validatePrunePolicy, type PrunePolicy } from './pruning';
+
+export interface PluginConfig {
+  dbPath: string;
+  busyTimeoutMs: number; // How long a write waits for another session's lock
+  learningIntervalMs: number; // Period of the learning scheduler; 0 disables it
+  minNewFeedback: number; // New feedback records a scheduled learning run waits for
+  explorationRate: number; // Initial LinUCB α
+  minExplorationRate: number; // Floor of the decayed LinUCB α
+  explorationDecay: number; // Factor applied to α after every learning run
+  minTrialsBeforeExploitation: number; // Trials before a variant counts as evaluated for evolution
+  humanPreferenceWeight: number; // Weight of human-labelled comparisons relative to automatic ones
+  temperature: number; // Sampling temperature requested from the LLM for crossover and mutation
+  rolloutShare: number; // Traffic share reserved for variants in staged rollout
+  evolutionPopulationSize: number; // Population a learning run evolves
+  evolutionGenerations: number; // Generations per learning run
+  prunePolicy: PrunePolicy; // For experiments without a prune policy of their own
+  evolution: EvolutionConfig; // Defaults for evolve_prompts, e.g. the 0.2 mutation rate
+}
+
+export type PluginConfigInput = Partial<
+  Omit<PluginConfig, 'prunePolicy' | 'evolution'> & {
+    prunePolicy: Partial<PrunePolicy>;
+    evolution: Partial<EvolutionConfig>;
+  }
+>;
+
+export const CONFIG_FILE = '.opencode/ab-learning.json';
+export const ENV_PREFIX = 'AB_LEARNING_';
+
+export const DEFAULT_CONFIG: PluginConfig = {
+  dbPath: '.opencode/ab_learning.db',
+  busyTimeoutMs: 5000,
+  learningIntervalMs: 3600000,
+  minNewFeedback: 10,
+  explorationRate: 0.3,
+  minExplorationRate: 0.05,
+  explorationDecay: 0.95,
+  minTrialsBeforeExploitation: 10,
+  humanPreferenceWeight: 3.0,
+  temperature: 1.0,
+  rolloutShare: 0.2,
+  evolutionPopulationSize: 5,
+  evolutionGenerations: 2,
+  prunePolicy: DEFAULT_PRUNE_POLICY,
+  evolution: DEFAULT_EVOLUTION_CONFIG,
+};
+
+export const CONFIG_KEYS = Object.keys(DEFAULT_CONFIG) as (keyof PluginConfig)[];
+
+/**
+ * Apply untrusted config changes (e.g. tool input) on top of a base config
+ */
+export function validateConfig(
+  changes: unknown = {},
+  base: PluginConfig = DEFAULT_CONFIG
+): PluginConfig {
+  if (!isObject(changes)) {
+    throw new Error('Config must be an object');
+  }
+  for (const key of Object.keys(changes)) {
+    if (!CONFIG_KEYS.includes(key as keyof PluginConfig)) {
+      throw new Error(`Unknown config key: ${key}`);
+    }
+  }
+  const nested = (field: 'prunePolicy' | 'evolution') => {
+    const value = changes[field] ?? {};
+    if (!isObject(value)) {
+      throw new Error(`Config ${field} must be an object`);
+    }
+    return { ...base[field], ...value };
+  };
+
+  const merged: Record<string, unknown> = {
+    ...base,
+    ...changes,
+    prunePolicy: validatePrunePolicy(nested('prunePolicy')),
+    evolution: validateEvolutionConfig(nested('evolution')),
+  };
+  const integer = (field: keyof PluginConfig, min: number) => {
+    const value = merged[field];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+      throw new Error(`Config ${field} must be an integer >= ${min}`);
+    }
+  };
+  const number = (field: keyof PluginConfig, min: number, max: number = Infinity) => {
+    const value = merged[field];
+    if (typeof value !== 'number' || !(value >= min && value <= max)) {
+      throw new Error(`Config ${field} must be a number in [${min}, ${max}]`);
+    }
+  };
+
+  if (typeof merged.dbPath !== 'string' || merged.dbPath === '') {
+    throw new Error('Config dbPath must be a non-empty string');
+  }
+  integer('busyTimeoutMs', 0);
+  integer('learningIntervalMs', 0);
+  integer('minNewFeedback', 0);
+  number('explorationRate', 0, 1e6);
+  number('minExplorationRate', 0, merged.explorationRate as number);
+  number('explorationDecay', Number.MIN_VALUE, 1);
+  integer('minTrialsBeforeExploitation', 0);
+  number('humanPreferenceWeight', Number.MIN_VALUE, 1e6);
+  number('temperature', 0, 2);
+  number('rolloutShare', 0, 1);
+  integer('evolutionPopulationSize', 1);
+  integer('evolutionGenerations', 1);
+
+  return Object.fromEntries(CONFIG_KEYS.map(key => [key, merged[key]])) as unknown as PluginConfig;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The config keys among a wider options object
+ */
+export function pickConfig(options: Record<string, unknown>): PluginConfigInput {
+  return Object.fromEntries(
+    Object.entries(options).filter(
+      ([key, value]) => CONFIG_KEYS.includes(key as keyof PluginConfig) && value !== undefined
+    )
+  );
+}
+
+/**
+ * Config changes from AB_LEARNING_* environment variables
+ */
+export function configFromEnv(env: Record<string, string | undefined>): PluginConfigInput {
+  const changes: Record<string, unknown> = {};
+  for (const key of CONFIG_KEYS) {
+    const name = ENV_PREFIX + key.replace(/[A-Z]/g, c => `_${c}`).toUpperCase();
+    const raw = env[name];
+    if (raw === undefined || raw === '') continue;
+
+    const type = typeof DEFAULT_CONFIG[key];
+    if (type === 'string') {
+      changes[key] = raw;
+    } else if (type === 'number') {
+      changes[key] = Number(raw);
+    } else {
+      try {
+        changes[key] = JSON.parse(raw);
+      } catch {
+        throw new Error(`${name} must be JSON`);
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Effective config: defaults, then the config file, the environment and options
+ */
+export function loadConfig(
+  options: PluginConfigInput = {},
+  sources: { file?: string; env?: Record<string, string | undefined> } = {}
+): PluginConfig {
+  const file = sources.file ?? CONFIG_FILE;
+  let config = DEFAULT_CONFIG;
+  if (existsSync(file)) {
+    let contents: unknown;
+    try {
+      contents = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`Invalid config file ${file}: ${(error as Error).message}`);
+    }
+    config = validateConfig(contents, config);
+  }
+  config = validateConfig(configFromEnv(sources.env ?? process.env), config);
+  return validateConfig(options, config);
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  INITIAL_PAGE_HINKLEY,
+  PRIOR_EVIDENCE,
+  addObservation,
+  scaleEvidence,
+  updatePageHinkley,
+  validateDriftPolicy,
+} from './drift';
+
+describe('Drift handling', () => {
+  function run(values: number[]) {
+    let state = INITIAL_PAGE_HINKLEY;
+    const statistics: number[] = [];
+    for (const x of values) {
+      const result = updatePageHinkley(state, x, { delta: 0.005 });
+      state = result.state;
+      statistics.push(result.statistic);
+    }
+    return statistics;
+  }
+
+  test('Page-Hinkley stays quiet on a stationary stream', () => {
+    const statistics = run(Array.from({ length: 200 }, (_, i) => (i % 2 === 0 ? 0.4 : 0.6)));
+    expect(Math.max(...statistics)).toBeLessThan(1);
+  });
+
+  test('Page-Hinkley flags shifts in either direction', () => {
+    const up = run([...new Array(50).fill(0.2), ...new Array(20).fill(0.9)]);
+    const down = run([...new Array(50).fill(0.9), ...new Array(20).fill(0.2)]);
+    expect(up[up.length - 1]).toBeGreaterThan(5);
+    expect(down[down.length - 1]).toBeGreaterThan(5);
+  });
+
+  test('scaling evidence keeps the mean and widens the posterior', () => {
+    let evidence = PRIOR_EVIDENCE;
+    for (let i = 0; i < 20; i++) evidence = addObservation(evidence, i < 15 ? 1 : 0, true);
+    const widened = scaleEvidence(evidence, 0.1);
+
+    expect(widened.alpha).toBeCloseTo(2.5, 10);
+    expect(widened.beta).toBeCloseTo(1.5, 10);
+    expect(widened.sum / widened.n).toBeCloseTo(evidence.sum / evidence.n, 10);
+  });
+
+  test('validates policies and fills change detection defaults', () => {
+    const policy = validateDriftPolicy({ mode: 'discounted', gamma: 0.95, changeDetection: {} });
+    expect(policy.changeDetection).toEqual({
+      delta: 0.005,
+      threshold: 5,
+      minObservations: 10,
+      action: 'reset',
+      keepFraction: 0.1,
+    });
+    expect(() => validateDriftPolicy({ mode: 'sliding_window', windowMs: 0 })).toThrow('windowMs');
+    expect(() =>
+      validateDriftPolicy({
+        mode: 'sliding_window',
+        windowMs: 1000,
+        changeDetection: { action: 'widen' },
+      })
+    ).toThrow("'widen' is not supported");
+    expect(() => validateDriftPolicy({ mode: 'seasonal' })).toThrow('Unknown drift policy mode');
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Non-stationarity handling for variant posteriors
+ *
+ * - discounted: every observation in an experiment decays all of its
+ *   posteriors by γ before the new observation is added (Discounted TS)
+ * - sliding_window: posteriors are rebuilt from feedback inside a time window
+ * - Page-Hinkley change detection resets or widens a variant's posterior
+ *   when the mean of its utility shifts
+ */
+
+export interface ChangeDetectionConfig {
+  delta: number; // Tolerated drift per observation
+  threshold: number; // λ: cumulative deviation that signals a change
+  minObservations: number; // Observations before detection starts
+  action: 'reset' | 'widen';
+  keepFraction: number; // For 'widen': share of the evidence kept
+}
+
+export type DriftPolicy = (
+  | { mode: 'stationary' }
+  | { mode: 'discounted'; gamma: number }
+  | { mode: 'sliding_window'; windowMs: number }
+) & { changeDetection?: ChangeDetectionConfig };
+
+export const DEFAULT_DRIFT_POLICY: DriftPolicy = { mode: 'stationary' };
+
+export interface PageHinkleyState {
+  n: number;
+  mean: number;
+  cumulative: number; // mₜ = Σ (xᵢ − x̄ᵢ − δ) for increases
+  minCumulative: number;
+  cumulativeDown: number; // Σ (xᵢ − x̄ᵢ + δ) for decreases
+  maxCumulativeDown: number;
+}
+
+export const INITIAL_PAGE_HINKLEY: PageHinkleyState = {
+  n: 0,
+  mean: 0,
+  cumulative: 0,
+  minCumulative: 0,
+  cumulativeDown: 0,
+  maxCumulativeDown: 0,
+};
+
+/**
+ * Two-sided Page-Hinkley test. Returns the next state and the test statistic;
+ * a change is signalled when the statistic exceeds the threshold.
+ */
+export function updatePageHinkley(
+  state: PageHinkleyState,
+  x: number,
+  config: Pick<ChangeDetectionConfig, 'delta'>
+): { state: PageHinkleyState; statistic: number } {
+  const n = state.n + 1;
+  const mean = state.mean + (x - state.mean) / n;
+  const cumulative = state.cumulative + x - mean - config.delta;
+  const cumulativeDown = state.cumulativeDown + x - mean + config.delta;
+  const next = {
+    n,
+    mean,
+    cumulative,
+    minCumulative: Math.min(state.minCumulative, cumulative),
+    cumulativeDown,
+    maxCumulativeDown: Math.max(state.maxCumulativeDown, cumulativeDown),
+  };
+
+  const statistic = Math.max(
+    next.cumulative - next.minCumulative,
+    next.maxCumulativeDown - next.cumulativeDown
+  );
+  return { state: next, statistic };
+}
+
+/**
+ * Validate an untrusted drift policy (e.g. tool input), filling defaults
+ */
+export function validateDriftPolicy(policy: any): DriftPolicy {
+  let base: DriftPolicy;
+  switch (policy?.mode) {
+    case 'stationary':
+      base = { mode: 'stationary' };
+      break;
+    case 'discounted':
+      if (typeof policy.gamma !== 'number' || !(policy.gamma > 0 && policy.gamma <= 1)) {
+        throw new Error('Drift policy gamma must be in (0, 1]');
+      }
+      base = { mode: 'discounted', gamma: policy.gamma };
+      break;
+    case 'sliding_window':
+      if (typeof policy.windowMs !== 'number' || !(policy.windowMs > 0)) {
+        throw new Error('Drift policy windowMs must be a positive number');
+      }
+      base = { mode: 'sliding_window', windowMs: policy.windowMs };
+      break;
+    default:
+      throw new Error(`Unknown drift policy mode: ${policy?.mode}`);
+  }
+
+  if (policy.changeDetection) {
+    const cd = policy.changeDetection;
+    const action = cd.action ?? 'reset';
+    if (action !== 'reset' && action !== 'widen') {
+      throw new Error(`Unknown change detection action: ${action}`);
+    }
+    const changeDetection: ChangeDetectionConfig = {
+      delta: cd.delta ?? 0.005,
+      threshold: cd.threshold ?? 5,
+      minObservations: cd.minObservations ?? 10,
+      action,
+      keepFraction: cd.keepFraction ?? 0.1,
+    };
+    if (changeDetection.delta < 0 || changeDetection.threshold <= 0) {
+      throw new Error('Change detection needs delta >= 0 and threshold > 0');
+    }
+    if (!(changeDetection.keepFraction >= 0 && changeDetection.keepFraction <= 1)) {
+      throw new Error('Change detection keepFraction must be in [0, 1]');
+    }
+    if (action === 'widen' && base.mode === 'sliding_window') {
+      // Window posteriors are rebuilt from raw feedback, so there is nothing to widen
+      throw new Error("Change detection action 'widen' is not supported with a sliding window");
+    }
+    base.changeDetection = changeDetection;
+  }
+
+  return base;
+}
+
+/**
+ * Evidence behind a posterior: Beta pseudo-counts and utility sufficient statistics
+ */
+export interface PosteriorEvidence {
+  alpha: number;
+  beta: number;
+  n: number;
+  sum: number;
+  sumSq: number;
+}
+
+export const PRIOR_EVIDENCE: PosteriorEvidence = { alpha: 1, beta: 1, n: 0, sum: 0, sumSq: 0 };
+
+/**
+ * Keep a fraction of the evidence above the prior. Used for discounting (γ)
+ * and for widening a posterior after a change point: the mean is preserved
+ * while the variance grows.
+ */
+export function scaleEvidence(evidence: PosteriorEvidence, factor: number): PosteriorEvidence {
+  return {
+    alpha: 1 + factor * (evidence.alpha - 1),
+    beta: 1 + factor * (evidence.beta - 1),
+    n: factor * evidence.n,
+    sum: factor * evidence.sum,
+    sumSq: factor * evidence.sumSq,
+  };
+}
+
+/**
+ * Add one utility observation; Beta counts only move for bounded families
+ */
+export function addObservation(
+  evidence: PosteriorEvidence,
+  utility: number,
+  bounded: boolean
+): PosteriorEvidence {
+  return {
+    alpha: bounded ? evidence.alpha + utility : evidence.alpha,
+    beta: bounded ? evidence.beta + (1 - utility) : evidence.beta,
+    n: evidence.n + 1,
+    sum: evidence.sum + utility,
+    sumSq: evidence.sumSq + utility * utility,
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'bun:test';
+import { selectDuelingPair } from './dueling';
+
+// Deterministic sampler: Beta draws return their mean
+const meanSampler = {
+  beta: (a: number, b: number) => a / (a + b),
+  uniform: () => 0,
+};
+
+describe('Double Thompson Sampling', () => {
+  test('returns two distinct variants', () => {
+    const [first, second] = selectDuelingPair(
+      [
+        [0, 0],
+        [0, 0],
+      ],
+      meanSampler
+    );
+    expect(first).not.toBe(second);
+  });
+
+  test('pits the likely winner against its closest challenger', () => {
+    // 0 beats everyone, 1 is competitive with 0, 2 always loses
+    const wins = [
+      [0, 12, 30],
+      [10, 0, 30],
+      [0, 0, 0],
+    ];
+    const [first, second] = selectDuelingPair(wins, meanSampler);
+    expect(first).toBe(0);
+    expect(second).toBe(1);
+  });
+
+  test('requires at least two variants', () => {
+    expect(() => selectDuelingPair([[0]], meanSampler)).toThrow('At least two variants');
+  });
+});
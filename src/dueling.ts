@@ -0,0 +1,88 @@
+/**
+ * Double Thompson Sampling for dueling bandits (Wu & Liu, 2016)
+ *
+ * Chooses which two variants a reviewer should compare next, using the
+ * pairwise win counts from preference_comparisons:
+ * 1. Restrict the first candidate to plausible Copeland winners (UCB)
+ * 2. Pick the first candidate by Copeland score under sampled win rates
+ * 3. Pick the second candidate as the most likely challenger to the first,
+ *    among variants not already known to lose to it (LCB)
+ */
+
+export interface DuelingOptions {
+  alpha?: number; // Confidence-bound width, > 0.5
+}
+
+export interface DuelingSampler {
+  beta(alpha: number, beta: number): number;
+  uniform(): number;
+}
+
+/**
+ * Select two distinct indices into variantIds.
+ * wins[i][j] is the (weighted) number of times i beat j.
+ */
+export function selectDuelingPair(
+  wins: number[][],
+  sampler: DuelingSampler,
+  options: DuelingOptions = {}
+): [number, number] {
+  const k = wins.length;
+  if (k < 2) {
+    throw new Error('At least two variants are required to select a pair');
+  }
+  const alpha = options.alpha ?? 0.51;
+  const total = Math.max(
+    1,
+    wins.reduce((sum, row) => sum + row.reduce((a, b) => a + b, 0), 0)
+  );
+
+  const bound = (i: number, j: number, sign: 1 | -1): number => {
+    const n = wins[i][j] + wins[j][i];
+    if (n === 0) return sign > 0 ? 1 : 0;
+    return wins[i][j] / n + sign * Math.sqrt((alpha * Math.log(total + 1)) / n);
+  };
+
+  // Plausible Copeland winners under optimistic win rates
+  const upperCopeland = range(k).map(
+    i => range(k).filter(j => j !== i && bound(i, j, 1) > 0.5).length
+  );
+  const bestUpper = Math.max(...upperCopeland);
+  const candidates = range(k).filter(i => upperCopeland[i] === bestUpper);
+
+  // Sampled pairwise win rates θᵢⱼ with θⱼᵢ = 1 − θᵢⱼ
+  const theta: number[][] = range(k).map(() => new Array(k).fill(0.5));
+  for (let i = 0; i < k; i++) {
+    for (let j = i + 1; j < k; j++) {
+      theta[i][j] = sampler.beta(wins[i][j] + 1, wins[j][i] + 1);
+      theta[j][i] = 1 - theta[i][j];
+    }
+  }
+  const sampledCopeland = candidates.map(
+    i => range(k).filter(j => j !== i && theta[i][j] > 0.5).length
+  );
+  const first = pickMax(candidates, sampledCopeland, sampler);
+
+  // Challengers not already confidently beaten by the first candidate
+  let challengers = range(k).filter(i => i !== first && bound(i, first, -1) <= 0.5);
+  if (challengers.length === 0) challengers = range(k).filter(i => i !== first);
+  const challengeSamples = challengers.map(i =>
+    sampler.beta(wins[i][first] + 1, wins[first][i] + 1)
+  );
+  const second = pickMax(challengers, challengeSamples, sampler);
+
+  return [first, second];
+}
+
+function range(n: number): number[] {
+  return Array.from({ length: n }, (_, i) => i);
+}
+
+/**
+ * Element of items with the highest score, breaking ties uniformly at random
+ */
+function pickMax(items: number[], scores: number[], sampler: DuelingSampler): number {
+  const best = Math.max(...scores);
+  const tied = items.filter((_, i) => scores[i] === best);
+  return tied[Math.floor(sampler.uniform() * tied.length)];
+}
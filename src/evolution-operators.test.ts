@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test';
+import { GenomeEvolutionOperator, LLMEvolutionOperator } from './evolution-operators';
+import { parseGenome } from './genome';
+import { StubLLMProvider } from './llm-provider';
+import { seededRandom } from './random';
+
+describe('LLMEvolutionOperator', () => {
+  test('retries empty responses and strips code fences', async () => {
+    const provider = new StubLLMProvider(['', '   ', '```\nBe precise.\n```']);
+    const operator = new LLMEvolutionOperator(provider);
+
+    expect(await operator.mutate('Be concise.')).toBe('Be precise.');
+    expect(provider.calls).toHaveLength(3);
+    expect(provider.calls[0]).toContain('Be concise.');
+  });
+
+  test('rejects responses over the length limit', async () => {
+    const provider = new StubLLMProvider(['x'.repeat(50)]);
+    const operator = new LLMEvolutionOperator(provider, { maxPromptLength: 20, maxAttempts: 2 });
+
+    await expect(operator.crossover('A', 'B')).rejects.toThrow(
+      'no valid prompt after 2 attempts (50 characters exceeds limit of 20; 50 characters exceeds limit of 20)'
+    );
+  });
+
+  test('stub provider is deterministic', async () => {
+    const first = await new StubLLMProvider().complete('same prompt');
+    const second = await new StubLLMProvider().complete('same prompt');
+    expect(first).toBe(second);
+  });
+});
+
+describe('Template placeholders in evolution', () => {
+  test('LLM offspring that change placeholders are retried', async () => {
+    const provider = new StubLLMProvider([
+      'Review the patch carefully.',
+      'Review {{diff}} written in {{lang}}.',
+      'Review {{diff}} carefully.',
+    ]);
+    const operator = new LLMEvolutionOperator(provider);
+
+    expect(await operator.mutate('Review {{diff}}.')).toBe('Review {{diff}} carefully.');
+    expect(provider.calls[0]).toContain('Keep the placeholders {{diff}} exactly as written');
+  });
+
+  test('gives up when every attempt breaks the placeholders', async () => {
+    const operator = new LLMEvolutionOperator(new StubLLMProvider(['Review the code.']), {
+      maxAttempts: 1,
+    });
+
+    await expect(operator.crossover('Review {{diff}}', 'Check {{diff}}')).rejects.toThrow(
+      'placeholders changed: dropped {{diff}}'
+    );
+  });
+});
+
+describe('GenomeEvolutionOperator', () => {
+  const parentA = 'You are a reviewer.\n\nReview {{diff}}.\n\n## Constraints\n- Be concise.';
+  const parentB =
+    '## Role\nYou are a tester.\n\n## Instructions\nTest {{diff}}.\n\n## Output format\nJSON.';
+
+  test('seeded offspring are reproducible and keep placeholders', async () => {
+    const operator = new GenomeEvolutionOperator({ examples: ['Example: null check'] });
+
+    for (let seed = 1; seed <= 20; seed++) {
+      const child = await operator.crossover(parentA, parentB, seededRandom(seed));
+      expect(await operator.crossover(parentA, parentB, seededRandom(seed))).toBe(child);
+      expect(child).toContain('{{diff}}');
+
+      const mutant = await operator.mutate(child, seededRandom(seed));
+      expect(await operator.mutate(child, seededRandom(seed))).toBe(mutant);
+      expect(mutant).not.toBe(child);
+      expect(mutant).toContain('{{diff}}');
+    }
+  });
+
+  test('mutations draw from the constraint and example pools', async () => {
+    const operator = new GenomeEvolutionOperator({
+      constraints: ['Cite line numbers.'],
+      examples: ['Example: null check'],
+    });
+    const mutants = await Promise.all(
+      Array.from({ length: 30 }, (_, seed) => operator.mutate(parentA, seededRandom(seed)))
+    );
+    const constraints = mutants.map(m =>
+      parseGenome(m).sections.find(s => s.type === 'constraints')
+    );
+
+    expect(constraints.some(c => c?.items.includes('Cite line numbers.'))).toBe(true);
+    expect(mutants.some(m => m.includes('## Examples\nExample: null check'))).toBe(true);
+    // The instructions hold the only placeholder, so they are never deleted
+    expect(mutants.every(m => m.includes('Review {{diff}}.'))).toBe(true);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Genetic operators for prompt evolution
+ *
+ * LLMEvolutionOperator asks a model to recombine or mutate prompts and
+ * validates what comes back, including that template placeholders survive.
+ * GenomeEvolutionOperator recombines and mutates the typed sections of a
+ * prompt genome without any model access. OfflineEvolutionOperator keeps the
+ * original string-appending behavior.
+ */
+
+import {
+  deleteSection,
+  insertExample,
+  parseGenome,
+  renderGenome,
+  singlePointCrossover,
+  swapSections,
+  toggleConstraint,
+  uniformCrossover,
+  type PromptGenome,
+} from './genome';
+import type { LLMProvider } from './llm-provider';
+import type { RandomSource } from './random';
+import { checkOffspringTemplate, templateVariables } from './template';
+
+/** random is the evolution run's seeded stream, for operators that choose randomly */
+export interface EvolutionOperator {
+  readonly name: string;
+  crossover(parentA: string, parentB: string, random?: RandomSource): Promise<string>;
+  mutate(prompt: string, random?: RandomSource): Promise<string>;
+}
+
+export interface LLMEvolutionOptions {
+  maxPromptLength?: number; // Characters; longer responses are rejected
+  maxAttempts?: number; // Model calls per operation before giving up
+  temperature?: number; // Passed to the provider; its own default when omitted
+}
+
+/**
+ * Crossover and mutation performed by an LLM
+ */
+export class LLMEvolutionOperator implements EvolutionOperator {
+  readonly name: string;
+  private maxPromptLength: number;
+  private maxAttempts: number;
+  temperature: number | undefined;
+
+  constructor(
+    readonly provider: LLMProvider,
+    options: LLMEvolutionOptions = {}
+  ) {
+    this.name = `llm:${provider.name}`;
+    this.maxPromptLength = options.maxPromptLength ?? 4000;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.temperature = options.temperature;
+  }
+
+  crossover(parentA: string, parentB: string): Promise<string> {
+    return this.generate('crossover', buildCrossoverPrompt(parentA, parentB), [parentA, parentB]);
+  }
+
+  mutate(prompt: string): Promise<string> {
+    return this.generate('mutation', buildMutationPrompt(prompt), [prompt]);
+  }
+
+  private async generate(operation: string, request: string, parents: string[]): Promise<string> {
+    const rejections: string[] = [];
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const candidate = cleanResponse(
+        await this.provider.complete(
+          request,
+          this.temperature === undefined ? undefined : { temperature: this.temperature }
+        )
+      );
+
+      if (candidate.length === 0) {
+        rejections.push('empty response');
+      } else if (candidate.length > this.maxPromptLength) {
+        rejections.push(`${candidate.length} characters exceeds limit of ${this.maxPromptLength}`);
+      } else {
+        const problem = checkOffspringTemplate(parents, candidate);
+        if (!problem) return candidate;
+        rejections.push(problem);
+      }
+    }
+
+    throw new Error(
+      `LLM ${operation} produced no valid prompt after ${this.maxAttempts} attempts (${rejections.join('; ')})`
+    );
+  }
+}
+
+export interface GenomeEvolutionOptions {
+  constraints?: string[]; // Pool for constraint toggling
+  examples?: string[]; // Pool for example insertion; insertion is skipped when empty
+  maxAttempts?: number; // Draws per operation before returning the parent unchanged
+}
+
+export const DEFAULT_CONSTRAINT_POOL = [
+  'Be concise.',
+  'Focus on performance.',
+  'Consider edge cases.',
+  'Use modern patterns.',
+  'Optimize for readability.',
+];
+
+type GenomeMutation = (genome: PromptGenome, random: RandomSource) => PromptGenome;
+
+/**
+ * Section-level crossover and mutation on parsed prompt genomes. Offspring that
+ * would drop or invent template placeholders are redrawn.
+ */
+export class GenomeEvolutionOperator implements EvolutionOperator {
+  readonly name = 'genome';
+  private constraints: string[];
+  private examples: string[];
+  private maxAttempts: number;
+
+  constructor(options: GenomeEvolutionOptions = {}) {
+    this.constraints = options.constraints ?? DEFAULT_CONSTRAINT_POOL;
+    this.examples = options.examples ?? [];
+    this.maxAttempts = options.maxAttempts ?? 10;
+  }
+
+  async crossover(
+    parentA: string,
+    parentB: string,
+    random: RandomSource = Math.random
+  ): Promise<string> {
+    const a = parseGenome(parentA);
+    const b = parseGenome(parentB);
+    return this.draw([parentA, parentB], parentA, () => {
+      const cross = random() < 0.5 ? uniformCrossover : singlePointCrossover;
+      return renderGenome(cross(a, b, random));
+    });
+  }
+
+  async mutate(prompt: string, random: RandomSource = Math.random): Promise<string> {
+    const genome = parseGenome(prompt);
+    const mutations: GenomeMutation[] = [
+      swapSections,
+      (g, r) =>
+        deleteSection(g, r, section => templateVariables(section.items.join('\n')).length > 0),
+      (g, r) => toggleConstraint(g, pick(this.constraints, r)),
+    ];
+    if (this.examples.length > 0) {
+      mutations.push((g, r) => insertExample(g, pick(this.examples, r), r));
+    }
+    return this.draw([prompt], prompt, () => renderGenome(pick(mutations, random)(genome, random)));
+  }
+
+  /**
+   * First offspring that differs from its parents and keeps their placeholders
+   */
+  private draw(parents: string[], fallback: string, generate: () => string): string {
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const offspring = generate();
+      if (!parents.includes(offspring) && !checkOffspringTemplate(parents, offspring)) {
+        return offspring;
+      }
+    }
+    return fallback;
+  }
+}
+
+/**
+ * Offline fallback: append text instead of calling a model
+ */
+export class OfflineEvolutionOperator implements EvolutionOperator {
+  readonly name = 'offline';
+
+  async crossover(parentA: string, parentB: string): Promise<string> {
+    return `${parentA}\n\nAdditionally: ${parentB.split('\n')[0]}`;
+  }
+
+  async mutate(prompt: string, random: RandomSource = Math.random): Promise<string> {
+    const mutations = [
+      ' Be concise.',
+      ' Focus on performance.',
+      ' Consider edge cases.',
+      ' Use modern patterns.',
+      ' Optimize for readability.',
+    ];
+    return prompt + mutations[Math.floor(random() * mutations.length)];
+  }
+}
+
+export function buildCrossoverPrompt(promptA: string, promptB: string): string {
+  return `
+Generate a new prompt that combines the best aspects of these two prompts:
+
+Prompt A: ${promptA}
+
+Prompt B: ${promptB}
+
+Create a hybrid prompt that:
+1. Takes the clearest instructions from both
+2. Maintains the most effective phrasing
+3. Preserves key constraints and requirements
+4. Results in a prompt that could outperform both parents
+
+${placeholderInstruction([promptA, promptB])}Return ONLY the new hybrid prompt, no explanation.
+`;
+}
+
+export function buildMutationPrompt(prompt: string): string {
+  return `
+Improve this prompt with a small random mutation:
+
+${prompt}
+
+Make ONE of these changes:
+1. Rephrase for clarity
+2. Add a helpful constraint
+3. Remove redundancy
+4. Adjust tone/style
+5. Add example format
+
+${placeholderInstruction([prompt])}Return ONLY the mutated prompt, no explanation.
+`;
+}
+
+/**
+ * Tell the model which {{placeholders}} it must copy verbatim
+ */
+function placeholderInstruction(prompts: string[]): string {
+  const variables = [...new Set(prompts.flatMap(templateVariables))];
+  if (variables.length === 0) return '';
+  const list = variables.map(name => `{{${name}}}`).join(', ');
+  return `Keep the placeholders ${list} exactly as written; do not add new ones.\n\n`;
+}
+
+function pick<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Strip whitespace and a wrapping code fence, which models add despite instructions
+ */
+function cleanResponse(response: string): string {
+  const trimmed = response.trim();
+  const fenced = trimmed.match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+  return (fenced ? fenced[1] : trimmed).trim();
+}
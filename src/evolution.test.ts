@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_EVOLUTION_CONFIG,
+  adaptMutationRate,
+  populationDiversity,
+  selectIndex,
+  sharedFitness,
+  textSimilarity,
+  validateEvolutionConfig,
+} from './evolution';
+import { seededRandom } from './random';
+
+describe('Genetic algorithm helpers', () => {
+  test('validates settings and fills defaults', () => {
+    expect(validateEvolutionConfig()).toEqual(DEFAULT_EVOLUTION_CONFIG);
+    expect(validateEvolutionConfig({ selection: 'rank', eliteCount: 0 }).selection).toBe('rank');
+    expect(() => validateEvolutionConfig({ selection: 'random' })).toThrow(
+      'Unknown selection scheme: random'
+    );
+    expect(() => validateEvolutionConfig({ eliteCount: 1.5 })).toThrow('eliteCount');
+    expect(() => validateEvolutionConfig({ mutationRate: 2 })).toThrow('mutationRate');
+    expect(() => validateEvolutionConfig({ minMutationRate: 0.5, maxMutationRate: 0.1 })).toThrow(
+      'must not exceed'
+    );
+  });
+
+  test('text similarity and diversity', () => {
+    expect(textSimilarity('Review the diff', 'review THE diff')).toBe(1);
+    expect(textSimilarity('Review the diff', 'Write tests')).toBe(0);
+    expect(textSimilarity('a b c', 'a b d')).toBeCloseTo(0.5, 10);
+    expect(populationDiversity(['a b', 'a b'])).toBe(0);
+    expect(populationDiversity(['a', 'b', 'c'])).toBe(1);
+    expect(populationDiversity(['only one'])).toBe(0);
+  });
+
+  test('near-duplicates share their fitness', () => {
+    const texts = [
+      'Review the diff for bugs',
+      'Review the diff for bugs',
+      'Write unit tests first',
+    ];
+    const shared = sharedFitness([0.8, 0.8, 0.6], texts, 0.5);
+
+    expect(shared[0]).toBeCloseTo(0.4, 10);
+    expect(shared[1]).toBeCloseTo(0.4, 10);
+    expect(shared[2]).toBeCloseTo(0.6, 10);
+    expect(sharedFitness([0.8, 0.8], texts.slice(0, 2), 0)).toEqual([0.8, 0.8]);
+  });
+
+  test('selection schemes favour fitter individuals', () => {
+    const fitness = [0.1, 0.2, 0.7];
+    for (const scheme of ['tournament', 'rank', 'roulette'] as const) {
+      const random = seededRandom(17);
+      const counts = [0, 0, 0];
+      for (let i = 0; i < 3000; i++) counts[selectIndex(fitness, scheme, random)]++;
+      expect(counts[2]).toBeGreaterThan(counts[1]);
+      expect(counts[1]).toBeGreaterThan(counts[0]);
+    }
+
+    // Roulette is proportional to fitness, rank to position
+    const random = seededRandom(5);
+    const roulette = [0, 0, 0];
+    const rank = [0, 0, 0];
+    for (let i = 0; i < 6000; i++) {
+      roulette[selectIndex(fitness, 'roulette', random)]++;
+      rank[selectIndex(fitness, 'rank', random)]++;
+    }
+    expect(roulette[2] / 6000).toBeCloseTo(0.7, 1);
+    expect(rank[2] / 6000).toBeCloseTo(0.5, 1);
+    expect(() => selectIndex([], 'rank', random)).toThrow('empty population');
+  });
+
+  test('mutation rate adapts to diversity within bounds', () => {
+    const config = { diversityTarget: 0.3, minMutationRate: 0.05, maxMutationRate: 0.5 };
+
+    expect(adaptMutationRate(0.2, 0.1, config)).toBeCloseTo(0.3, 10);
+    expect(adaptMutationRate(0.2, 0.6, config)).toBeCloseTo(0.16, 10);
+    expect(adaptMutationRate(0.4, 0, config)).toBe(0.5);
+    expect(adaptMutationRate(0.05, 1, config)).toBe(0.05);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Population-based genetic algorithm helpers
+ *
+ * - Fitness sharing: fᵢ' = fᵢ / Σⱼ sh(dᵢⱼ), with text distance d = 1 − Jaccard
+ *   similarity of word sets and sh(d) = 1 − d/σ for d < σ, so near-duplicate
+ *   prompts split their fitness and the population does not collapse
+ * - Selection: tournament, linear rank or roulette wheel over shared fitness
+ * - Adaptive mutation: the rate grows while population diversity is below a
+ *   target and decays while it is above
+ */
+
+import type { RandomSource } from './random';
+
+export type SelectionScheme = 'tournament' | 'rank' | 'roulette';
+
+export interface EvolutionConfig {
+  eliteCount: number; // Best individuals copied unchanged into every generation
+  selection: SelectionScheme;
+  tournamentSize: number;
+  mutationRate: number; // Starting rate; adaptive runs continue from the last run's rate
+  adaptiveMutation: boolean;
+  minMutationRate: number;
+  maxMutationRate: number;
+  diversityTarget: number; // Mean pairwise text distance the adaptive rate aims for
+  sharingRadius: number; // σ: text distance below which individuals share fitness
+  rolloutTrials: number; // Trials an offspring gets in staged rollout before competing
+}
+
+export const DEFAULT_EVOLUTION_CONFIG: EvolutionConfig = {
+  eliteCount: 1,
+  selection: 'tournament',
+  tournamentSize: 3,
+  mutationRate: 0.2,
+  adaptiveMutation: true,
+  minMutationRate: 0.05,
+  maxMutationRate: 0.8,
+  diversityTarget: 0.3,
+  sharingRadius: 0.2,
+  rolloutTrials: 20,
+};
+
+/**
+ * Validate untrusted evolution settings (e.g. tool input), filling defaults
+ */
+export function validateEvolutionConfig(config: any = {}): EvolutionConfig {
+  const merged = { ...DEFAULT_EVOLUTION_CONFIG, ...config };
+  const integer = (field: keyof EvolutionConfig, min: number) => {
+    const value = merged[field];
+    if (!Number.isInteger(value) || value < min) {
+      throw new Error(`Evolution ${field} must be an integer >= ${min}`);
+    }
+  };
+  const unit = (field: keyof EvolutionConfig) => {
+    const value = merged[field];
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+      throw new Error(`Evolution ${field} must be in [0, 1]`);
+    }
+  };
+
+  if (!['tournament', 'rank', 'roulette'].includes(merged.selection)) {
+    throw new Error(`Unknown selection scheme: ${merged.selection}`);
+  }
+  integer('eliteCount', 0);
+  integer('tournamentSize', 1);
+  integer('rolloutTrials', 0);
+  for (const field of [
+    'mutationRate',
+    'minMutationRate',
+    'maxMutationRate',
+    'diversityTarget',
+    'sharingRadius',
+  ] as const) {
+    unit(field);
+  }
+  if (merged.minMutationRate > merged.maxMutationRate) {
+    throw new Error('Evolution minMutationRate must not exceed maxMutationRate');
+  }
+  if (typeof merged.adaptiveMutation !== 'boolean') {
+    throw new Error('Evolution adaptiveMutation must be a boolean');
+  }
+  return {
+    eliteCount: merged.eliteCount,
+    selection: merged.selection,
+    tournamentSize: merged.tournamentSize,
+    mutationRate: merged.mutationRate,
+    adaptiveMutation: merged.adaptiveMutation,
+    minMutationRate: merged.minMutationRate,
+    maxMutationRate: merged.maxMutationRate,
+    diversityTarget: merged.diversityTarget,
+    sharingRadius: merged.sharingRadius,
+    rolloutTrials: merged.rolloutTrials,
+  };
+}
+
+/**
+ * Jaccard similarity of the lower-cased word sets of two texts
+ */
+export function textSimilarity(a: string, b: string): number {
+  const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}_{}]+/gu) ?? []);
+  const setA = words(a);
+  const setB = words(b);
+  if (setA.size === 0 && setB.size === 0) return 1;
+  let shared = 0;
+  for (const word of setA) if (setB.has(word)) shared++;
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Mean pairwise text distance; 0 for fewer than two texts
+ */
+export function populationDiversity(texts: string[]): number {
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < texts.length; i++) {
+    for (let j = i + 1; j < texts.length; j++) {
+      total += 1 - textSimilarity(texts[i], texts[j]);
+      pairs++;
+    }
+  }
+  return pairs > 0 ? total / pairs : 0;
+}
+
+/**
+ * Fitness divided by each individual's niche count
+ */
+export function sharedFitness(fitness: number[], texts: string[], radius: number): number[] {
+  return fitness.map((f, i) => {
+    let niche = 1; // sh(0) for the individual itself
+    for (let j = 0; j < texts.length; j++) {
+      const distance = 1 - textSimilarity(texts[i], texts[j]);
+      if (j !== i && distance < radius) niche += 1 - distance / radius;
+    }
+    return f / niche;
+  });
+}
+
+/**
+ * Index of one parent chosen by the given scheme
+ */
+export function selectIndex(
+  fitness: number[],
+  scheme: SelectionScheme,
+  random: RandomSource,
+  tournamentSize: number = 3
+): number {
+  const n = fitness.length;
+  if (n === 0) throw new Error('Cannot select from an empty population');
+
+  if (scheme === 'tournament') {
+    let best = Math.floor(random() * n);
+    for (let k = 1; k < tournamentSize; k++) {
+      const contestant = Math.floor(random() * n);
+      if (fitness[contestant] > fitness[best]) best = contestant;
+    }
+    return best;
+  }
+
+  // Rank: weight n for the fittest down to 1; roulette: fitness shifted to be non-negative
+  let weights: number[];
+  if (scheme === 'rank') {
+    const order = fitness.map((_, i) => i).sort((a, b) => fitness[a] - fitness[b]);
+    weights = new Array(n);
+    order.forEach((index, rank) => (weights[index] = rank + 1));
+  } else {
+    const low = Math.min(0, ...fitness);
+    weights = fitness.map(f => f - low);
+  }
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total <= 0) return Math.floor(random() * n);
+
+  let target = random() * total;
+  for (let i = 0; i < n; i++) {
+    target -= weights[i];
+    if (target < 0) return i;
+  }
+  return n - 1;
+}
+
+/**
+ * Next mutation rate: raise it while diversity is below target, lower it otherwise
+ */
+export function adaptMutationRate(
+  rate: number,
+  diversity: number,
+  config: Pick<EvolutionConfig, 'diversityTarget' | 'minMutationRate' | 'maxMutationRate'>
+): number {
+  const next = diversity < config.diversityTarget ? rate * 1.5 : rate * 0.8;
+  return Math.min(config.maxMutationRate, Math.max(config.minMutationRate, next));
+}
@@ -0,0 +1,143 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  deleteSection,
+  insertExample,
+  parseGenome,
+  renderGenome,
+  singlePointCrossover,
+  swapSections,
+  toggleConstraint,
+  traceInheritance,
+  uniformCrossover,
+} from './genome';
+import { seededRandom } from './random';
+
+const REVIEWER = `You are a senior reviewer.
+
+Review {{diff}} for bugs.
+
+## Constraints
+- Be concise.
+* Cite line numbers.
+
+Examples:
+Bug: off-by-one in loop
+
+Bug: missing null check
+
+Output format:
+A bullet list of findings.`;
+
+const TESTER = `## Role
+You are a test engineer.
+
+## Instructions
+Write tests for {{diff}}.
+
+## Output format
+One test file.`;
+
+describe('Prompt genome', () => {
+  test('parses typed sections with their items', () => {
+    const genome = parseGenome(REVIEWER);
+
+    expect(genome.sections.map(s => s.type)).toEqual([
+      'role',
+      'instructions',
+      'constraints',
+      'examples',
+      'output_format',
+    ]);
+    expect(genome.sections[0]).toEqual({
+      type: 'role',
+      heading: null,
+      items: ['You are a senior reviewer.'],
+    });
+    expect(genome.sections[2].items).toEqual(['Be concise.', 'Cite line numbers.']);
+    expect(genome.sections[3].items).toEqual([
+      'Bug: off-by-one in loop',
+      'Bug: missing null check',
+    ]);
+    expect(parseGenome('Review the diff.').sections).toEqual([
+      { type: 'instructions', heading: null, items: ['Review the diff.'] },
+    ]);
+  });
+
+  test('rendering round-trips through the parser', () => {
+    for (const prompt of [REVIEWER, TESTER, 'Review the diff.']) {
+      const genome = parseGenome(prompt);
+      expect(parseGenome(renderGenome(genome))).toEqual(genome);
+    }
+    expect(renderGenome(parseGenome(TESTER))).toBe(TESTER);
+  });
+
+  test('crossovers take whole sections and are deterministic when seeded', () => {
+    const a = parseGenome(REVIEWER);
+    const b = parseGenome(TESTER);
+
+    for (const cross of [uniformCrossover, singlePointCrossover]) {
+      const child = cross(a, b, seededRandom(3));
+      expect(cross(a, b, seededRandom(3))).toEqual(child);
+      for (const section of child.sections) {
+        expect([...a.sections, ...b.sections]).toContainEqual(section);
+      }
+    }
+
+    // Single-point: a prefix of section types from a, the rest from b
+    const child = singlePointCrossover(a, b, seededRandom(8));
+    const origins = traceInheritance([a, b], child).map(i => i.parent);
+    expect(origins).toEqual([...origins].sort());
+  });
+
+  test('section mutations', () => {
+    const genome = parseGenome(REVIEWER);
+
+    const swapped = swapSections(genome, seededRandom(1));
+    expect(swapped.sections.map(s => s.type).sort()).toEqual(
+      genome.sections.map(s => s.type).sort()
+    );
+    expect(swapped).not.toEqual(genome);
+    expect(parseGenome(renderGenome(swapped)).sections.map(s => s.type)).toEqual(
+      swapped.sections.map(s => s.type)
+    );
+
+    const deleted = deleteSection(genome, seededRandom(2), s => s.type === 'instructions');
+    expect(deleted.sections).toHaveLength(4);
+    expect(deleted.sections.some(s => s.type === 'instructions')).toBe(true);
+
+    const withExample = insertExample(parseGenome(TESTER), 'test("adds", ...)', seededRandom(1));
+    expect(withExample.sections.map(s => s.type)).toEqual([
+      'role',
+      'instructions',
+      'examples',
+      'output_format',
+    ]);
+
+    const without = toggleConstraint(genome, 'Be concise.');
+    expect(without.sections[2].items).toEqual(['Cite line numbers.']);
+    expect(toggleConstraint(without, 'Be concise.').sections[2].items).toEqual([
+      'Cite line numbers.',
+      'Be concise.',
+    ]);
+    expect(renderGenome(toggleConstraint(parseGenome('Review.'), 'Be concise.'))).toBe(
+      'Review.\n\n## Constraints\n- Be concise.'
+    );
+  });
+
+  test('inheritance traces each section to its parent', () => {
+    const a = parseGenome(REVIEWER);
+    const b = parseGenome(TESTER);
+    const child = toggleConstraint(
+      { sections: [b.sections[0], a.sections[1], a.sections[2]] },
+      'Be brief.'
+    );
+    child.sections.push({ type: 'examples', heading: '## Examples', items: ['new'] });
+
+    expect(traceInheritance([a, b], child)).toEqual([
+      { section: 'role', parent: 1, modified: false },
+      { section: 'instructions', parent: 0, modified: false },
+      { section: 'constraints', parent: 0, modified: true },
+      { section: 'examples', parent: null, modified: false },
+    ]);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Structured prompt genome
+ *
+ * A prompt is parsed into typed sections (role, instructions, constraints,
+ * examples, output format) so that evolution can recombine and mutate whole
+ * sections instead of appending text. Sections start at a heading line such
+ * as `## Constraints` or `Output format:`; text before the first heading is
+ * the role (when it opens with "You are" or "Act as") and the instructions.
+ *
+ * Constraints are one item per line (list markers are stripped) and examples
+ * one item per paragraph. Every operator takes a RandomSource, so a seeded
+ * stream reproduces its offspring exactly.
+ */
+
+import type { RandomSource } from './random';
+
+export type SectionType = 'role' | 'instructions' | 'constraints' | 'examples' | 'output_format';
+
+export const SECTION_TYPES: SectionType[] = [
+  'role',
+  'instructions',
+  'constraints',
+  'examples',
+  'output_format',
+];
+
+export interface GenomeSection {
+  type: SectionType;
+  heading: string | null; // Heading line as written; null for text before the first heading
+  items: string[];
+}
+
+export interface PromptGenome {
+  sections: GenomeSection[];
+}
+
+export interface SectionInheritance {
+  section: SectionType;
+  parent: number | null; // Index of the parent it came from; null when new
+  modified: boolean; // Came from that parent but its items changed
+}
+
+const DEFAULT_HEADINGS: Record<SectionType, string> = {
+  role: '## Role',
+  instructions: '## Instructions',
+  constraints: '## Constraints',
+  examples: '## Examples',
+  output_format: '## Output format',
+};
+
+const HEADINGS: [RegExp, SectionType][] = [
+  [/^(role|persona)$/, 'role'],
+  [/^(instructions?|task)$/, 'instructions'],
+  [/^(constraints?|rules|requirements)$/, 'constraints'],
+  [/^examples?$/, 'examples'],
+  [/^(output( format)?|format|response format)$/, 'output_format'],
+];
+
+/**
+ * Parse a prompt into sections
+ */
+export function parseGenome(prompt: string): PromptGenome {
+  const sections: GenomeSection[] = [];
+  let heading: string | null = null;
+  let type: SectionType | null = null;
+  let body: string[] = [];
+
+  const flush = () => {
+    const text = body.join('\n').trim();
+    if (type) {
+      sections.push({ type, heading, items: splitItems(type, text) });
+    } else if (text) {
+      sections.push(...splitPreamble(text));
+    }
+  };
+
+  for (const line of prompt.split('\n')) {
+    const headingType = sectionHeading(line);
+    if (headingType) {
+      flush();
+      heading = line.trim();
+      type = headingType;
+      body = [];
+    } else {
+      body.push(line);
+    }
+  }
+  flush();
+
+  return { sections };
+}
+
+/**
+ * Render a genome back into prompt text; parseGenome(renderGenome(g)) gives back g
+ */
+export function renderGenome(genome: PromptGenome): string {
+  return genome.sections
+    .map((section, i) =>
+      [headingFor(genome.sections, i), joinItems(section)].filter(part => part).join('\n')
+    )
+    .filter(block => block)
+    .join('\n\n');
+}
+
+/**
+ * Each section type comes from either parent with equal probability
+ */
+export function uniformCrossover(
+  a: PromptGenome,
+  b: PromptGenome,
+  random: RandomSource
+): PromptGenome {
+  const sections = presentTypes(a, b).flatMap(type => sectionsOf(random() < 0.5 ? a : b, type));
+  return sections.length > 0 ? { sections } : clone(a);
+}
+
+/**
+ * Section types before a random cut point come from a, the rest from b
+ */
+export function singlePointCrossover(
+  a: PromptGenome,
+  b: PromptGenome,
+  random: RandomSource
+): PromptGenome {
+  const types = presentTypes(a, b);
+  if (types.length < 2) return clone(a);
+  const cut = 1 + Math.floor(random() * (types.length - 1));
+  const sections = types.flatMap((type, i) => sectionsOf(i < cut ? a : b, type));
+  return sections.length > 0 ? { sections } : clone(a);
+}
+
+/**
+ * Exchange the positions of two sections
+ */
+export function swapSections(genome: PromptGenome, random: RandomSource): PromptGenome {
+  const sections = clone(genome).sections;
+  if (sections.length < 2) return { sections };
+  const i = Math.floor(random() * sections.length);
+  const j = (i + 1 + Math.floor(random() * (sections.length - 1))) % sections.length;
+  [sections[i], sections[j]] = [sections[j], sections[i]];
+  return { sections };
+}
+
+/**
+ * Remove one section that keep() does not protect; never removes the last one
+ */
+export function deleteSection(
+  genome: PromptGenome,
+  random: RandomSource,
+  keep: (section: GenomeSection) => boolean = () => false
+): PromptGenome {
+  const sections = clone(genome).sections;
+  const candidates = sections.flatMap((section, i) => (keep(section) ? [] : [i]));
+  if (sections.length < 2 || candidates.length === 0) return { sections };
+  sections.splice(candidates[Math.floor(random() * candidates.length)], 1);
+  return { sections };
+}
+
+/**
+ * Insert an example at a random position, adding an examples section if needed
+ */
+export function insertExample(
+  genome: PromptGenome,
+  example: string,
+  random: RandomSource
+): PromptGenome {
+  const sections = clone(genome).sections;
+  const section = sections.find(s => s.type === 'examples') ?? addSection(sections, 'examples');
+  section.items.splice(Math.floor(random() * (section.items.length + 1)), 0, example.trim());
+  return { sections };
+}
+
+/**
+ * Remove a constraint when present, otherwise add it
+ */
+export function toggleConstraint(genome: PromptGenome, constraint: string): PromptGenome {
+  const sections = clone(genome).sections;
+  const text = constraint.trim();
+  const owner = sections.find(s => s.type === 'constraints' && s.items.includes(text));
+
+  if (owner) {
+    owner.items = owner.items.filter(item => item !== text);
+    if (owner.items.length === 0 && sections.length > 1) {
+      sections.splice(sections.indexOf(owner), 1);
+    }
+  } else {
+    const section =
+      sections.find(s => s.type === 'constraints') ?? addSection(sections, 'constraints');
+    section.items.push(text);
+  }
+  return { sections };
+}
+
+/**
+ * Which parent each of the child's sections came from: an identical section,
+ * else a section of the same type sharing an item (modified), else none
+ */
+export function traceInheritance(
+  parents: PromptGenome[],
+  child: PromptGenome
+): SectionInheritance[] {
+  return child.sections.map(section => {
+    const same = (s: GenomeSection) =>
+      s.type === section.type && s.items.join('\n') === section.items.join('\n');
+    const exact = parents.findIndex(p => p.sections.some(same));
+    if (exact >= 0) return { section: section.type, parent: exact, modified: false };
+
+    const related = parents.findIndex(p =>
+      p.sections.some(
+        s => s.type === section.type && s.items.some(item => section.items.includes(item))
+      )
+    );
+    return {
+      section: section.type,
+      parent: related >= 0 ? related : null,
+      modified: related >= 0,
+    };
+  });
+}
+
+function sectionHeading(line: string): SectionType | null {
+  const label = line
+    .trim()
+    .replace(/^#{1,6}\s*/, '')
+    .replace(/:$/, '')
+    .trim()
+    .toLowerCase();
+  if (!label || label.length > 20) return null;
+  return HEADINGS.find(([pattern]) => pattern.test(label))?.[1] ?? null;
+}
+
+function splitPreamble(text: string): GenomeSection[] {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim());
+  const sections: GenomeSection[] = [];
+  if (/^(you are|act as)\b/i.test(paragraphs[0])) {
+    sections.push({ type: 'role', heading: null, items: [paragraphs.shift()!] });
+  }
+  if (paragraphs.length > 0) {
+    sections.push({ type: 'instructions', heading: null, items: [paragraphs.join('\n\n')] });
+  }
+  return sections;
+}
+
+function splitItems(type: SectionType, text: string): string[] {
+  if (!text) return [];
+  if (type === 'constraints') {
+    return text
+      .split('\n')
+      .map(line => line.replace(/^\s*([-*•]|\d+[.)])\s+/, '').trim())
+      .filter(line => line);
+  }
+  if (type === 'examples') {
+    return text.split(/\n\s*\n/).map(p => p.trim());
+  }
+  return [text];
+}
+
+function joinItems(section: GenomeSection): string {
+  if (section.type === 'constraints') return section.items.map(item => `- ${item}`).join('\n');
+  return section.items.join('\n\n');
+}
+
+function headingFor(sections: GenomeSection[], index: number): string | null {
+  const section = sections[index];
+  if (section.heading !== null) return section.heading;
+  // Text without a heading only parses back as the leading role and instructions
+  const leading =
+    index === 0 ||
+    (index === 1 &&
+      section.type === 'instructions' &&
+      sections[0].type === 'role' &&
+      sections[0].heading === null);
+  return leading ? null : DEFAULT_HEADINGS[section.type];
+}
+
+function presentTypes(a: PromptGenome, b: PromptGenome): SectionType[] {
+  return SECTION_TYPES.filter(type =>
+    [a, b].some(genome => genome.sections.some(s => s.type === type))
+  );
+}
+
+function sectionsOf(genome: PromptGenome, type: SectionType): GenomeSection[] {
+  return genome.sections.filter(s => s.type === type).map(s => ({ ...s, items: [...s.items] }));
+}
+
+/**
+ * Add an empty section of the given type at its canonical position
+ */
+function addSection(sections: GenomeSection[], type: SectionType): GenomeSection {
+  const section: GenomeSection = { type, heading: DEFAULT_HEADINGS[type], items: [] };
+  const rank = SECTION_TYPES.indexOf(type);
+  const after = sections.findIndex(s => SECTION_TYPES.indexOf(s.type) > rank);
+  sections.splice(after < 0 ? sections.length : after, 0, section);
+  return section;
+}
+
+function clone(genome: PromptGenome): PromptGenome {
+  return { sections: genome.sections.map(s => ({ ...s, items: [...s.items] })) };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  EXAMPLE_LIMIT,
+  diffStats,
+  integrityReport,
+  renderStatsDiff,
+  toIssue,
+  type StatsSnapshot,
+} from './integrity';
+
+const STORED: StatsSnapshot = {
+  alpha: 4,
+  beta: 3,
+  utilityN: 5,
+  utilitySum: 3,
+  utilitySumSq: 3,
+  totalTrials: 5,
+  avgReward: 0.6,
+  avgLatencyMs: 120,
+  avgTokenCost: 40,
+};
+
+describe('Aggregate integrity', () => {
+  test('issues keep a bounded sample and warnings do not fail the report', () => {
+    const rows = Array.from({ length: EXAMPLE_LIMIT + 5 }, (_, i) => `task ${i}`);
+    const pending = toIssue('pending_assignment', 'experiment_assignments', rows)!;
+    expect(pending).toMatchObject({ severity: 'warning', count: EXAMPLE_LIMIT + 5 });
+    expect(pending.examples).toHaveLength(EXAMPLE_LIMIT);
+    expect(toIssue('duplicate_feedback', 'feedback_records', [])).toBeNull();
+
+    expect(integrityReport([pending, null], 1).ok).toBe(true);
+    const orphan = toIssue('orphaned_row', 'feedback_records', ['rowid 3']);
+    expect(integrityReport([pending, orphan], 1)).toEqual({
+      ok: false,
+      issues: [pending, orphan!],
+      checkedAt: 1,
+    });
+  });
+
+  test('diffs ignore rounding and treat a missing row as changed everywhere', () => {
+    const rounded = { ...STORED, avgReward: 0.6 + 1e-13, avgLatencyMs: 120 * (1 + 1e-12) };
+    expect(diffStats('v', STORED, rounded)).toEqual([]);
+
+    const drifted = { ...STORED, alpha: 6, totalTrials: 7 };
+    expect(diffStats('v', STORED, drifted)).toEqual([
+      { variantId: 'v', field: 'alpha', stored: 4, rebuilt: 6 },
+      { variantId: 'v', field: 'totalTrials', stored: 5, rebuilt: 7 },
+    ]);
+
+    const missing = diffStats('v', null, STORED);
+    expect(missing).toHaveLength(Object.keys(STORED).length);
+    expect(missing.every(change => change.stored === null)).toBe(true);
+  });
+
+  test('renders one line per changed field', () => {
+    expect(renderStatsDiff([])).toBe('No changes');
+    expect(
+      renderStatsDiff([
+        { variantId: '0123456789abcdef', field: 'avgReward', stored: 1 / 3, rebuilt: 0.5 },
+        { variantId: 'fedcba9876543210', field: 'totalTrials', stored: null, rebuilt: 2 },
+      ])
+    ).toBe('01234567 avgReward: 0.333333 → 0.5\nfedcba98 totalTrials: (missing) → 2');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Aggregate integrity
+ *
+ * variant_performance caches what the raw event tables already record:
+ * posterior evidence, trial counts and running averages derived from
+ * feedback_records. An integrity check reports rows that break the links
+ * between those tables; a rebuild recomputes the cache from the raw events
+ * and describes every field it changes as a diff, so a dry run can be
+ * reviewed before anything is written.
+ */
+
+export type IntegrityIssueKind =
+  | 'orphaned_row' // References a row that no longer exists
+  | 'unassigned_feedback' // Feedback for a task that was never assigned
+  | 'assignment_mismatch' // Feedback attributed to another variant or experiment than its assignment
+  | 'duplicate_feedback' // More than one feedback record for a task
+  | 'missing_performance' // Variant without a variant_performance row
+  | 'trial_count_mismatch' // total_trials differs from the variant's feedback records
+  | 'pending_assignment'; // Assignment without feedback, e.g. a task still running
+
+export type IntegritySeverity = 'error' | 'warning';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  severity: IntegritySeverity;
+  table: string;
+  count: number;
+  examples: string[]; // At most EXAMPLE_LIMIT affected rows
+}
+
+export interface IntegrityReport {
+  ok: boolean; // No errors; warnings alone do not fail the check
+  issues: IntegrityIssue[];
+  checkedAt: number;
+}
+
+export interface StatsSnapshot {
+  alpha: number;
+  beta: number;
+  utilityN: number;
+  utilitySum: number;
+  utilitySumSq: number;
+  totalTrials: number;
+  avgReward: number;
+  avgLatencyMs: number;
+  avgTokenCost: number;
+}
+
+export interface StatsChange {
+  variantId: string;
+  field: keyof StatsSnapshot;
+  stored: number | null; // Null when the variant had no variant_performance row
+  rebuilt: number;
+}
+
+export interface StatsRebuild {
+  dryRun: boolean;
+  experimentIds: string[];
+  changes: StatsChange[];
+  diff: string; // Changes rendered one line per field
+  integrity: IntegrityReport; // Before the rebuild
+}
+
+export const EXAMPLE_LIMIT = 10;
+
+const WARNINGS: IntegrityIssueKind[] = ['pending_assignment'];
+
+const STATS_FIELDS: (keyof StatsSnapshot)[] = [
+  'alpha',
+  'beta',
+  'utilityN',
+  'utilitySum',
+  'utilitySumSq',
+  'totalTrials',
+  'avgReward',
+  'avgLatencyMs',
+  'avgTokenCost',
+];
+
+/**
+ * Group the affected rows of one check into an issue, or null when there are none
+ */
+export function toIssue(
+  kind: IntegrityIssueKind,
+  table: string,
+  rows: string[]
+): IntegrityIssue | null {
+  if (rows.length === 0) return null;
+  return {
+    kind,
+    severity: WARNINGS.includes(kind) ? 'warning' : 'error',
+    table,
+    count: rows.length,
+    examples: rows.slice(0, EXAMPLE_LIMIT),
+  };
+}
+
+export function integrityReport(
+  issues: (IntegrityIssue | null)[],
+  checkedAt: number = Date.now()
+): IntegrityReport {
+  const found = issues.filter((issue): issue is IntegrityIssue => issue !== null);
+  return { ok: found.every(issue => issue.severity !== 'error'), issues: found, checkedAt };
+}
+
+/**
+ * Fields whose rebuilt value differs from the stored one. Values within a
+ * relative tolerance are equal, since running averages accumulate rounding.
+ */
+export function diffStats(
+  variantId: string,
+  stored: StatsSnapshot | null,
+  rebuilt: StatsSnapshot,
+  tolerance: number = 1e-9
+): StatsChange[] {
+  return STATS_FIELDS.flatMap(field => {
+    const before = stored ? stored[field] : null;
+    const after = rebuilt[field];
+    if (
+      before !== null &&
+      Math.abs(before - after) <= tolerance * Math.max(1, Math.abs(before), Math.abs(after))
+    ) {
+      return [];
+    }
+    return [{ variantId, field, stored: before, rebuilt: after }];
+  });
+}
+
+/**
+ * One line per changed field, e.g. `a1b2c3d4 totalTrials: 12 → 14`
+ */
+export function renderStatsDiff(changes: StatsChange[]): string {
+  if (changes.length === 0) return 'No changes';
+  const format = (value: number | null) =>
+    value === null ? '(missing)' : String(Number(value.toFixed(6)));
+  return changes
+    .map(c => `${c.variantId.slice(0, 8)} ${c.field}: ${format(c.stored)} → ${format(c.rebuilt)}`)
+    .join('\n');
+}
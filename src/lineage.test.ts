@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  buildLineage,
+  renderDot,
+  renderMermaid,
+  type LineageLink,
+  type LineageNode,
+} from './lineage';
+
+// a and b cross into c; c mutates into d; x and d cross into e
+const MEANS: Record<string, number> = { a: 0.5, b: 0.3, c: 0.6, d: 0.55, x: 0.2, e: 0.7 };
+
+function link(
+  childId: string,
+  parentId: string,
+  parentIndex: number,
+  operation: LineageLink['operation']
+): LineageLink {
+  return { childId, parentId, parentIndex, operation, operator: 'genome', inputs: {} };
+}
+
+const LINKS = [
+  link('c', 'a', 0, 'crossover'),
+  link('c', 'b', 1, 'crossover'),
+  link('d', 'c', 0, 'mutation'),
+  link('e', 'd', 0, 'crossover'),
+  link('e', 'x', 1, 'crossover'),
+];
+
+function node(id: string): LineageNode {
+  return { id, generation: 0, status: 'active', trials: 10, mean: MEANS[id], preview: `"${id}"` };
+}
+
+describe('Variant lineage', () => {
+  test('collects ancestors and descendants with per-edge deltas', () => {
+    const lineage = buildLineage('c', LINKS, node);
+    expect(lineage.ancestors).toEqual(['a', 'b']);
+    expect(lineage.descendants).toEqual(['d', 'e']);
+    expect(lineage.depth).toBeNull();
+
+    // x is e's other parent, not part of c's lineage
+    expect(lineage.nodes.map(n => n.id).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(lineage.edges).toHaveLength(4);
+    const fromB = lineage.edges.find(e => e.parentId === 'b')!;
+    expect(fromB.childId).toBe('c');
+    expect(fromB.delta).toBeCloseTo(0.3, 10);
+
+    const mutation = lineage.operations.find(o => o.operation === 'mutation')!;
+    expect(mutation.edges).toBe(1);
+    expect(mutation.meanDelta).toBeCloseTo(-0.05, 10);
+    const crossover = lineage.operations.find(o => o.operation === 'crossover')!;
+    expect(crossover.edges).toBe(3);
+    expect(crossover.meanDelta).toBeCloseTo((0.1 + 0.3 + 0.15) / 3, 10);
+  });
+
+  test('depth limits how many generations are followed', () => {
+    const lineage = buildLineage('e', LINKS, node, 1);
+    expect(lineage.ancestors).toEqual(['d', 'x']);
+    expect(lineage.descendants).toEqual([]);
+    expect(lineage.edges.map(e => e.parentId).sort()).toEqual(['d', 'x']);
+    expect(buildLineage('e', LINKS, node, 2).ancestors).toEqual(['d', 'x', 'c']);
+  });
+
+  test('renders Mermaid and DOT graphs', () => {
+    const lineage = buildLineage('d', LINKS, node);
+
+    const mermaid = renderMermaid(lineage);
+    expect(mermaid.startsWith('graph TD')).toBe(true);
+    expect(mermaid).toContain('v_c -->|mutation -0.050| v_d');
+    expect(mermaid).toContain('#quot;d#quot;');
+    expect(mermaid).toContain('style v_d stroke-width:3px');
+
+    const dot = renderDot(lineage);
+    expect(dot.startsWith('digraph lineage {')).toBe(true);
+    expect(dot).toContain('"c" -> "d" [label="mutation -0.050"];');
+    expect(dot).toContain(
+      '"d" [label="d (gen 0, active)\\nmean 0.550 over 10 trials\\n\\"d\\"", penwidth=3];'
+    );
+    expect(dot.endsWith('}')).toBe(true);
+  });
+});
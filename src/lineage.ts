@@ -0,0 +1,152 @@
+/**
+ * Variant genealogy
+ *
+ * Evolution links every offspring to all of its parents, with the operation
+ * that produced it. A lineage is the part of that graph around one variant:
+ * its ancestors and descendants up to a depth, with the change in posterior
+ * mean utility along every parent → child edge, so that paths which pay off
+ * stand out. Lineages render as JSON, Mermaid or Graphviz DOT.
+ */
+
+export type LineageOperation = 'crossover' | 'mutation' | 'crossover+mutation' | 'unknown';
+
+export interface LineageLink {
+  childId: string;
+  parentId: string;
+  parentIndex: number; // Position of the parent in the operation
+  operation: LineageOperation; // 'unknown' for links known only from parent_id
+  operator: string | null; // Evolution operator name, e.g. 'genome' or 'llm:opencode'
+  inputs: Record<string, unknown>; // Run seed, generation, mutation rate, …
+}
+
+export interface LineageNode {
+  id: string;
+  generation: number;
+  status: string;
+  trials: number;
+  mean: number; // Posterior mean utility
+  preview: string; // Start of the template
+}
+
+export interface LineageEdge extends LineageLink {
+  delta: number; // Child mean minus parent mean
+}
+
+export interface VariantLineage {
+  variantId: string;
+  depth: number | null; // Null when unlimited
+  ancestors: string[]; // Nearest first
+  descendants: string[]; // Nearest first
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+  operations: { operation: LineageOperation; edges: number; meanDelta: number }[];
+}
+
+export type LineageFormat = 'json' | 'mermaid' | 'dot';
+
+/**
+ * Collect the lineage of a variant from all links of its experiment
+ */
+export function buildLineage(
+  variantId: string,
+  links: LineageLink[],
+  node: (id: string) => LineageNode,
+  depth: number = Infinity
+): VariantLineage {
+  const walk = (next: (id: string) => string[]): string[] => {
+    const found: string[] = [];
+    let frontier = [variantId];
+    for (let level = 0; level < depth && frontier.length > 0; level++) {
+      frontier = [
+        ...new Set(frontier.flatMap(next).filter(id => id !== variantId && !found.includes(id))),
+      ];
+      found.push(...frontier);
+    }
+    return found;
+  };
+
+  const ancestors = walk(id => links.filter(l => l.childId === id).map(l => l.parentId));
+  const descendants = walk(id => links.filter(l => l.parentId === id).map(l => l.childId));
+  const included = new Set([variantId, ...ancestors, ...descendants]);
+  const nodes = [...included].map(node);
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  // Only edges along ancestor or descendant paths, not e.g. a descendant's other parents
+  const upward = new Set([variantId, ...ancestors]);
+  const downward = new Set([variantId, ...descendants]);
+  const edges = links
+    .filter(
+      l =>
+        (upward.has(l.childId) && upward.has(l.parentId)) ||
+        (downward.has(l.childId) && downward.has(l.parentId))
+    )
+    .map(l => ({ ...l, delta: byId.get(l.childId)!.mean - byId.get(l.parentId)!.mean }));
+
+  const operations = [...new Set(edges.map(e => e.operation))].map(operation => {
+    const matching = edges.filter(e => e.operation === operation);
+    return {
+      operation,
+      edges: matching.length,
+      meanDelta: matching.reduce((sum, e) => sum + e.delta, 0) / matching.length,
+    };
+  });
+
+  return {
+    variantId,
+    depth: Number.isFinite(depth) ? depth : null,
+    ancestors,
+    descendants,
+    nodes,
+    edges,
+    operations,
+  };
+}
+
+/**
+ * Mermaid flowchart, parents above children, the queried variant in bold
+ */
+export function renderMermaid(lineage: VariantLineage): string {
+  const id = (variantId: string) => `v_${variantId}`;
+  const lines = ['graph TD'];
+  for (const node of lineage.nodes) {
+    lines.push(`  ${id(node.id)}["${nodeLabel(node).join('<br/>').replace(/"/g, '#quot;')}"]`);
+  }
+  for (const edge of lineage.edges) {
+    lines.push(`  ${id(edge.parentId)} -->|${edgeLabel(edge)}| ${id(edge.childId)}`);
+  }
+  lines.push(`  style ${id(lineage.variantId)} stroke-width:3px`);
+  return lines.join('\n');
+}
+
+/**
+ * Graphviz DOT digraph, the queried variant in bold
+ */
+export function renderDot(lineage: VariantLineage): string {
+  const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  const quote = (text: string) => `"${escape(text)}"`;
+  const lines = ['digraph lineage {', '  rankdir=TB;', '  node [shape=box];'];
+  for (const node of lineage.nodes) {
+    const bold = node.id === lineage.variantId ? ', penwidth=3' : '';
+    lines.push(`  ${quote(node.id)} [label="${nodeLabel(node).map(escape).join('\\n')}"${bold}];`);
+  }
+  for (const edge of lineage.edges) {
+    lines.push(
+      `  ${quote(edge.parentId)} -> ${quote(edge.childId)} [label=${quote(edgeLabel(edge))}];`
+    );
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function nodeLabel(node: LineageNode): string[] {
+  return [
+    `${node.id.slice(0, 8)} (gen ${node.generation}, ${node.status})`,
+    `mean ${node.mean.toFixed(3)} over ${node.trials} trials`,
+    node.preview,
+  ];
+}
+
+function edgeLabel(edge: LineageEdge): string {
+  const sign = edge.delta >= 0 ? '+' : '';
+  return `${edge.operation} ${sign}${edge.delta.toFixed(3)}`;
+}
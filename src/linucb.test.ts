@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'bun:test';
+import { initLinUCBState, linUCBScore, updateLinUCBState } from './linucb';
+
+describe('LinUCB', () => {
+  test('fresh state scores by uncertainty alone', () => {
+    const state = initLinUCBState(3);
+    // θ = 0, A⁻¹ = I → score = α·‖x‖
+    expect(linUCBScore(state, [3, 4, 0], 0.5)).toBeCloseTo(2.5, 10);
+  });
+
+  test('updates shrink uncertainty and learn the reward direction', () => {
+    let state = initLinUCBState(2);
+    for (let i = 0; i < 50; i++) {
+      state = updateLinUCBState(state, [1, 0], 1);
+      state = updateLinUCBState(state, [0, 1], 0);
+    }
+
+    const rewarded = linUCBScore(state, [1, 0], 0);
+    const unrewarded = linUCBScore(state, [0, 1], 0);
+    expect(rewarded).toBeGreaterThan(0.9);
+    expect(unrewarded).toBeCloseTo(0, 10);
+
+    // Exploration bonus after 50 observations is sqrt(1 / 51)
+    expect(linUCBScore(state, [0, 1], 1)).toBeCloseTo(Math.sqrt(1 / 51), 10);
+  });
+
+  test('rejects contexts of the wrong dimension', () => {
+    const state = initLinUCBState(2);
+    expect(() => linUCBScore(state, [1, 2, 3], 1)).toThrow('dimension mismatch');
+    expect(() => updateLinUCBState(state, [1], 1)).toThrow('dimension mismatch');
+  });
+});
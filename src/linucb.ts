@@ -0,0 +1,100 @@
+/**
+ * Disjoint LinUCB (Li et al., 2010)
+ *
+ * Each variant keeps its own ridge-regression state:
+ *   A = I + Σ x xᵀ    (d × d design matrix)
+ *   b = Σ r x          (d-dimensional reward vector)
+ *
+ * Score(x) = θᵀx + α·sqrt(xᵀA⁻¹x), with θ = A⁻¹b
+ */
+
+export interface LinUCBState {
+  dimension: number;
+  A: number[][];
+  b: number[];
+}
+
+/**
+ * Fresh state with the ridge prior A = I, b = 0
+ */
+export function initLinUCBState(dimension: number): LinUCBState {
+  const A = Array.from({ length: dimension }, (_, i) =>
+    Array.from({ length: dimension }, (_, j) => (i === j ? 1 : 0))
+  );
+  return { dimension, A, b: new Array(dimension).fill(0) };
+}
+
+/**
+ * Upper confidence bound for context x under the given state
+ */
+export function linUCBScore(state: LinUCBState, x: number[], alpha: number): number {
+  assertDimension(state, x);
+  const theta = choleskySolve(state.A, state.b);
+  const aInvX = choleskySolve(state.A, x);
+  const estimate = dot(theta, x);
+  const variance = Math.max(0, dot(x, aInvX));
+  return estimate + alpha * Math.sqrt(variance);
+}
+
+/**
+ * Rank-one update: A ← A + x xᵀ, b ← b + r x
+ */
+export function updateLinUCBState(state: LinUCBState, x: number[], reward: number): LinUCBState {
+  assertDimension(state, x);
+  const A = state.A.map((row, i) => row.map((value, j) => value + x[i] * x[j]));
+  const b = state.b.map((value, i) => value + reward * x[i]);
+  return { dimension: state.dimension, A, b };
+}
+
+function assertDimension(state: LinUCBState, x: number[]): void {
+  if (x.length !== state.dimension) {
+    throw new Error(
+      `Context dimension mismatch: expected ${state.dimension} features, got ${x.length}`
+    );
+  }
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Solve A y = v for symmetric positive-definite A via Cholesky decomposition
+ */
+function choleskySolve(A: number[][], v: number[]): number[] {
+  const n = A.length;
+  const L: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 0) throw new Error('LinUCB design matrix is not positive definite');
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+
+  // Forward substitution: L z = v
+  const z = new Array(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    let sum = v[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * z[k];
+    z[i] = sum / L[i][i];
+  }
+
+  // Back substitution: Lᵀ y = z
+  const y = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = z[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k][i] * y[k];
+    y[i] = sum / L[i][i];
+  }
+
+  return y;
+}
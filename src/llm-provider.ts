@@ -0,0 +1,121 @@
+/**
+ * LLM providers used by the genetic operators
+ *
+ * The plugin never talks to a model directly; it is handed an LLMProvider.
+ * OpenCodeLLMProvider routes completions through the OpenCode client,
+ * StubLLMProvider returns deterministic text for tests and local runs.
+ */
+
+import { createHash } from 'crypto';
+
+export interface CompletionOptions {
+  temperature?: number; // Ignored by providers that set ignoresTemperature
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly ignoresTemperature?: boolean; // Cannot apply a per-request temperature
+  complete(prompt: string, options?: CompletionOptions): Promise<string>;
+}
+
+interface TextPart {
+  type: string;
+  text?: string;
+}
+
+/**
+ * Subset of the OpenCode SDK client the provider relies on
+ */
+export interface OpenCodeClient {
+  session: {
+    create(params: { body: { title?: string } }): Promise<{ data?: { id: string } }>;
+    prompt(params: {
+      path: { id: string };
+      body: {
+        model?: { providerID: string; modelID: string };
+        parts: TextPart[];
+      };
+    }): Promise<{ data?: { parts: TextPart[] } }>;
+  };
+}
+
+export interface OpenCodeLLMProviderOptions {
+  model?: { providerID: string; modelID: string };
+  sessionTitle?: string;
+}
+
+/**
+ * Completes prompts in a dedicated OpenCode session. OpenCode takes the
+ * temperature from the session's agent configuration, so a per-request
+ * temperature is not applied; the plugin rejects a non-default one.
+ */
+export class OpenCodeLLMProvider implements LLMProvider {
+  readonly name = 'opencode';
+  readonly ignoresTemperature = true;
+  private sessionId: Promise<string> | null = null;
+
+  constructor(
+    private client: OpenCodeClient,
+    private options: OpenCodeLLMProviderOptions = {}
+  ) {}
+
+  async complete(prompt: string): Promise<string> {
+    const id = await this.getSessionId();
+    const response = await this.client.session.prompt({
+      path: { id },
+      body: {
+        model: this.options.model,
+        parts: [{ type: 'text', text: prompt }],
+      },
+    });
+
+    return (response.data?.parts ?? [])
+      .filter(part => part.type === 'text' && part.text)
+      .map(part => part.text)
+      .join('');
+  }
+
+  private getSessionId(): Promise<string> {
+    if (!this.sessionId) {
+      this.sessionId = this.client.session
+        .create({ body: { title: this.options.sessionTitle ?? 'ab-learning evolution' } })
+        .then(response => {
+          if (!response.data?.id) {
+            throw new Error('OpenCode did not return a session for prompt evolution');
+          }
+          return response.data.id;
+        });
+      // Allow a later call to retry if session creation failed
+      this.sessionId.catch(() => {
+        this.sessionId = null;
+      });
+    }
+    return this.sessionId;
+  }
+}
+
+/**
+ * Deterministic provider for tests: replays scripted responses in order,
+ * or derives a stable response from the prompt when no script is given.
+ */
+export class StubLLMProvider implements LLMProvider {
+  readonly name = 'stub';
+  readonly calls: string[] = [];
+  readonly callOptions: (CompletionOptions | undefined)[] = [];
+
+  constructor(private responder?: string[] | ((prompt: string, call: number) => string)) {}
+
+  async complete(prompt: string, options?: CompletionOptions): Promise<string> {
+    const call = this.calls.length;
+    this.calls.push(prompt);
+    this.callOptions.push(options);
+
+    if (Array.isArray(this.responder)) {
+      return this.responder[call % this.responder.length];
+    }
+    if (this.responder) {
+      return this.responder(prompt, call);
+    }
+    return `Stub prompt ${createHash('sha256').update(prompt).digest('hex').slice(0, 12)}`;
+  }
+}
@@ -0,0 +1,107 @@
+import { Database } from 'bun:sqlite';
+import { describe, expect, test } from 'bun:test';
+import { MIGRATIONS, addColumn, migrate, schemaVersion, type Migration } from './migrations';
+
+function columns(db: Database, table: string): string[] {
+  return (db.query(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+describe('Schema migrations', () => {
+  test('migrates a new database once', () => {
+    const db = new Database(':memory:');
+    expect(schemaVersion(db)).toBe(0);
+    expect(migrate(db)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(schemaVersion(db)).toBe(MIGRATIONS.length);
+    expect(columns(db, 'prompt_variants')).toContain('status');
+    expect(migrate(db)).toEqual([]);
+    db.close();
+  });
+
+  test('upgrades a database created before versioning and keeps its rows', () => {
+    const db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE prompt_variants (
+        id TEXT PRIMARY KEY, template TEXT NOT NULL, parent_id TEXT,
+        generation INTEGER NOT NULL DEFAULT 0, created_at INTEGER NOT NULL
+      );
+      CREATE TABLE variant_performance (
+        variant_id TEXT PRIMARY KEY,
+        alpha REAL NOT NULL DEFAULT 1.0, beta REAL NOT NULL DEFAULT 1.0,
+        total_trials INTEGER NOT NULL DEFAULT 0, avg_reward REAL NOT NULL DEFAULT 0.0,
+        avg_latency_ms REAL NOT NULL DEFAULT 0.0, avg_token_cost REAL NOT NULL DEFAULT 0.0
+      );
+      INSERT INTO prompt_variants (id, template, created_at) VALUES ('v1', 'Review the diff.', 1);
+      INSERT INTO variant_performance (variant_id, alpha, total_trials) VALUES ('v1', 4, 5);
+    `);
+
+    expect(migrate(db)).toEqual([1, 2, 3]);
+    expect(columns(db, 'prompt_variants')).toEqual(
+      expect.arrayContaining(['experiment_id', 'status', 'inheritance', 'rollout_trials'])
+    );
+    expect(db.query('SELECT experiment_id, status FROM prompt_variants').get()).toEqual({
+      experiment_id: 'default',
+      status: 'active',
+    });
+    expect(db.query('SELECT alpha, utility_n FROM variant_performance').get()).toEqual({
+      alpha: 4,
+      utility_n: 0,
+    });
+    db.close();
+  });
+
+  test('links existing change points to the feedback that triggered them', () => {
+    const db = new Database(':memory:');
+    migrate(db, MIGRATIONS.slice(0, 2));
+    db.exec(`
+      INSERT INTO experiments (id, name, created_at, updated_at) VALUES ('default', 'Default', 0, 0);
+      INSERT INTO prompt_variants (id, template, created_at) VALUES ('v1', 'Review the diff.', 0);
+      INSERT INTO feedback_records
+        (task_id, variant_id, reward, latency_ms, token_cost, success, timestamp)
+      VALUES ('t1', 'v1', 1, 100, 50, 1, 10), ('t2', 'v1', 0, 100, 50, 0, 21);
+      INSERT INTO change_points (experiment_id, variant_id, statistic, action, timestamp)
+      VALUES ('default', 'v1', 4.2, 'reset', 20);
+    `);
+
+    expect(migrate(db)).toEqual([3]);
+    expect(db.query('SELECT feedback_id FROM change_points').get()).toEqual({ feedback_id: 2 });
+    db.close();
+  });
+
+  test('a failing migration rolls back and leaves the previous version', () => {
+    const db = new Database(':memory:');
+    const migrations: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: MIGRATIONS.length + 1,
+        description: 'Add notes',
+        up: db => addColumn(db, 'prompt_variants', 'notes', 'TEXT'),
+      },
+      {
+        version: MIGRATIONS.length + 2,
+        description: 'Broken',
+        up: db => {
+          db.exec('CREATE TABLE scratch (id INTEGER)');
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    expect(() => migrate(db, migrations)).toThrow('boom');
+    expect(schemaVersion(db)).toBe(MIGRATIONS.length + 1);
+    expect(columns(db, 'prompt_variants')).toContain('notes');
+    expect(db.query("SELECT name FROM sqlite_master WHERE name = 'scratch'").get()).toBeNull();
+    db.close();
+  });
+
+  test('rejects newer databases and misnumbered migrations', () => {
+    const db = new Database(':memory:');
+    db.exec(`PRAGMA user_version = ${MIGRATIONS.length + 1}`);
+    expect(() => migrate(db)).toThrow(
+      `Database schema version ${MIGRATIONS.length + 1} is newer than this plugin supports`
+    );
+
+    const skipped = [{ ...MIGRATIONS[0], version: 2 }];
+    expect(() => migrate(new Database(':memory:'), skipped)).toThrow('Migration 1 is numbered 2');
+    db.close();
+  });
+});
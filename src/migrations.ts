@@ -0,0 +1,366 @@
+/**
+ * Versioned schema migrations
+ *
+ * The schema version lives in SQLite's `user_version` header field. Each
+ * migration runs once, in order, inside its own immediate transaction, so a
+ * failed migration leaves the database at the previous version and two
+ * sessions opening the same file never apply a migration twice.
+ *
+ * Databases created before versioning report version 0 and may hold any
+ * earlier subset of the baseline tables and columns, so migration 1 only
+ * creates what is missing. Later migrations can assume the baseline and must
+ * be appended with the next version number, never edited once released.
+ */
+
+import type { Database } from 'bun:sqlite';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(db: Database): void;
+}
+
+const BASELINE_SCHEMA = `
+CREATE TABLE IF NOT EXISTS experiments (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'active',
+  reward_policy TEXT,
+  posterior_family TEXT,
+  drift_policy TEXT,
+  stopping_rule TEXT,
+  prune_policy TEXT,
+  default_variant_id TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS prompt_variants (
+  id TEXT PRIMARY KEY,
+  experiment_id TEXT NOT NULL DEFAULT 'default',
+  template TEXT NOT NULL,
+  parent_id TEXT,
+  generation INTEGER NOT NULL DEFAULT 0,
+  posterior_family TEXT,
+  status TEXT NOT NULL DEFAULT 'active',
+  inheritance TEXT,
+  rollout_trials INTEGER,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY(experiment_id) REFERENCES experiments(id)
+);
+
+CREATE TABLE IF NOT EXISTS variant_performance (
+  variant_id TEXT PRIMARY KEY,
+  alpha REAL NOT NULL DEFAULT 1.0,
+  beta REAL NOT NULL DEFAULT 1.0,
+  total_trials INTEGER NOT NULL DEFAULT 0,
+  avg_reward REAL NOT NULL DEFAULT 0.0,
+  avg_latency_ms REAL NOT NULL DEFAULT 0.0,
+  avg_token_cost REAL NOT NULL DEFAULT 0.0,
+  utility_n REAL NOT NULL DEFAULT 0.0,
+  utility_sum REAL NOT NULL DEFAULT 0.0,
+  utility_sum_sq REAL NOT NULL DEFAULT 0.0,
+  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS experiment_assignments (
+  task_id TEXT PRIMARY KEY,
+  experiment_id TEXT NOT NULL DEFAULT 'default',
+  variant_id TEXT NOT NULL,
+  context TEXT,
+  candidate_ids TEXT,
+  propensity REAL,
+  selection_policy TEXT,
+  timestamp INTEGER NOT NULL,
+  FOREIGN KEY(experiment_id) REFERENCES experiments(id),
+  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS feedback_records (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  experiment_id TEXT NOT NULL DEFAULT 'default',
+  variant_id TEXT NOT NULL,
+  reward REAL NOT NULL,
+  latency_ms REAL NOT NULL,
+  token_cost REAL NOT NULL,
+  success INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL,
+  FOREIGN KEY(experiment_id) REFERENCES experiments(id),
+  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS preference_comparisons (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  winner_id TEXT NOT NULL,
+  loser_id TEXT NOT NULL,
+  context TEXT,
+  human_feedback INTEGER NOT NULL DEFAULT 0,
+  timestamp INTEGER NOT NULL,
+  FOREIGN KEY(winner_id) REFERENCES prompt_variants(id),
+  FOREIGN KEY(loser_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS contextual_features (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  variant_id TEXT NOT NULL,
+  context_hash TEXT NOT NULL,
+  features BLOB NOT NULL,
+  reward REAL NOT NULL,
+  timestamp INTEGER NOT NULL,
+  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS linucb_state (
+  variant_id TEXT PRIMARY KEY,
+  dimension INTEGER NOT NULL,
+  a_matrix TEXT NOT NULL,
+  b_vector TEXT NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS evolution_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  experiment_id TEXT NOT NULL,
+  population_size INTEGER NOT NULL,
+  generations INTEGER NOT NULL,
+  offspring_ids TEXT NOT NULL,
+  seed INTEGER,
+  mutation_rate REAL,
+  config TEXT,
+  timestamp INTEGER NOT NULL,
+  FOREIGN KEY(experiment_id) REFERENCES experiments(id)
+);
+
+CREATE TABLE IF NOT EXISTS preference_strengths (
+  variant_id TEXT PRIMARY KEY,
+  score REAL NOT NULL,
+  std_error REAL NOT NULL,
+  wins REAL NOT NULL,
+  losses REAL NOT NULL,
+  comparisons INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS comparison_requests (
+  token TEXT PRIMARY KEY,
+  experiment_id TEXT NOT NULL,
+  variant_a TEXT NOT NULL,
+  variant_b TEXT NOT NULL,
+  context TEXT,
+  created_at INTEGER NOT NULL,
+  resolved_at INTEGER,
+  winner_id TEXT,
+  FOREIGN KEY(experiment_id) REFERENCES experiments(id),
+  FOREIGN KEY(variant_a) REFERENCES prompt_variants(id),
+  FOREIGN KEY(variant_b) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS change_detectors (
+  variant_id TEXT PRIMARY KEY,
+  n INTEGER NOT NULL,
+  mean REAL NOT NULL,
+  cumulative REAL NOT NULL,
+  min_cumulative REAL NOT NULL,
+  cumulative_down REAL NOT NULL,
+  max_cumulative_down REAL NOT NULL,
+  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS experiment_decisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  experiment_id TEXT NOT NULL,
+  winner_id TEXT NOT NULL,
+  rule TEXT NOT NULL,
+  evidence TEXT NOT NULL,
+  retired_ids TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  FOREIGN KEY(experiment_id) REFERENCES experiments(id),
+  FOREIGN KEY(winner_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS change_points (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  experiment_id TEXT NOT NULL,
+  variant_id TEXT NOT NULL,
+  statistic REAL NOT NULL,
+  action TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  FOREIGN KEY(experiment_id) REFERENCES experiments(id),
+  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS variant_status_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  experiment_id TEXT NOT NULL,
+  variant_id TEXT NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  FOREIGN KEY(experiment_id) REFERENCES experiments(id),
+  FOREIGN KEY(variant_id) REFERENCES prompt_variants(id)
+);
+
+CREATE TABLE IF NOT EXISTS variant_lineage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  child_id TEXT NOT NULL,
+  parent_id TEXT NOT NULL,
+  parent_index INTEGER NOT NULL,
+  operation TEXT NOT NULL,
+  operator TEXT NOT NULL,
+  inputs TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  FOREIGN KEY(child_id) REFERENCES prompt_variants(id),
+  FOREIGN KEY(parent_id) REFERENCES prompt_variants(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lineage_child ON variant_lineage(child_id);
+CREATE INDEX IF NOT EXISTS idx_lineage_parent ON variant_lineage(parent_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_variant ON feedback_records(variant_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_task ON feedback_records(task_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_timestamp ON feedback_records(timestamp);
+CREATE INDEX IF NOT EXISTS idx_contextual_variant ON contextual_features(variant_id, context_hash);
+`;
+
+// Columns added to baseline tables before versioning existed
+const BASELINE_COLUMNS: [table: string, column: string, definition: string][] = [
+  ['experiments', 'reward_policy', 'TEXT'],
+  ['experiments', 'posterior_family', 'TEXT'],
+  ['experiments', 'drift_policy', 'TEXT'],
+  ['experiments', 'stopping_rule', 'TEXT'],
+  ['experiments', 'prune_policy', 'TEXT'],
+  ['experiments', 'default_variant_id', 'TEXT'],
+  ['prompt_variants', 'posterior_family', 'TEXT'],
+  ['prompt_variants', 'status', "TEXT NOT NULL DEFAULT 'active'"],
+  ['prompt_variants', 'inheritance', 'TEXT'],
+  ['prompt_variants', 'rollout_trials', 'INTEGER'],
+  ['variant_performance', 'utility_n', 'REAL NOT NULL DEFAULT 0.0'],
+  ['variant_performance', 'utility_sum', 'REAL NOT NULL DEFAULT 0.0'],
+  ['variant_performance', 'utility_sum_sq', 'REAL NOT NULL DEFAULT 0.0'],
+  ['prompt_variants', 'experiment_id', "TEXT NOT NULL DEFAULT 'default'"],
+  ['experiment_assignments', 'experiment_id', "TEXT NOT NULL DEFAULT 'default'"],
+  ['experiment_assignments', 'candidate_ids', 'TEXT'],
+  ['experiment_assignments', 'propensity', 'REAL'],
+  ['experiment_assignments', 'selection_policy', 'TEXT'],
+  ['feedback_records', 'experiment_id', "TEXT NOT NULL DEFAULT 'default'"],
+  ['evolution_runs', 'seed', 'INTEGER'],
+  ['evolution_runs', 'mutation_rate', 'REAL'],
+  ['evolution_runs', 'config', 'TEXT'],
+];
+
+const BASELINE_INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_variants_experiment ON prompt_variants(experiment_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_experiment ON feedback_records(experiment_id);
+CREATE INDEX IF NOT EXISTS idx_assignments_experiment ON experiment_assignments(experiment_id);
+`;
+
+const LEARNING_RUNS_SCHEMA = `
+CREATE TABLE IF NOT EXISTS learning_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  triggered_by TEXT NOT NULL,
+  status TEXT NOT NULL,
+  new_feedback INTEGER NOT NULL,
+  feedback_cursor INTEGER NOT NULL,
+  pruned TEXT NOT NULL DEFAULT '{}',
+  evolved TEXT NOT NULL DEFAULT '{}',
+  exploration_before REAL NOT NULL,
+  exploration_after REAL NOT NULL,
+  error TEXT,
+  started_at INTEGER NOT NULL,
+  finished_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_runs_status ON learning_runs(status);
+`;
+
+// Change points recorded before the link fall back to the first feedback for
+// the variant at or after their timestamp, which is the one that triggered them
+const CHANGE_POINT_FEEDBACK_BACKFILL = `
+UPDATE change_points SET feedback_id = (
+  SELECT MIN(fr.id) FROM feedback_records fr
+  WHERE fr.variant_id = change_points.variant_id AND fr.timestamp >= change_points.timestamp
+)
+WHERE feedback_id IS NULL;
+`;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Baseline schema',
+    up(db) {
+      db.exec(BASELINE_SCHEMA);
+      for (const [table, column, definition] of BASELINE_COLUMNS) {
+        addColumn(db, table, column, definition);
+      }
+      db.exec(BASELINE_INDEXES);
+    },
+  },
+  {
+    version: 2,
+    description: 'Learning run history',
+    up(db) {
+      db.exec(LEARNING_RUNS_SCHEMA);
+    },
+  },
+  {
+    version: 3,
+    description: 'Link change points to the feedback that triggered them',
+    up(db) {
+      addColumn(db, 'change_points', 'feedback_id', 'INTEGER REFERENCES feedback_records(id)');
+      db.exec(CHANGE_POINT_FEEDBACK_BACKFILL);
+    },
+  },
+];
+
+export function schemaVersion(db: Database): number {
+  return (db.query('PRAGMA user_version').get() as { user_version: number }).user_version;
+}
+
+/**
+ * Bring a database up to the latest migration. Returns the versions applied.
+ * Throws when the database was written by a newer schema than these migrations.
+ */
+export function migrate(db: Database, migrations: Migration[] = MIGRATIONS): number[] {
+  migrations.forEach((migration, i) => {
+    if (migration.version !== i + 1) {
+      throw new Error(`Migration ${i + 1} is numbered ${migration.version}`);
+    }
+  });
+  const latest = migrations.length;
+  const checkVersion = (): number => {
+    const current = schemaVersion(db);
+    if (current > latest) {
+      throw new Error(
+        `Database schema version ${current} is newer than this plugin supports (${latest})`
+      );
+    }
+    return current;
+  };
+
+  const applied: number[] = [];
+  checkVersion();
+  for (const migration of migrations) {
+    db.transaction(() => {
+      // Re-read under the write lock: another session may have migrated meanwhile
+      if (checkVersion() >= migration.version) return;
+      migration.up(db);
+      db.exec(`PRAGMA user_version = ${migration.version}`);
+      applied.push(migration.version);
+    }).immediate();
+  }
+  return applied;
+}
+
+/**
+ * Add a column unless the table already has it
+ */
+export function addColumn(db: Database, table: string, column: string, definition: string): void {
+  const columns = db.query(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  evaluateOffline,
+  validateCandidatePolicy,
+  type LoggedDecision,
+} from './offline-evaluation';
+import type { PosteriorSampler } from './posterior';
+
+// Uniformly random logging over two arms; arm a succeeds 80% of the time, arm b 20%
+function uniformLog(n: number): LoggedDecision[] {
+  return Array.from({ length: n }, (_, i) => {
+    const variantId = i % 2 === 0 ? 'a' : 'b';
+    const success = variantId === 'a' ? i % 10 !== 0 : i % 10 === 1;
+    return {
+      variantId,
+      candidateIds: ['a', 'b'],
+      propensity: 0.5,
+      features: [1, variantId === 'a' ? 1 : 0],
+      candidateFamilies: ['beta-bernoulli', 'beta-bernoulli'],
+      reward: success ? 1 : 0,
+      learningUtility: success ? 1 : 0,
+    };
+  });
+}
+
+// Posterior means instead of draws make Thompson Sampling greedy and deterministic
+const meanSampler: PosteriorSampler = {
+  beta: (a, b) => a / (a + b),
+  gamma: (shape, scale) => shape * scale,
+  normal: () => 0,
+};
+
+describe('Offline policy evaluation', () => {
+  test('fixed policies recover each arm value', () => {
+    const log = uniformLog(400);
+    const a = evaluateOffline({ type: 'fixed', variantId: 'a' }, log, meanSampler);
+    const b = evaluateOffline({ type: 'fixed', variantId: 'b' }, log, meanSampler);
+
+    expect(a.loggedValue).toBeCloseTo(0.5, 10);
+    expect(a.snips.value).toBeCloseTo(0.8, 10);
+    expect(a.ips.value).toBeCloseTo(0.8, 10);
+    expect(a.ips.lower).toBeLessThan(0.8);
+    expect(a.ips.upper).toBeGreaterThan(0.8);
+    expect(b.snips.value).toBeCloseTo(0.2, 10);
+    expect(a.doublyRobust.value).toBeGreaterThan(0.7);
+    expect(a.effectiveSampleSize).toBeCloseTo(200, 6);
+  });
+
+  test('a learning candidate beats the uniform logging policy', () => {
+    const result = evaluateOffline(
+      validateCandidatePolicy({ type: 'thompson', draws: 1 }),
+      uniformLog(400),
+      meanSampler
+    );
+    expect(result.snips.value).toBeGreaterThan(0.7);
+    expect(result.snips.method).toBe('SNIPS');
+  });
+
+  test('LinUCB candidates skip decisions without features', () => {
+    const log = uniformLog(20).map((d, i) => (i < 5 ? { ...d, features: null } : d));
+    const result = evaluateOffline({ type: 'linucb', alpha: 0.5 }, log, meanSampler);
+    expect(result.skipped).toBe(5);
+    expect(result.records).toBe(15);
+  });
+
+  test('rejects malformed candidate policies', () => {
+    expect(() => validateCandidatePolicy({ type: 'linucb' })).toThrow('alpha');
+    expect(() => validateCandidatePolicy({ type: 'random' })).toThrow('Unknown candidate policy');
+  });
+});
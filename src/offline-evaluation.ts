@@ -0,0 +1,238 @@
+/**
+ * Offline (off-policy) evaluation of selection policies from logged feedback
+ *
+ * Every assignment logs the probability p(a|x) with which the live policy
+ * chose its variant. A candidate policy π is replayed over the log in time
+ * order, learning only from records before each decision, and its value is
+ * estimated with:
+ * - IPS:   mean of w·r, with w = π(a|x) / p(a|x)
+ * - SNIPS: Σ w·r / Σ w (self-normalised, lower variance, slightly biased)
+ * - DR:    mean of Σₐ π(a|x) r̂(a) + w·(r − r̂(a)), with a per-variant running-mean
+ *          reward model r̂
+ * Intervals use the normal approximation (delta method for SNIPS).
+ */
+
+import { PRIOR_EVIDENCE, addObservation, type PosteriorEvidence } from './drift';
+import { initLinUCBState, linUCBScore, updateLinUCBState, type LinUCBState } from './linucb';
+import {
+  isBounded,
+  samplePosterior,
+  type PosteriorFamily,
+  type PosteriorSampler,
+} from './posterior';
+import { validateRewardPolicy, type RewardPolicy } from './reward-policy';
+import { normalQuantile } from './significance';
+
+export type CandidatePolicy =
+  | {
+      type: 'thompson';
+      prior?: { alpha: number; beta: number }; // Beta families only
+      rewardPolicy?: RewardPolicy; // What the candidate learns from; defaults to the experiment's
+      draws?: number; // Monte Carlo draws per decision for π(a|x)
+    }
+  | { type: 'linucb'; alpha: number; rewardPolicy?: RewardPolicy }
+  | { type: 'fixed'; variantId: string };
+
+export interface LoggedDecision {
+  variantId: string;
+  candidateIds: string[];
+  propensity: number; // Logging policy's p(a|x)
+  features: number[] | null; // Contextual assignments only
+  candidateFamilies: PosteriorFamily[]; // Posterior family of each candidate
+  reward: number; // Evaluation metric
+  learningUtility: number; // What the candidate policy learns from
+}
+
+export interface ValueEstimate {
+  method: 'IPS' | 'SNIPS' | 'doubly robust';
+  value: number;
+  stdError: number;
+  lower: number;
+  upper: number;
+}
+
+export interface OfflineEstimates {
+  records: number; // Decisions the candidate could be evaluated on
+  skipped: number; // Decisions without the data the candidate needs (e.g. features)
+  loggedValue: number; // Mean reward actually obtained by the logging policy
+  effectiveSampleSize: number; // (Σw)² / Σw²
+  ips: ValueEstimate;
+  snips: ValueEstimate;
+  doublyRobust: ValueEstimate;
+}
+
+/**
+ * Validate an untrusted candidate policy (e.g. tool input), filling defaults
+ */
+export function validateCandidatePolicy(policy: any): CandidatePolicy {
+  switch (policy?.type) {
+    case 'thompson': {
+      const prior = policy.prior ?? { alpha: 1, beta: 1 };
+      if (!(prior.alpha > 0 && prior.beta > 0)) {
+        throw new Error('Candidate policy prior needs alpha > 0 and beta > 0');
+      }
+      const draws = policy.draws ?? 200;
+      if (!Number.isInteger(draws) || draws < 1) {
+        throw new Error('Candidate policy draws must be a positive integer');
+      }
+      return {
+        type: 'thompson',
+        prior: { alpha: prior.alpha, beta: prior.beta },
+        rewardPolicy: policy.rewardPolicy ? validateRewardPolicy(policy.rewardPolicy) : undefined,
+        draws,
+      };
+    }
+    case 'linucb':
+      if (typeof policy.alpha !== 'number' || !(policy.alpha >= 0)) {
+        throw new Error('Candidate LinUCB alpha must be a non-negative number');
+      }
+      return {
+        type: 'linucb',
+        alpha: policy.alpha,
+        rewardPolicy: policy.rewardPolicy ? validateRewardPolicy(policy.rewardPolicy) : undefined,
+      };
+    case 'fixed':
+      if (typeof policy.variantId !== 'string') {
+        throw new Error('Fixed candidate policy needs a variantId');
+      }
+      return { type: 'fixed', variantId: policy.variantId };
+    default:
+      throw new Error(`Unknown candidate policy type: ${policy?.type}`);
+  }
+}
+
+/**
+ * Replay a candidate policy over decisions in time order and estimate its value
+ */
+export function evaluateOffline(
+  policy: CandidatePolicy,
+  decisions: LoggedDecision[],
+  sampler: PosteriorSampler,
+  level: number = 0.95
+): OfflineEstimates {
+  const evidence = new Map<string, PosteriorEvidence>();
+  const linucb = new Map<string, LinUCBState>();
+  const rewardModel = new Map<string, { n: number; sum: number }>();
+  const ipsTerms: number[] = [];
+  const drTerms: number[] = [];
+  const weights: number[] = [];
+  const rewards: number[] = [];
+  let skipped = 0;
+
+  const predict = (variantId: string): number => {
+    const model = rewardModel.get(variantId);
+    return model && model.n > 0 ? model.sum / model.n : 0;
+  };
+
+  for (const decision of decisions) {
+    const { candidateIds, features } = decision;
+    if (policy.type === 'linucb' && !features) {
+      skipped++;
+      continue;
+    }
+
+    const probabilities = targetProbabilities(policy, decision, evidence, linucb, sampler);
+    const w = (probabilities.get(decision.variantId) ?? 0) / decision.propensity;
+    const expected = candidateIds.reduce(
+      (sum, id) => sum + (probabilities.get(id) ?? 0) * predict(id),
+      0
+    );
+
+    weights.push(w);
+    rewards.push(decision.reward);
+    ipsTerms.push(w * decision.reward);
+    drTerms.push(expected + w * (decision.reward - predict(decision.variantId)));
+
+    // Learn from this decision only after it has been evaluated
+    const model = rewardModel.get(decision.variantId) ?? { n: 0, sum: 0 };
+    rewardModel.set(decision.variantId, { n: model.n + 1, sum: model.sum + decision.reward });
+    if (policy.type === 'thompson') {
+      const prior = { ...PRIOR_EVIDENCE, ...policy.prior };
+      const current = evidence.get(decision.variantId) ?? prior;
+      const family = decision.candidateFamilies[candidateIds.indexOf(decision.variantId)];
+      evidence.set(
+        decision.variantId,
+        addObservation(current, decision.learningUtility, isBounded(family))
+      );
+    } else if (policy.type === 'linucb' && features) {
+      const state = linucb.get(decision.variantId) ?? initLinUCBState(features.length);
+      linucb.set(decision.variantId, updateLinUCBState(state, features, decision.learningUtility));
+    }
+  }
+
+  const z = normalQuantile(1 - (1 - level) / 2);
+  const estimate = (method: ValueEstimate['method'], value: number, terms: number[]) => {
+    const stdError = standardError(terms);
+    return { method, value, stdError, lower: value - z * stdError, upper: value + z * stdError };
+  };
+
+  const n = weights.length;
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  const squaredWeightSum = weights.reduce((a, w) => a + w * w, 0);
+  const ipsValue = mean(ipsTerms);
+  const snipsValue = weightSum > 0 ? ipsTerms.reduce((a, b) => a + b, 0) / weightSum : 0;
+  // Delta method: influence of each record on the ratio estimator
+  const meanWeight = n > 0 ? weightSum / n : 0;
+  const snipsTerms =
+    meanWeight > 0 ? weights.map((w, i) => (w * (rewards[i] - snipsValue)) / meanWeight) : [];
+
+  return {
+    records: n,
+    skipped,
+    loggedValue: mean(rewards),
+    effectiveSampleSize: squaredWeightSum > 0 ? weightSum ** 2 / squaredWeightSum : 0,
+    ips: estimate('IPS', ipsValue, ipsTerms),
+    snips: estimate('SNIPS', snipsValue, snipsTerms),
+    doublyRobust: estimate('doubly robust', mean(drTerms), drTerms),
+  };
+}
+
+/**
+ * π(·|x) of the candidate policy over the decision's candidates
+ */
+function targetProbabilities(
+  policy: CandidatePolicy,
+  decision: LoggedDecision,
+  evidence: Map<string, PosteriorEvidence>,
+  linucb: Map<string, LinUCBState>,
+  sampler: PosteriorSampler
+): Map<string, number> {
+  const { candidateIds } = decision;
+
+  if (policy.type === 'fixed') {
+    return new Map(candidateIds.map(id => [id, id === policy.variantId ? 1 : 0]));
+  }
+
+  if (policy.type === 'linucb') {
+    const features = decision.features!;
+    const scores = candidateIds.map(id =>
+      linUCBScore(linucb.get(id) ?? initLinUCBState(features.length), features, policy.alpha)
+    );
+    const best = scores.indexOf(Math.max(...scores));
+    return new Map(candidateIds.map((id, i) => [id, i === best ? 1 : 0]));
+  }
+
+  const prior = { ...PRIOR_EVIDENCE, ...policy.prior };
+  const states = candidateIds.map((id, i) => ({
+    family: decision.candidateFamilies[i],
+    ...(evidence.get(id) ?? prior),
+  }));
+  const draws = policy.draws ?? 200;
+  const wins = new Array(candidateIds.length).fill(0);
+  for (let s = 0; s < draws; s++) {
+    const samples = states.map(state => samplePosterior(state, sampler));
+    wins[samples.indexOf(Math.max(...samples))]++;
+  }
+  return new Map(candidateIds.map((id, i) => [id, wins[i] / draws]));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function standardError(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance / values.length);
+}
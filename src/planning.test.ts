@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { requiredTrialsPerArm, simulateThompsonRegret } from './planning';
+
+function seededSampler(seed: number) {
+  const uniform = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return (seed + 0.5) / 2147483648;
+  };
+  // Beta via order statistics is exact for the integer parameters TS produces
+  const beta = (a: number, b: number) => {
+    const gamma = (k: number) => {
+      let sum = 0;
+      for (let i = 0; i < k; i++) sum -= Math.log(uniform());
+      return sum;
+    };
+    const x = gamma(a);
+    return x / (x + gamma(b));
+  };
+  return { beta, uniform };
+}
+
+describe('Experiment planning', () => {
+  test('sample sizes match standard two-proportion tables', () => {
+    const base = { alpha: 0.05, power: 0.8, arms: 2 };
+    expect(requiredTrialsPerArm({ ...base, baselineRate: 0.5, targetRate: 0.6 })).toBe(388);
+    expect(requiredTrialsPerArm({ ...base, baselineRate: 0.1, targetRate: 0.12 })).toBe(3841);
+  });
+
+  test('more arms and more power need more trials', () => {
+    const base = { baselineRate: 0.5, targetRate: 0.6, alpha: 0.05, power: 0.8, arms: 2 };
+    expect(requiredTrialsPerArm({ ...base, arms: 4 })).toBeGreaterThan(requiredTrialsPerArm(base));
+    expect(requiredTrialsPerArm({ ...base, power: 0.9 })).toBeGreaterThan(
+      requiredTrialsPerArm(base)
+    );
+  });
+
+  test('Thompson Sampling regret grows sublinearly and favours the best arm', () => {
+    const result = simulateThompsonRegret([0.7, 0.4], 400, 5, seededSampler(7), 4);
+    expect(result.method).toBe('Thompson Sampling simulation');
+    expect(result.checkpoints.map(c => c.trials)).toEqual([100, 200, 300, 400]);
+    // Uniform allocation would lose 0.15 per trial
+    expect(result.meanRegret).toBeLessThan(0.15 * 400 * 0.5);
+    expect(result.bestArmShare).toBeGreaterThan(0.75);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Experiment planning: sample sizes and simulated Thompson Sampling regret
+ *
+ * Sample sizes use the normal approximation to the two-sided two-proportion
+ * z-test, comparing each challenger against a control arm with a Bonferroni
+ * correction over the k − 1 comparisons.
+ */
+
+import { normalQuantile } from './significance';
+
+export interface SampleSizeInput {
+  baselineRate: number; // Control success rate
+  targetRate: number; // Success rate of a challenger with the minimum detectable effect
+  alpha: number; // Two-sided family-wise significance level
+  power: number;
+  arms: number; // Including the control
+}
+
+export interface RegretSampler {
+  beta(alpha: number, beta: number): number;
+  uniform(): number;
+}
+
+export interface RegretSimulation {
+  method: 'Thompson Sampling simulation';
+  runs: number;
+  horizon: number;
+  meanRegret: number; // Expected successes lost to exploration over the horizon
+  regretStdError: number;
+  bestArmShare: number; // Share of pulls on the best arm
+  checkpoints: { trials: number; meanRegret: number }[];
+}
+
+/**
+ * Trials per arm needed to detect targetRate − baselineRate
+ */
+export function requiredTrialsPerArm(input: SampleSizeInput): number {
+  const { baselineRate: p1, targetRate: p2, power } = input;
+  const comparisons = Math.max(1, input.arms - 1);
+  const zAlpha = normalQuantile(1 - input.alpha / (2 * comparisons));
+  const zBeta = normalQuantile(power);
+  const pooled = (p1 + p2) / 2;
+
+  const numerator =
+    zAlpha * Math.sqrt(2 * pooled * (1 - pooled)) +
+    zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+  return Math.ceil(numerator ** 2 / (p2 - p1) ** 2);
+}
+
+/**
+ * Simulate Beta-Bernoulli Thompson Sampling on arms with known success rates
+ * and report the regret against always playing the best arm
+ */
+export function simulateThompsonRegret(
+  rates: number[],
+  horizon: number,
+  runs: number,
+  sampler: RegretSampler,
+  checkpointCount: number = 10
+): RegretSimulation {
+  const best = Math.max(...rates);
+  const bestIndex = rates.indexOf(best);
+  const step = Math.max(1, Math.floor(horizon / checkpointCount));
+  const checkpointSums = new Map<number, number>();
+  const regrets: number[] = [];
+  let bestPulls = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const alpha = rates.map(() => 1);
+    const beta = rates.map(() => 1);
+    let regret = 0;
+
+    for (let t = 1; t <= horizon; t++) {
+      let arm = 0;
+      let bestSample = -Infinity;
+      for (let i = 0; i < rates.length; i++) {
+        const sample = sampler.beta(alpha[i], beta[i]);
+        if (sample > bestSample) {
+          bestSample = sample;
+          arm = i;
+        }
+      }
+      if (sampler.uniform() < rates[arm]) alpha[arm]++;
+      else beta[arm]++;
+      regret += best - rates[arm];
+      if (arm === bestIndex) bestPulls++;
+      if (t % step === 0 || t === horizon) {
+        checkpointSums.set(t, (checkpointSums.get(t) ?? 0) + regret);
+      }
+    }
+    regrets.push(regret);
+  }
+
+  const meanRegret = regrets.reduce((a, b) => a + b, 0) / runs;
+  const variance =
+    runs > 1 ? regrets.reduce((sum, r) => sum + (r - meanRegret) ** 2, 0) / (runs - 1) : 0;
+  return {
+    method: 'Thompson Sampling simulation',
+    runs,
+    horizon,
+    meanRegret,
+    regretStdError: Math.sqrt(variance / runs),
+    bestArmShare: bestPulls / (runs * horizon),
+    checkpoints: [...checkpointSums].map(([trials, sum]) => ({ trials, meanRegret: sum / runs })),
+  };
+}
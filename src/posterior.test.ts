@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { observationQuality, samplePosterior, summarizePosterior } from './posterior';
+
+describe('Posterior families', () => {
+  test('quality signal depends on the family', () => {
+    const feedback = { success: false, reward: 1.7 };
+    expect(observationQuality('beta-bernoulli', feedback)).toBe(0);
+    expect(observationQuality('beta-fractional', feedback)).toBe(1);
+    expect(observationQuality('normal-inverse-gamma', feedback)).toBe(1.7);
+  });
+
+  test('Beta summary uses alpha and beta', () => {
+    const summary = summarizePosterior({
+      family: 'beta-fractional',
+      alpha: 3,
+      beta: 1,
+      n: 2,
+      sum: 2,
+      sumSq: 2,
+    });
+    expect(summary.mean).toBeCloseTo(0.75, 10);
+    expect(summary.variance).toBeCloseTo(3 / (16 * 5), 10);
+  });
+
+  test('Normal-Inverse-Gamma posterior concentrates on the sample mean', () => {
+    const rewards = Array.from({ length: 200 }, (_, i) => 5 + ((i % 5) - 2));
+    const state = {
+      family: 'normal-inverse-gamma' as const,
+      alpha: 1,
+      beta: 1,
+      n: rewards.length,
+      sum: rewards.reduce((a, b) => a + b, 0),
+      sumSq: rewards.reduce((a, b) => a + b * b, 0),
+    };
+
+    const summary = summarizePosterior(state);
+    expect(summary.mean).toBeCloseTo((5 * 200) / 201, 10);
+    expect(summary.variance).toBeLessThan(0.05);
+
+    // Degenerate sampler: Gamma returns its mean, normal returns 0
+    const sample = samplePosterior(state, {
+      beta: () => 0,
+      gamma: (shape, scale) => shape * scale,
+      normal: () => 0,
+    });
+    expect(sample).toBeCloseTo(summary.mean, 10);
+  });
+});
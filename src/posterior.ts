@@ -0,0 +1,113 @@
+/**
+ * Posterior families for variant rewards
+ *
+ * - beta-bernoulli: success/failure counts (the original model)
+ * - beta-fractional: rewards in [0, 1] as fractional Beta updates
+ * - normal-inverse-gamma: unbounded rewards with unknown mean and variance
+ *
+ * All families are summarised by the sufficient statistics of the observed
+ * utilities (n, Σy, Σy²); the Beta families also keep α and β directly.
+ */
+
+export type PosteriorFamily = 'beta-bernoulli' | 'beta-fractional' | 'normal-inverse-gamma';
+
+export const POSTERIOR_FAMILIES: PosteriorFamily[] = [
+  'beta-bernoulli',
+  'beta-fractional',
+  'normal-inverse-gamma',
+];
+
+export const DEFAULT_POSTERIOR_FAMILY: PosteriorFamily = 'beta-bernoulli';
+
+export interface PosteriorState {
+  family: PosteriorFamily;
+  alpha: number; // Beta families
+  beta: number; // Beta families
+  n: number; // Number of observations
+  sum: number; // Σy
+  sumSq: number; // Σy²
+}
+
+export interface PosteriorSummary {
+  family: PosteriorFamily;
+  mean: number; // Posterior mean of the expected utility
+  variance: number; // Posterior variance of the expected utility
+}
+
+export interface PosteriorSampler {
+  beta(alpha: number, beta: number): number;
+  gamma(shape: number, scale: number): number;
+  normal(): number;
+}
+
+// Normal-Inverse-Gamma prior: one pseudo-observation at 0, weak variance prior
+const NIG_PRIOR = { mu: 0, kappa: 1, a: 1, b: 1 };
+
+export function isPosteriorFamily(value: unknown): value is PosteriorFamily {
+  return POSTERIOR_FAMILIES.includes(value as PosteriorFamily);
+}
+
+/**
+ * Quality signal a family learns from one feedback observation
+ */
+export function observationQuality(
+  family: PosteriorFamily,
+  feedback: { success: boolean; reward: number }
+): number {
+  switch (family) {
+    case 'beta-bernoulli':
+      return feedback.success ? 1 : 0;
+    case 'beta-fractional':
+      return Math.min(1, Math.max(0, feedback.reward));
+    case 'normal-inverse-gamma':
+      return feedback.reward;
+  }
+}
+
+/**
+ * Whether utilities for this family must lie in [0, 1]
+ */
+export function isBounded(family: PosteriorFamily): boolean {
+  return family !== 'normal-inverse-gamma';
+}
+
+export function summarizePosterior(state: PosteriorState): PosteriorSummary {
+  if (state.family === 'normal-inverse-gamma') {
+    const { mu, kappa, a, b } = nigPosterior(state);
+    return { family: state.family, mean: mu, variance: a > 1 ? b / ((a - 1) * kappa) : Infinity };
+  }
+
+  const { alpha, beta } = state;
+  const total = alpha + beta;
+  return {
+    family: state.family,
+    mean: alpha / total,
+    variance: (alpha * beta) / (total * total * (total + 1)),
+  };
+}
+
+/**
+ * Draw the expected utility from the posterior (one Thompson sample)
+ */
+export function samplePosterior(state: PosteriorState, sampler: PosteriorSampler): number {
+  if (state.family === 'normal-inverse-gamma') {
+    const { mu, kappa, a, b } = nigPosterior(state);
+    // σ² ~ InvGamma(a, b), then μ ~ N(μₙ, σ²/κₙ)
+    const variance = 1 / sampler.gamma(a, 1 / b);
+    return mu + Math.sqrt(variance / kappa) * sampler.normal();
+  }
+  return sampler.beta(state.alpha, state.beta);
+}
+
+function nigPosterior(state: PosteriorState): { mu: number; kappa: number; a: number; b: number } {
+  const { n, sum, sumSq } = state;
+  const kappa = NIG_PRIOR.kappa + n;
+  const mu = (NIG_PRIOR.kappa * NIG_PRIOR.mu + sum) / kappa;
+  const a = NIG_PRIOR.a + n / 2;
+  if (n === 0) return { mu, kappa, a, b: NIG_PRIOR.b };
+
+  const mean = sum / n;
+  const scatter = Math.max(0, sumSq - n * mean * mean);
+  const shrinkage = (NIG_PRIOR.kappa * n * (mean - NIG_PRIOR.mu) ** 2) / kappa;
+  return { mu, kappa, a, b: NIG_PRIOR.b + 0.5 * (scatter + shrinkage) };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { fitBradleyTerry, winProbability } from './preference';
+
+describe('Bradley-Terry', () => {
+  test('recovers the ordering implied by comparisons', () => {
+    const comparisons = [
+      ...Array.from({ length: 8 }, () => ({ winnerId: 'a', loserId: 'b', weight: 1 })),
+      ...Array.from({ length: 2 }, () => ({ winnerId: 'b', loserId: 'a', weight: 1 })),
+      ...Array.from({ length: 7 }, () => ({ winnerId: 'b', loserId: 'c', weight: 1 })),
+      ...Array.from({ length: 3 }, () => ({ winnerId: 'c', loserId: 'b', weight: 1 })),
+    ];
+
+    const [a, b, c] = fitBradleyTerry(['a', 'b', 'c'], comparisons);
+    expect(a.score).toBeGreaterThan(b.score);
+    expect(b.score).toBeGreaterThan(c.score);
+    expect(a.score + b.score + c.score).toBeCloseTo(0, 10);
+    expect(winProbability(a.score, b.score)).toBeGreaterThan(0.6);
+    expect(b.comparisons).toBe(20);
+  });
+
+  test('more comparisons shrink the standard error', () => {
+    const few = fitBradleyTerry(['a', 'b'], [{ winnerId: 'a', loserId: 'b', weight: 1 }]);
+    const many = fitBradleyTerry(
+      ['a', 'b'],
+      Array.from({ length: 40 }, (_, i) => ({
+        winnerId: i % 2 ? 'a' : 'b',
+        loserId: i % 2 ? 'b' : 'a',
+        weight: 1,
+      }))
+    );
+    expect(many[0].stdError).toBeLessThan(few[0].stdError);
+  });
+
+  test('weights scale the evidence of a comparison', () => {
+    const light = fitBradleyTerry(['a', 'b'], [{ winnerId: 'a', loserId: 'b', weight: 1 }]);
+    const heavy = fitBradleyTerry(['a', 'b'], [{ winnerId: 'a', loserId: 'b', weight: 3 }]);
+    expect(heavy[0].score).toBeGreaterThan(light[0].score);
+    expect(heavy[0].wins).toBe(3);
+  });
+
+  test('unbeaten variants keep finite scores', () => {
+    const [a] = fitBradleyTerry(
+      ['a', 'b'],
+      Array.from({ length: 10 }, () => ({ winnerId: 'a', loserId: 'b', weight: 1 }))
+    );
+    expect(Number.isFinite(a.score)).toBe(true);
+  });
+});
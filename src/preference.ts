@@ -0,0 +1,109 @@
+/**
+ * Bradley-Terry preference model
+ *
+ * P(i beats j) = pᵢ / (pᵢ + pⱼ), fitted with Hunter's (2004) MM iterations
+ * over the full weighted comparison history. Strengths are kept separate from
+ * the Beta success posteriors used by Thompson Sampling.
+ */
+
+export interface WeightedComparison {
+  winnerId: string;
+  loserId: string;
+  weight: number;
+}
+
+export interface PreferenceScore {
+  variantId: string;
+  score: number; // log-strength, centred so the mean score is 0
+  stdError: number; // approximate standard error of the score
+  wins: number; // weighted
+  losses: number; // weighted
+  comparisons: number; // unweighted count
+}
+
+export interface BradleyTerryOptions {
+  maxIterations?: number;
+  tolerance?: number;
+  priorWeight?: number; // virtual win and loss against an average opponent
+}
+
+/**
+ * Fit Bradley-Terry strengths for the given variants.
+ * Variants without comparisons keep score 0 with the prior's uncertainty.
+ */
+export function fitBradleyTerry(
+  variantIds: string[],
+  comparisons: WeightedComparison[],
+  options: BradleyTerryOptions = {}
+): PreferenceScore[] {
+  const maxIterations = options.maxIterations ?? 200;
+  const tolerance = options.tolerance ?? 1e-8;
+  const priorWeight = options.priorWeight ?? 0.5;
+
+  const index = new Map(variantIds.map((id, i) => [id, i]));
+  const n = variantIds.length;
+  const wins = new Array(n).fill(0);
+  const losses = new Array(n).fill(0);
+  const counts = new Array(n).fill(0);
+  // pairWeights[i][j]: total weight of comparisons between i and j
+  const pairWeights: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  for (const c of comparisons) {
+    const w = index.get(c.winnerId);
+    const l = index.get(c.loserId);
+    if (w === undefined || l === undefined || w === l) continue;
+    wins[w] += c.weight;
+    losses[l] += c.weight;
+    counts[w]++;
+    counts[l]++;
+    pairWeights[w][l] += c.weight;
+    pairWeights[l][w] += c.weight;
+  }
+
+  // The prior is a virtual opponent of fixed strength 1 that each variant
+  // beats and loses to with priorWeight, keeping every estimate finite.
+  let strengths = new Array(n).fill(1);
+  for (let iter = 0; iter < maxIterations; iter++) {
+    const next = strengths.map((p, i) => {
+      let denominator = (2 * priorWeight) / (p + 1);
+      for (let j = 0; j < n; j++) {
+        if (pairWeights[i][j] > 0) denominator += pairWeights[i][j] / (p + strengths[j]);
+      }
+      return (wins[i] + priorWeight) / denominator;
+    });
+
+    const change = Math.max(...next.map((p, i) => Math.abs(Math.log(p / strengths[i]))), 0);
+    strengths = next;
+    if (change < tolerance) break;
+  }
+
+  const logs = strengths.map(p => Math.log(p));
+  const meanLog = n > 0 ? logs.reduce((a, b) => a + b, 0) / n : 0;
+
+  return variantIds.map((variantId, i) => {
+    // Diagonal of the Fisher information on the log scale
+    let information = (2 * priorWeight * strengths[i]) / (strengths[i] + 1) ** 2;
+    for (let j = 0; j < n; j++) {
+      if (pairWeights[i][j] > 0) {
+        information +=
+          (pairWeights[i][j] * strengths[i] * strengths[j]) / (strengths[i] + strengths[j]) ** 2;
+      }
+    }
+
+    return {
+      variantId,
+      score: logs[i] - meanLog,
+      stdError: 1 / Math.sqrt(information),
+      wins: wins[i],
+      losses: losses[i],
+      comparisons: counts[i],
+    };
+  });
+}
+
+/**
+ * P(a beats b) implied by two fitted scores
+ */
+export function winProbability(scoreA: number, scoreB: number): number {
+  return 1 / (1 + Math.exp(scoreB - scoreA));
+}
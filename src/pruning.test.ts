@@ -0,0 +1,58 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_PRUNE_POLICY,
+  selectPruned,
+  validatePrunePolicy,
+  type PruneCandidate,
+} from './pruning';
+
+function candidate(
+  variantId: string,
+  mean: number,
+  probabilityOfBest: number = 0.2
+): PruneCandidate {
+  return { variantId, trials: 50, mean, probabilityOfBest, inRollout: false };
+}
+
+describe('Prune policies', () => {
+  test('validates settings and fills defaults', () => {
+    expect(validatePrunePolicy()).toEqual(DEFAULT_PRUNE_POLICY);
+    expect(validatePrunePolicy({ minProbabilityBest: 0.01 }).minProbabilityBest).toBe(0.01);
+    expect(validatePrunePolicy({ minMeanUtility: null }).minMeanUtility).toBeNull();
+    expect(() => validatePrunePolicy({ keepActive: 0 })).toThrow('keepActive');
+    expect(() => validatePrunePolicy({ minTrials: 2.5 })).toThrow('minTrials');
+    expect(() => validatePrunePolicy({ minMeanUtility: 'low' })).toThrow('minMeanUtility');
+    expect(() => validatePrunePolicy({ minProbabilityBest: 2 })).toThrow('at most 1');
+    expect(() => validatePrunePolicy({ enabled: 'yes' })).toThrow('enabled');
+  });
+
+  test('retires variants below either threshold, worst first', () => {
+    const policy = validatePrunePolicy({ minMeanUtility: 0.1, minProbabilityBest: 0.05 });
+    const verdicts = selectPruned(
+      [
+        candidate('good', 0.8, 0.9),
+        candidate('unlikely', 0.4, 0.01),
+        candidate('poor', 0.02, 0),
+        candidate('fine', 0.5, 0.09),
+      ],
+      policy
+    );
+    expect(verdicts.map(v => v.variantId)).toEqual(['poor', 'unlikely']);
+    expect(verdicts[0].reason).toBe('posterior mean 0.020 < 0.1');
+    expect(verdicts[1].reason).toBe('P(best) 0.010 < 0.05');
+  });
+
+  test('spares untested, rollout and last remaining variants', () => {
+    const policy = validatePrunePolicy({ minMeanUtility: 0.5, keepActive: 2 });
+    const untested = { ...candidate('untested', 0.1), trials: 3 };
+    const rollout = { ...candidate('rollout', 0.1), inRollout: true };
+    expect(selectPruned([untested, rollout, candidate('a', 0.6)], policy)).toEqual([]);
+
+    const verdicts = selectPruned(
+      [candidate('a', 0.2), candidate('b', 0.1), candidate('c', 0.3)],
+      policy
+    );
+    expect(verdicts.map(v => v.variantId)).toEqual(['b']);
+    expect(selectPruned([candidate('a', 0)], { ...policy, enabled: false })).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Variant pruning policies
+ *
+ * Pruning retires variants instead of deleting them, so their feedback,
+ * preferences and lineage stay intact and they can be restored. A variant is
+ * only considered once it has minTrials observations and is out of staged
+ * rollout, and the experiment always keeps at least keepActive active
+ * variants. Either criterion retires an eligible variant:
+ * - minMeanUtility: its posterior mean utility is below the threshold
+ * - minProbabilityBest: its posterior probability of being the best active
+ *   variant is below the threshold
+ */
+
+export interface PrunePolicy {
+  enabled: boolean;
+  minTrials: number;
+  minMeanUtility: number | null; // Null disables the criterion
+  minProbabilityBest: number | null; // Null disables the criterion
+  draws: number; // Monte Carlo draws for the probability of being best
+  keepActive: number; // Active variants pruning never goes below
+}
+
+export const DEFAULT_PRUNE_POLICY: PrunePolicy = {
+  enabled: true,
+  minTrials: 20,
+  minMeanUtility: 0.05,
+  minProbabilityBest: null,
+  draws: 2000,
+  keepActive: 1,
+};
+
+export interface PruneCandidate {
+  variantId: string;
+  trials: number;
+  mean: number; // Posterior mean utility
+  probabilityOfBest: number; // Among the experiment's active variants
+  inRollout: boolean;
+}
+
+export interface PruneVerdict {
+  variantId: string;
+  reason: string;
+}
+
+/**
+ * Validate an untrusted pruning policy (e.g. tool input), filling defaults
+ */
+export function validatePrunePolicy(policy: any = {}): PrunePolicy {
+  const merged = { ...DEFAULT_PRUNE_POLICY, ...policy };
+  const integer = (field: 'minTrials' | 'draws' | 'keepActive', min: number) => {
+    if (!Number.isInteger(merged[field]) || merged[field] < min) {
+      throw new Error(`Prune policy ${field} must be an integer >= ${min}`);
+    }
+  };
+  const threshold = (field: 'minMeanUtility' | 'minProbabilityBest') => {
+    const value = merged[field];
+    if (value !== null && (typeof value !== 'number' || !Number.isFinite(value))) {
+      throw new Error(`Prune policy ${field} must be a number or null`);
+    }
+  };
+
+  if (typeof merged.enabled !== 'boolean') {
+    throw new Error('Prune policy enabled must be a boolean');
+  }
+  integer('minTrials', 0);
+  integer('draws', 1);
+  integer('keepActive', 1);
+  threshold('minMeanUtility');
+  threshold('minProbabilityBest');
+  if (merged.minProbabilityBest !== null && !(merged.minProbabilityBest <= 1)) {
+    throw new Error('Prune policy minProbabilityBest must be at most 1');
+  }
+
+  return {
+    enabled: merged.enabled,
+    minTrials: merged.minTrials,
+    minMeanUtility: merged.minMeanUtility,
+    minProbabilityBest: merged.minProbabilityBest,
+    draws: merged.draws,
+    keepActive: merged.keepActive,
+  };
+}
+
+/**
+ * Variants to retire, worst posterior mean first. candidates are all active
+ * variants of one experiment; at least keepActive of them stay active.
+ */
+export function selectPruned(candidates: PruneCandidate[], policy: PrunePolicy): PruneVerdict[] {
+  if (!policy.enabled) return [];
+
+  const verdicts = candidates
+    .filter(c => c.trials >= policy.minTrials && !c.inRollout)
+    .sort((a, b) => a.mean - b.mean)
+    .flatMap(c => {
+      const reason = pruneReason(c, policy);
+      return reason ? [{ variantId: c.variantId, reason }] : [];
+    });
+  return verdicts.slice(0, Math.max(0, candidates.length - policy.keepActive));
+}
+
+function pruneReason(candidate: PruneCandidate, policy: PrunePolicy): string | null {
+  if (policy.minMeanUtility !== null && candidate.mean < policy.minMeanUtility) {
+    return `posterior mean ${candidate.mean.toFixed(3)} < ${policy.minMeanUtility}`;
+  }
+  if (
+    policy.minProbabilityBest !== null &&
+    candidate.probabilityOfBest < policy.minProbabilityBest
+  ) {
+    return `P(best) ${candidate.probabilityOfBest.toFixed(3)} < ${policy.minProbabilityBest}`;
+  }
+  return null;
+}
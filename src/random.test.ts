@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'bun:test';
+import { deriveSeed, randomHex, randomSeed, seededRandom } from './random';
+
+describe('Seeded random source', () => {
+  test('the same seed gives the same stream', () => {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    const c = seededRandom(43);
+    const first = Array.from({ length: 20 }, a);
+
+    expect(Array.from({ length: 20 }, b)).toEqual(first);
+    expect(Array.from({ length: 20 }, c)).not.toEqual(first);
+  });
+
+  test('values are uniform on [0, 1)', () => {
+    const random = seededRandom(7);
+    const values = Array.from({ length: 10000 }, random);
+
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    expect(mean).toBeCloseTo(0.5, 1);
+    const buckets = new Array(10).fill(0);
+    for (const v of values) buckets[Math.floor(v * 10)]++;
+    expect(Math.min(...buckets)).toBeGreaterThan(900);
+    expect(Math.max(...buckets)).toBeLessThan(1100);
+  });
+
+  test('hex identifiers and derived seeds follow the stream', () => {
+    const id = randomHex(seededRandom(1));
+
+    expect(id).toMatch(/^[0-9a-f]{32}$/);
+    expect(randomHex(seededRandom(1))).toBe(id);
+    expect(randomHex(seededRandom(1), 4)).toHaveLength(8);
+    expect(deriveSeed(seededRandom(9))).toBe(deriveSeed(seededRandom(9)));
+    expect(Number.isInteger(randomSeed())).toBe(true);
+  });
+});
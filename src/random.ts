@@ -0,0 +1,73 @@
+/**
+ * Seedable pseudo-random numbers
+ *
+ * xoshiro128** (Blackman & Vigna, 2018) seeded through splitmix32, so nearby
+ * seeds still give unrelated streams. Every stochastic path in the plugin
+ * (posterior sampling, bootstrap, evolution, identifiers) draws from one of
+ * these, so a seed replays a whole experiment.
+ */
+
+import { randomBytes } from 'crypto';
+
+export type RandomSource = () => number; // Uniform on [0, 1)
+
+/**
+ * Deterministic uniform generator for a 32-bit integer seed
+ */
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  const splitmix = () => {
+    state = (state + 0x9e3779b9) >>> 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b) >>> 0;
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35) >>> 0;
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+  let s0 = splitmix();
+  let s1 = splitmix();
+  let s2 = splitmix();
+  let s3 = splitmix();
+
+  return () => {
+    const result = Math.imul(rotl(Math.imul(s1, 5) >>> 0, 7), 9) >>> 0;
+    const t = (s1 << 9) >>> 0;
+    s2 ^= s0;
+    s3 ^= s1;
+    s1 ^= s2;
+    s0 ^= s3;
+    s2 ^= t;
+    s3 = rotl(s3, 11);
+    return result / 4294967296;
+  };
+}
+
+/**
+ * Fresh 32-bit seed from the OS, for runs that were not given one
+ */
+export function randomSeed(): number {
+  return randomBytes(4).readUInt32LE(0);
+}
+
+/**
+ * Draw a 32-bit seed from a stream, e.g. to give a sub-task its own replayable stream
+ */
+export function deriveSeed(random: RandomSource): number {
+  return Math.floor(random() * 4294967296) >>> 0;
+}
+
+/**
+ * Hex identifier of the given byte length drawn from a stream
+ */
+export function randomHex(random: RandomSource, bytes: number = 16): string {
+  let hex = '';
+  for (let i = 0; i < bytes; i++) {
+    hex += Math.floor(random() * 256)
+      .toString(16)
+      .padStart(2, '0');
+  }
+  return hex;
+}
+
+function rotl(x: number, k: number): number {
+  return ((x << k) | (x >>> (32 - k))) >>> 0;
+}
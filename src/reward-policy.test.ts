@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+import { computeUtility, paretoFront, validateRewardPolicy } from './reward-policy';
+
+describe('Reward policies', () => {
+  const obs = { quality: 1, latencyMs: 500, tokenCost: 2000 };
+
+  test('weighted scalarization penalises latency and cost', () => {
+    const policy = validateRewardPolicy({
+      type: 'weighted',
+      weights: { quality: 1, latency: 0.2, cost: 0.1 },
+      latencyScaleMs: 1000,
+      costScale: 1000,
+    });
+    expect(computeUtility(policy, obs)).toBeCloseTo(1 - 0.1 - 0.2, 10);
+    expect(computeUtility(policy, { ...obs, quality: 0 })).toBe(0);
+  });
+
+  test('constraints zero the utility of violating observations', () => {
+    expect(computeUtility({ type: 'cost_ceiling', maxTokenCost: 1000 }, obs)).toBe(0);
+    expect(computeUtility({ type: 'cost_ceiling', maxTokenCost: 5000 }, obs)).toBe(1);
+    expect(computeUtility({ type: 'latency_slo', maxLatencyMs: 200 }, obs)).toBe(0);
+    expect(computeUtility({ type: 'latency_slo', maxLatencyMs: 800 }, obs)).toBe(1);
+  });
+
+  test('rejects malformed policies', () => {
+    expect(() => validateRewardPolicy({ type: 'latency_slo', maxLatencyMs: -1 })).toThrow(
+      'maxLatencyMs must be a positive number'
+    );
+    expect(() => validateRewardPolicy({ type: 'magic' })).toThrow('Unknown reward policy type');
+  });
+
+  test('pareto front keeps trade-offs and drops dominated variants', () => {
+    const front = paretoFront([
+      { variantId: 'fast', quality: 0.7, latencyMs: 100, tokenCost: 500 },
+      { variantId: 'good', quality: 0.9, latencyMs: 400, tokenCost: 900 },
+      { variantId: 'bad', quality: 0.6, latencyMs: 450, tokenCost: 950 },
+    ]);
+    expect(front.filter(e => !e.dominated).map(e => e.variantId)).toEqual(['fast', 'good']);
+    expect(front[2].dominatedBy).toEqual(['fast', 'good']);
+  });
+});
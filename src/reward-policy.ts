@@ -0,0 +1,128 @@
+/**
+ * Reward policies: map one feedback observation to a utility
+ *
+ * The utility is what the variant posteriors learn, so selection, evaluation
+ * and evolution all optimise whatever the experiment's policy values.
+ */
+
+export type RewardPolicy =
+  | { type: 'success' }
+  | {
+      type: 'weighted';
+      weights: { quality: number; latency: number; cost: number };
+      latencyScaleMs: number; // Latency that costs one unit of `weights.latency`
+      costScale: number; // Token cost that costs one unit of `weights.cost`
+    }
+  | { type: 'cost_ceiling'; maxTokenCost: number }
+  | { type: 'latency_slo'; maxLatencyMs: number };
+
+export interface RewardObservation {
+  quality: number; // Quality signal of the posterior family
+  latencyMs: number;
+  tokenCost: number;
+}
+
+export const DEFAULT_REWARD_POLICY: RewardPolicy = { type: 'success' };
+
+/**
+ * Utility of an observation under a policy. Clipped to [0, 1] unless the
+ * posterior family models unbounded rewards.
+ */
+export function computeUtility(
+  policy: RewardPolicy,
+  obs: RewardObservation,
+  bounded: boolean = true
+): number {
+  const clip = bounded ? clipUnit : (value: number) => value;
+  switch (policy.type) {
+    case 'success':
+      return clip(obs.quality);
+    case 'weighted': {
+      const { weights } = policy;
+      return clip(
+        weights.quality * obs.quality -
+          weights.latency * (obs.latencyMs / policy.latencyScaleMs) -
+          weights.cost * (obs.tokenCost / policy.costScale)
+      );
+    }
+    case 'cost_ceiling':
+      return obs.tokenCost <= policy.maxTokenCost ? clip(obs.quality) : 0;
+    case 'latency_slo':
+      return obs.latencyMs <= policy.maxLatencyMs ? clip(obs.quality) : 0;
+  }
+}
+
+/**
+ * Validate an untrusted policy (e.g. tool input), throwing on the first problem
+ */
+export function validateRewardPolicy(policy: any): RewardPolicy {
+  const positive = (value: unknown, field: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new Error(`Reward policy ${field} must be a positive number`);
+    }
+    return value;
+  };
+  const nonNegative = (value: unknown, field: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Reward policy ${field} must be a non-negative number`);
+    }
+    return value;
+  };
+
+  switch (policy?.type) {
+    case 'success':
+      return { type: 'success' };
+    case 'weighted':
+      return {
+        type: 'weighted',
+        weights: {
+          quality: nonNegative(policy.weights?.quality, 'weights.quality'),
+          latency: nonNegative(policy.weights?.latency, 'weights.latency'),
+          cost: nonNegative(policy.weights?.cost, 'weights.cost'),
+        },
+        latencyScaleMs: positive(policy.latencyScaleMs, 'latencyScaleMs'),
+        costScale: positive(policy.costScale, 'costScale'),
+      };
+    case 'cost_ceiling':
+      return { type: 'cost_ceiling', maxTokenCost: positive(policy.maxTokenCost, 'maxTokenCost') };
+    case 'latency_slo':
+      return { type: 'latency_slo', maxLatencyMs: positive(policy.maxLatencyMs, 'maxLatencyMs') };
+    default:
+      throw new Error(`Unknown reward policy type: ${policy?.type}`);
+  }
+}
+
+export interface ObjectivePoint {
+  variantId: string;
+  quality: number; // Higher is better
+  latencyMs: number; // Lower is better
+  tokenCost: number; // Lower is better
+}
+
+export interface ParetoEntry extends ObjectivePoint {
+  dominated: boolean;
+  dominatedBy: string[];
+}
+
+/**
+ * Mark which points are dominated on (quality ↑, latency ↓, cost ↓)
+ */
+export function paretoFront(points: ObjectivePoint[]): ParetoEntry[] {
+  return points.map(p => {
+    const dominatedBy = points
+      .filter(
+        q =>
+          q.variantId !== p.variantId &&
+          q.quality >= p.quality &&
+          q.latencyMs <= p.latencyMs &&
+          q.tokenCost <= p.tokenCost &&
+          (q.quality > p.quality || q.latencyMs < p.latencyMs || q.tokenCost < p.tokenCost)
+      )
+      .map(q => q.variantId);
+    return { ...p, dominated: dominatedBy.length > 0, dominatedBy };
+  });
+}
+
+function clipUnit(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
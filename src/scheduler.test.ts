@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { Scheduler, type RunTrigger } from './scheduler';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A task that stays in flight until released
+function gatedTask() {
+  const calls: RunTrigger[] = [];
+  let release = () => {};
+  const task = (trigger: RunTrigger) => {
+    calls.push(trigger);
+    return new Promise<number>(resolve => {
+      release = () => resolve(calls.length);
+    });
+  };
+  return { calls, task, release: () => release() };
+}
+
+describe('Scheduler', () => {
+  test('runs on its interval and never overlaps runs', async () => {
+    const gate = gatedTask();
+    const scheduler = new Scheduler(gate.task);
+    expect(() => scheduler.start(0)).toThrow('Scheduler interval must be a positive integer');
+
+    scheduler.start(5);
+    expect(scheduler.status()).toMatchObject({ started: true, busy: false, intervalMs: 5 });
+    await sleep(30);
+    expect(gate.calls).toEqual(['interval']);
+    expect(scheduler.status()).toMatchObject({ busy: true, nextRunAt: null });
+
+    // A manual run while one is in flight joins it
+    const joined = scheduler.run();
+    expect(gate.calls).toEqual(['interval']);
+    gate.release();
+    expect(await joined).toBe(1);
+    expect(scheduler.status().nextRunAt).not.toBeNull();
+
+    await sleep(30);
+    expect(gate.calls).toEqual(['interval', 'interval']);
+    gate.release();
+    await scheduler.stop();
+  });
+
+  test('stop waits for the run in flight and schedules nothing more', async () => {
+    const gate = gatedTask();
+    const scheduler = new Scheduler(gate.task);
+    scheduler.start(1000);
+
+    const run = scheduler.run('manual');
+    let stopped = false;
+    const stopping = scheduler.stop().then(() => (stopped = true));
+    await sleep(5);
+    expect(stopped).toBe(false);
+
+    gate.release();
+    await stopping;
+    expect(await run).toBe(1);
+    expect(scheduler.status()).toEqual({
+      started: false,
+      busy: false,
+      intervalMs: null,
+      nextRunAt: null,
+      lastError: null,
+    });
+  });
+
+  test('keeps the error of a failed scheduled run and carries on', async () => {
+    let runs = 0;
+    const scheduler = new Scheduler(async () => {
+      runs++;
+      if (runs === 1) throw new Error('model unavailable');
+      return runs;
+    });
+
+    scheduler.start(5);
+    await sleep(40);
+    await scheduler.stop();
+    expect(runs).toBeGreaterThan(1);
+    expect(scheduler.status().lastError).toBe('model unavailable');
+
+    // Manual runs reject to their caller
+    runs = 0;
+    await expect(scheduler.run()).rejects.toThrow('model unavailable');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Background task scheduler
+ *
+ * Runs one task periodically, never two at once: the next run is timed from
+ * the end of the previous one, and a run requested while another is in flight
+ * joins it instead of starting a second. A manual run restarts the period.
+ * Timers are unref'd so a started scheduler never keeps the process alive,
+ * and stop() resolves once the run in flight, if any, has finished.
+ *
+ * A failing scheduled run is kept as lastError rather than surfacing as an
+ * unhandled rejection; manual runs reject to their caller as usual.
+ */
+
+export type RunTrigger = 'interval' | 'manual';
+
+export interface SchedulerStatus {
+  started: boolean;
+  busy: boolean; // A run is in flight
+  intervalMs: number | null; // Null when stopped
+  nextRunAt: number | null; // Null when stopped or while a run is in flight
+  lastError: string | null; // Latest failure of a scheduled run
+}
+
+export class Scheduler<T> {
+  private started = false;
+  private intervalMs = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextRunAt: number | null = null;
+  private inFlight: Promise<T> | null = null;
+  private lastError: string | null = null;
+
+  constructor(private readonly task: (trigger: RunTrigger) => Promise<T>) {}
+
+  /**
+   * Run every intervalMs from now, or from the end of the run in flight.
+   * Restarts a started scheduler with the new interval.
+   */
+  start(intervalMs: number): void {
+    if (!Number.isInteger(intervalMs) || intervalMs < 1) {
+      throw new Error('Scheduler interval must be a positive integer');
+    }
+    this.clearTimer();
+    this.started = true;
+    this.intervalMs = intervalMs;
+    if (!this.inFlight) this.schedule();
+  }
+
+  /**
+   * Stop scheduling and wait for the run in flight
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    this.clearTimer();
+    await this.inFlight?.catch(() => {});
+  }
+
+  /**
+   * Run now, or join the run in flight
+   */
+  run(trigger: RunTrigger = 'manual'): Promise<T> {
+    if (this.inFlight) return this.inFlight;
+
+    this.clearTimer();
+    const run = this.task(trigger).finally(() => {
+      this.inFlight = null;
+      if (this.started) this.schedule();
+    });
+    this.inFlight = run;
+    return run;
+  }
+
+  status(): SchedulerStatus {
+    return {
+      started: this.started,
+      busy: this.inFlight !== null,
+      intervalMs: this.started ? this.intervalMs : null,
+      nextRunAt: this.nextRunAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private schedule(): void {
+    this.nextRunAt = Date.now() + this.intervalMs;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.run('interval').then(
+        () => {},
+        error => {
+          this.lastError = error instanceof Error ? error.message : String(error);
+        }
+      );
+    }, this.intervalMs);
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.nextRunAt = null;
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { checkStoppingRule, msprtLikelihoodRatio, validateStoppingRule } from './sequential';
+
+function arm(variantId: string, successes: number, n: number) {
+  return { variantId, n, trials: n, sum: successes, sumSq: successes };
+}
+
+describe('Sequential stopping rules', () => {
+  test('mSPRT likelihood ratio grows with evidence of a difference', () => {
+    const small = msprtLikelihoodRatio(arm('a', 14, 20), arm('b', 10, 20), 0.1);
+    const large = msprtLikelihoodRatio(arm('a', 700, 1000), arm('b', 500, 1000), 0.1);
+    expect(large).toBeGreaterThan(small);
+    expect(large).toBeGreaterThan(1e6);
+    expect(msprtLikelihoodRatio(arm('a', 50, 100), arm('b', 50, 100), 0.1)).toBeLessThan(1);
+  });
+
+  test('mSPRT stops only when the leader beats every other variant', () => {
+    const rule = validateStoppingRule({ type: 'msprt', minSamples: 50 });
+    const never = () => 0;
+
+    expect(checkStoppingRule(rule, [arm('a', 35, 40), arm('b', 5, 40)], never)).toBeNull();
+
+    const decision = checkStoppingRule(
+      rule,
+      [arm('a', 400, 500), arm('b', 250, 500), arm('c', 390, 500)],
+      never
+    );
+    expect(decision).toBeNull();
+
+    const clear = checkStoppingRule(
+      rule,
+      [arm('a', 400, 500), arm('b', 250, 500), arm('c', 200, 500)],
+      never
+    );
+    expect(clear!.winnerId).toBe('a');
+    expect(clear!.rule).toBe('msprt');
+  });
+
+  test('expected loss stops once the best variant is cheap to ship', () => {
+    const rule = validateStoppingRule({ type: 'expected_loss', threshold: 0.01, minSamples: 10 });
+    const arms = [arm('a', 20, 100), arm('b', 80, 100)];
+    const draws = [0.2, 0.8];
+    const decision = checkStoppingRule(rule, arms, i => draws[i]);
+
+    expect(decision!.winnerId).toBe('b');
+    expect(decision!.rule).toBe('expected_loss');
+    expect(checkStoppingRule(rule, arms, i => (i === 0 ? 0.6 : 0.4))!.winnerId).toBe('a');
+  });
+
+  test('validates rules and fills defaults', () => {
+    expect(validateStoppingRule({ type: 'msprt' })).toEqual({
+      type: 'msprt',
+      alpha: 0.05,
+      tau: 0.1,
+      minSamples: 30,
+    });
+    expect(() => validateStoppingRule({ type: 'msprt', alpha: 2 })).toThrow('alpha must be in');
+    expect(() => validateStoppingRule({ type: 'bonferroni' })).toThrow('Unknown stopping rule');
+  });
+});
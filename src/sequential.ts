@@ -0,0 +1,164 @@
+/**
+ * Always-valid sequential stopping rules
+ *
+ * Checked after every feedback, so they must stay valid under continuous
+ * peeking:
+ * - msprt: mixture sequential probability ratio test (Johari et al., 2017) on
+ *   mean utility, leader against every other variant, Bonferroni-corrected
+ * - expected_loss: stop once shipping the best variant costs less than a
+ *   threshold in expected utility (Bayesian decision rule)
+ */
+
+import { posteriorRanking } from './significance';
+
+export type StoppingRule =
+  | { type: 'none' }
+  | { type: 'msprt'; alpha: number; tau: number; minSamples: number }
+  | { type: 'expected_loss'; threshold: number; draws: number; minSamples: number };
+
+export const DEFAULT_STOPPING_RULE: StoppingRule = { type: 'none' };
+
+export interface SequentialArm {
+  variantId: string;
+  n: number; // Observations of the utility; decayed or windowed under a drift policy
+  trials: number; // Raw feedback count, which minSamples is checked against
+  sum: number; // Σu
+  sumSq: number; // Σu²
+}
+
+export interface MsprtEvidence {
+  variantId: string;
+  difference: number; // Leader mean minus this variant's mean
+  likelihoodRatio: number;
+  pValue: number; // Always-valid p-value, min(1, 1/Λ)
+}
+
+export type StoppingDecision =
+  | {
+      winnerId: string;
+      rule: 'msprt';
+      evidence: { alpha: number; threshold: number; comparisons: MsprtEvidence[] };
+    }
+  | {
+      winnerId: string;
+      rule: 'expected_loss';
+      evidence: {
+        threshold: number;
+        draws: number;
+        probabilityOfBest: Record<string, number>;
+        expectedLoss: Record<string, number>;
+      };
+    };
+
+/**
+ * Validate an untrusted stopping rule (e.g. tool input), filling defaults
+ */
+export function validateStoppingRule(rule: any): StoppingRule {
+  const inRange = (value: number, field: string, low: number, high: number): number => {
+    if (typeof value !== 'number' || !(value > low && value < high)) {
+      throw new Error(`Stopping rule ${field} must be in (${low}, ${high})`);
+    }
+    return value;
+  };
+  const minSamples = rule?.minSamples ?? 30;
+  if (!Number.isInteger(minSamples) || minSamples < 1) {
+    throw new Error('Stopping rule minSamples must be a positive integer');
+  }
+
+  switch (rule?.type) {
+    case 'none':
+      return { type: 'none' };
+    case 'msprt':
+      return {
+        type: 'msprt',
+        alpha: inRange(rule.alpha ?? 0.05, 'alpha', 0, 1),
+        tau: inRange(rule.tau ?? 0.1, 'tau', 0, Infinity),
+        minSamples,
+      };
+    case 'expected_loss':
+      return {
+        type: 'expected_loss',
+        threshold: inRange(rule.threshold ?? 0.01, 'threshold', 0, Infinity),
+        draws: Math.round(inRange(rule.draws ?? 5000, 'draws', 99, 1e6)),
+        minSamples,
+      };
+    default:
+      throw new Error(`Unknown stopping rule type: ${rule?.type}`);
+  }
+}
+
+/**
+ * mSPRT likelihood ratio for H₀: equal means, with a N(0, τ²) mixture over the
+ * difference and plug-in sample variances
+ */
+export function msprtLikelihoodRatio(a: SequentialArm, b: SequentialArm, tau: number): number {
+  const variance = sampleVariance(a) / a.n + sampleVariance(b) / b.n;
+  const difference = a.sum / a.n - b.sum / b.n;
+  if (variance === 0) return difference === 0 ? 1 : Infinity;
+
+  const tau2 = tau * tau;
+  return (
+    Math.sqrt(variance / (variance + tau2)) *
+    Math.exp((difference * difference * tau2) / (2 * variance * (variance + tau2)))
+  );
+}
+
+/**
+ * Check a stopping rule; returns the decision once the experiment can stop.
+ * drawPosterior(i) draws the expected utility of arms[i].
+ */
+export function checkStoppingRule(
+  rule: StoppingRule,
+  arms: SequentialArm[],
+  drawPosterior: (index: number) => number
+): StoppingDecision | null {
+  if (rule.type === 'none' || arms.length < 2) return null;
+  if (arms.some(arm => arm.trials < rule.minSamples)) return null;
+
+  if (rule.type === 'msprt') {
+    const leader = arms.reduce((best, arm) => (arm.sum / arm.n > best.sum / best.n ? arm : best));
+    // Bonferroni over the leader's k − 1 comparisons
+    const threshold = (arms.length - 1) / rule.alpha;
+    const comparisons = arms
+      .filter(arm => arm !== leader)
+      .map(arm => {
+        const likelihoodRatio = msprtLikelihoodRatio(leader, arm, rule.tau);
+        return {
+          variantId: arm.variantId,
+          difference: leader.sum / leader.n - arm.sum / arm.n,
+          likelihoodRatio,
+          pValue: Math.min(1, 1 / likelihoodRatio),
+        };
+      });
+    if (comparisons.some(c => c.likelihoodRatio < threshold)) return null;
+    return {
+      winnerId: leader.variantId,
+      rule: 'msprt',
+      evidence: { alpha: rule.alpha, threshold, comparisons },
+    };
+  }
+
+  const draws = arms.map((_, i) => Array.from({ length: rule.draws }, () => drawPosterior(i)));
+  const { probabilityOfBest, expectedLoss } = posteriorRanking(draws);
+  const best = expectedLoss.indexOf(Math.min(...expectedLoss));
+  if (expectedLoss[best] >= rule.threshold) return null;
+
+  const byVariant = (values: number[]) =>
+    Object.fromEntries(arms.map((arm, i) => [arm.variantId, values[i]]));
+  return {
+    winnerId: arms[best].variantId,
+    rule: 'expected_loss',
+    evidence: {
+      threshold: rule.threshold,
+      draws: rule.draws,
+      probabilityOfBest: byVariant(probabilityOfBest),
+      expectedLoss: byVariant(expectedLoss),
+    },
+  };
+}
+
+function sampleVariance(arm: SequentialArm): number {
+  if (arm.n < 2) return 0;
+  const mean = arm.sum / arm.n;
+  return Math.max(0, (arm.sumSq - arm.n * mean * mean) / (arm.n - 1));
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  bootstrapInterval,
+  cohensH,
+  fisherExactTest,
+  meanDifference,
+  normalCdf,
+  posteriorRanking,
+  twoProportionZTest,
+  welchTTest,
+} from './significance';
+
+describe('Significance tests', () => {
+  test('two-proportion z-test matches the textbook value', () => {
+    const result = twoProportionZTest(
+      { successes: 50, trials: 100 },
+      { successes: 65, trials: 100 }
+    );
+    expect(result.method).toBe('two-proportion z-test');
+    expect(result.statistic).toBeCloseTo(2.1456, 3);
+    expect(result.pValue).toBeCloseTo(0.0319, 3);
+  });
+
+  test("Fisher's exact test reproduces the lady tasting tea", () => {
+    const result = fisherExactTest({ successes: 1, trials: 4 }, { successes: 3, trials: 4 });
+    expect(result.pValue).toBeCloseTo(0.4857, 4);
+    expect(result.statistic).toBe(9);
+  });
+
+  test("Fisher's exact test keeps the odds ratio finite with an empty cell", () => {
+    // Haldane–Anscombe: (5.5 × 5.5) / (0.5 × 0.5)
+    const perfect = fisherExactTest({ successes: 0, trials: 5 }, { successes: 5, trials: 5 });
+    expect(perfect.statistic).toBe(121);
+    expect(perfect.pValue).toBeCloseTo(0.0079, 4);
+
+    const zeroOverZero = fisherExactTest({ successes: 0, trials: 3 }, { successes: 0, trials: 3 });
+    expect(zeroOverZero.statistic).toBe(1);
+    expect(zeroOverZero.pValue).toBe(1);
+  });
+
+  test("Welch's t-test uses Welch-Satterthwaite degrees of freedom", () => {
+    const result = welchTTest([1, 2, 3, 4, 5], [3, 4, 5, 6, 7]);
+    expect(result.statistic).toBeCloseTo(2, 10);
+    expect(result.degreesOfFreedom).toBeCloseTo(8, 10);
+    expect(result.pValue).toBeCloseTo(0.0805, 4);
+  });
+
+  test('normal CDF and effect sizes', () => {
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+    expect(normalCdf(-1)).toBeCloseTo(0.1587, 4);
+    expect(cohensH(0.5, 0.5)).toBe(0);
+    expect(cohensH(0.2, 0.8)).toBeGreaterThan(1);
+  });
+
+  test('bootstrap interval brackets the estimate', () => {
+    let seed = 42;
+    const uniform = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const baseline = Array.from({ length: 50 }, (_, i) => (i % 2 === 0 ? 0 : 1));
+    const treatment = Array.from({ length: 50 }, (_, i) => (i % 5 === 0 ? 0 : 1));
+    const interval = bootstrapInterval(baseline, treatment, meanDifference, uniform);
+
+    expect(interval!.method).toBe('bootstrap percentile');
+    expect(interval!.estimate).toBeCloseTo(0.3, 10);
+    expect(interval!.lower).toBeLessThan(0.3);
+    expect(interval!.upper).toBeGreaterThan(0.3);
+    expect(bootstrapInterval([], treatment, meanDifference, uniform)).toBeNull();
+  });
+
+  test('posterior ranking gives probability of best and expected loss', () => {
+    const ranking = posteriorRanking([
+      [0.9, 0.8, 0.1],
+      [0.5, 0.5, 0.5],
+      [0.1, 0.2, 0.3],
+    ]);
+    expect(ranking.probabilityOfBest).toEqual([2 / 3, 1 / 3, 0]);
+    expect(ranking.expectedLoss[0]).toBeCloseTo(0.4 / 3, 10);
+    expect(ranking.expectedLoss[2]).toBeCloseTo((0.8 + 0.6 + 0.2) / 3, 10);
+  });
+});
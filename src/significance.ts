@@ -0,0 +1,371 @@
+/**
+ * Significance tests and effect sizes over raw feedback
+ *
+ * Frequentist tests compare a treatment against a baseline:
+ * - two-proportion z-test and Fisher's exact test on success counts
+ * - Welch's t-test on continuous rewards
+ * - bootstrap percentile intervals for differences and relative lift
+ *
+ * Posterior draws give the Bayesian probability of being best and expected
+ * loss across any number of variants. Every result names the method that
+ * produced it.
+ */
+
+export interface ProportionSample {
+  successes: number;
+  trials: number;
+}
+
+export interface TestResult {
+  method: 'two-proportion z-test' | "Fisher's exact test" | "Welch's t-test";
+  statistic: number; // z, odds ratio or t
+  pValue: number; // Two-sided
+  degreesOfFreedom?: number;
+}
+
+export interface BootstrapInterval {
+  method: 'bootstrap percentile';
+  level: number;
+  resamples: number;
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+export interface BootstrapOptions {
+  resamples?: number;
+  level?: number;
+}
+
+/**
+ * Pooled two-proportion z-test; positive z means the treatment succeeds more often
+ */
+export function twoProportionZTest(
+  baseline: ProportionSample,
+  treatment: ProportionSample
+): TestResult {
+  const method = 'two-proportion z-test';
+  if (baseline.trials === 0 || treatment.trials === 0) {
+    return { method, statistic: 0, pValue: 1 };
+  }
+  const pA = baseline.successes / baseline.trials;
+  const pB = treatment.successes / treatment.trials;
+  const pooled = (baseline.successes + treatment.successes) / (baseline.trials + treatment.trials);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / baseline.trials + 1 / treatment.trials));
+  if (se === 0) return { method, statistic: 0, pValue: 1 };
+
+  const z = (pB - pA) / se;
+  return { method, statistic: z, pValue: Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))) };
+}
+
+/**
+ * Two-sided Fisher's exact test on the 2×2 success/failure table.
+ * The statistic is the sample odds ratio (treatment over baseline), with the
+ * Haldane–Anscombe correction (+0.5 to every cell) when a cell is zero, so
+ * small pilot samples still get a finite ratio.
+ */
+export function fisherExactTest(
+  baseline: ProportionSample,
+  treatment: ProportionSample
+): TestResult {
+  const a = treatment.successes;
+  const b = treatment.trials - treatment.successes;
+  const c = baseline.successes;
+  const d = baseline.trials - baseline.successes;
+
+  const row = treatment.trials;
+  const column = a + c;
+  const total = treatment.trials + baseline.trials;
+  const logProbability = (x: number) =>
+    lnChoose(row, x) + lnChoose(total - row, column - x) - lnChoose(total, column);
+
+  const observed = logProbability(a);
+  let pValue = 0;
+  for (let x = Math.max(0, column - (total - row)); x <= Math.min(row, column); x++) {
+    const logP = logProbability(x);
+    // Relative tolerance so tables as likely as the observed one are counted
+    if (logP <= observed + 1e-7) pValue += Math.exp(logP);
+  }
+
+  const correction = a === 0 || b === 0 || c === 0 || d === 0 ? 0.5 : 0;
+  const oddsRatio = ((a + correction) * (d + correction)) / ((b + correction) * (c + correction));
+
+  return {
+    method: "Fisher's exact test",
+    statistic: oddsRatio,
+    pValue: Math.min(1, pValue),
+  };
+}
+
+/**
+ * Welch's unequal-variance t-test; positive t means the treatment mean is higher
+ */
+export function welchTTest(baseline: number[], treatment: number[]): TestResult {
+  const method = "Welch's t-test";
+  if (baseline.length < 2 || treatment.length < 2) {
+    return { method, statistic: 0, pValue: 1, degreesOfFreedom: 0 };
+  }
+
+  const seA = variance(baseline) / baseline.length;
+  const seB = variance(treatment) / treatment.length;
+  const difference = mean(treatment) - mean(baseline);
+  const se = Math.sqrt(seA + seB);
+  if (se === 0) {
+    const degreesOfFreedom = baseline.length + treatment.length - 2;
+    return difference === 0
+      ? { method, statistic: 0, pValue: 1, degreesOfFreedom }
+      : { method, statistic: Math.sign(difference) * Infinity, pValue: 0, degreesOfFreedom };
+  }
+
+  const t = difference / se;
+  const degreesOfFreedom =
+    (seA + seB) ** 2 / (seA ** 2 / (baseline.length - 1) + seB ** 2 / (treatment.length - 1));
+  // Two-sided tail of Student's t: I_{ν/(ν+t²)}(ν/2, 1/2)
+  const pValue = regularizedIncompleteBeta(
+    degreesOfFreedom / (degreesOfFreedom + t * t),
+    degreesOfFreedom / 2,
+    0.5
+  );
+  return { method, statistic: t, pValue, degreesOfFreedom };
+}
+
+/**
+ * Percentile bootstrap interval for statistic(baseline, treatment).
+ * Returns null when there is no data or the statistic is never finite.
+ */
+export function bootstrapInterval(
+  baseline: number[],
+  treatment: number[],
+  statistic: (baseline: number[], treatment: number[]) => number,
+  uniform: () => number,
+  options: BootstrapOptions = {}
+): BootstrapInterval | null {
+  const resamples = options.resamples ?? 2000;
+  const level = options.level ?? 0.95;
+  const estimate = statistic(baseline, treatment);
+  if (baseline.length === 0 || treatment.length === 0 || !Number.isFinite(estimate)) return null;
+
+  const resample = (values: number[]) =>
+    values.map(() => values[Math.floor(uniform() * values.length)]);
+  const draws: number[] = [];
+  for (let i = 0; i < resamples; i++) {
+    const value = statistic(resample(baseline), resample(treatment));
+    if (Number.isFinite(value)) draws.push(value);
+  }
+  if (draws.length === 0) return null;
+
+  draws.sort((x, y) => x - y);
+  const tail = (1 - level) / 2;
+  return {
+    method: 'bootstrap percentile',
+    level,
+    resamples,
+    estimate,
+    lower: quantile(draws, tail),
+    upper: quantile(draws, 1 - tail),
+  };
+}
+
+/**
+ * Cohen's h for two proportions (treatment minus baseline)
+ */
+export function cohensH(baselineRate: number, treatmentRate: number): number {
+  return 2 * Math.asin(Math.sqrt(treatmentRate)) - 2 * Math.asin(Math.sqrt(baselineRate));
+}
+
+/**
+ * Cohen's d with pooled standard deviation (treatment minus baseline)
+ */
+export function cohensD(baseline: number[], treatment: number[]): number {
+  if (baseline.length < 2 || treatment.length < 2) return 0;
+  const pooled = Math.sqrt(
+    ((baseline.length - 1) * variance(baseline) + (treatment.length - 1) * variance(treatment)) /
+      (baseline.length + treatment.length - 2)
+  );
+  const difference = mean(treatment) - mean(baseline);
+  if (pooled === 0) return difference === 0 ? 0 : Math.sign(difference) * Infinity;
+  return difference / pooled;
+}
+
+/**
+ * Relative lift of the treatment mean over the baseline mean
+ */
+export function relativeLift(baseline: number[], treatment: number[]): number {
+  return (mean(treatment) - mean(baseline)) / Math.abs(mean(baseline));
+}
+
+export function meanDifference(baseline: number[], treatment: number[]): number {
+  return mean(treatment) - mean(baseline);
+}
+
+/**
+ * Probability of being best and expected loss E[max θ − θᵢ] from posterior
+ * draws, where draws[i][s] is the s-th draw of variant i
+ */
+export function posteriorRanking(draws: number[][]): {
+  probabilityOfBest: number[];
+  expectedLoss: number[];
+} {
+  const k = draws.length;
+  const samples = k > 0 ? draws[0].length : 0;
+  const wins = new Array(k).fill(0);
+  const loss = new Array(k).fill(0);
+
+  for (let s = 0; s < samples; s++) {
+    let best = 0;
+    for (let i = 1; i < k; i++) {
+      if (draws[i][s] > draws[best][s]) best = i;
+    }
+    wins[best]++;
+    for (let i = 0; i < k; i++) loss[i] += draws[best][s] - draws[i][s];
+  }
+
+  return {
+    probabilityOfBest: wins.map(w => (samples > 0 ? w / samples : 1 / k)),
+    expectedLoss: loss.map(l => (samples > 0 ? l / samples : 0)),
+  };
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Standard normal CDF via the complementary error function (Numerical Recipes erfc)
+ */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * z);
+  const erfc =
+    t *
+    Math.exp(
+      -z * z -
+        1.26551223 +
+        t *
+          (1.00002368 +
+            t *
+              (0.37409196 +
+                t *
+                  (0.09678418 +
+                    t *
+                      (-0.18628806 +
+                        t *
+                          (0.27886807 +
+                            t *
+                              (-1.13520398 +
+                                t * (1.48851587 + t * (-0.82215223 + t * 0.17087277))))))))
+    );
+  return x >= 0 ? 1 - erfc / 2 : erfc / 2;
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation, |error| < 1.2e-9)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716,
+    2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972,
+    -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734,
+    4.374664141464968, 2.938163982698783,
+  ];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const x =
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < low ? x : -x;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+function lnGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  x -= 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (x + i);
+  const t = x + LANCZOS.length - 1.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function lnChoose(n: number, k: number): number {
+  return lnGamma(n + 1) - lnGamma(k + 1) - lnGamma(n - k + 1);
+}
+
+/**
+ * Regularized incomplete beta I_x(a, b) by continued fraction (Lentz)
+ */
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    lnGamma(a + b) - lnGamma(a) - lnGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  if (x < (a + 1) / (a + b + 2)) return (front * betaContinuedFraction(x, a, b)) / a;
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+}
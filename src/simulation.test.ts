@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  linUCBStrategy,
+  runSimulation,
+  thompsonStrategy,
+  uniformStrategy,
+  type SyntheticArm,
+} from './simulation';
+
+describe('Bandit simulation', () => {
+  const bernoulli: SyntheticArm[] = [
+    { type: 'bernoulli', p: 0.2 },
+    { type: 'bernoulli', p: 0.8 },
+  ];
+
+  test('Thompson Sampling beats uniform allocation on Bernoulli arms', () => {
+    const ts = runSimulation(bernoulli, thompsonStrategy, { rounds: 300, seed: 11 });
+    const uniform = runSimulation(bernoulli, uniformStrategy, { rounds: 300, seed: 11 });
+
+    expect(ts.bestArm).toBe(1);
+    expect(ts.pulls[1]).toBeGreaterThan(ts.pulls[0] * 3);
+    expect(ts.cumulativeRegret).toBeLessThan(uniform.cumulativeRegret / 2);
+    expect(ts.identifiedAt).not.toBeNull();
+    expect(ts.regretCurve[ts.regretCurve.length - 1]).toEqual({
+      round: 300,
+      regret: ts.cumulativeRegret,
+    });
+  });
+
+  test('seeded environments are reproducible', () => {
+    const first = runSimulation(bernoulli, uniformStrategy, { rounds: 100, seed: 5 });
+    const second = runSimulation(bernoulli, uniformStrategy, { rounds: 100, seed: 5 });
+    const other = runSimulation(bernoulli, uniformStrategy, { rounds: 100, seed: 6 });
+
+    expect(second).toEqual(first);
+    expect(other.regretCurve).not.toEqual(first.regretCurve);
+  });
+
+  test('seeded Thompson Sampling runs replay exactly', () => {
+    const first = runSimulation(bernoulli, thompsonStrategy, { rounds: 100, seed: 5 });
+    const second = runSimulation(bernoulli, thompsonStrategy, { rounds: 100, seed: 5 });
+
+    expect(second).toEqual(first);
+  });
+
+  test('LinUCB learns hidden linear weights', () => {
+    const arms: SyntheticArm[] = [
+      { type: 'contextual', weights: [0.1, 0.8, 0], noise: 0.05 },
+      { type: 'contextual', weights: [0.1, 0, 0.8], noise: 0.05 },
+      { type: 'contextual', weights: [0.2, 0, 0], noise: 0.05 },
+    ];
+    const linucb = runSimulation(arms, linUCBStrategy, {
+      rounds: 200,
+      seed: 3,
+      explorationRate: 0.3,
+    });
+    const uniform = runSimulation(arms, uniformStrategy, { rounds: 200, seed: 3 });
+
+    expect(linucb.cumulativeRegret).toBeLessThan(uniform.cumulativeRegret / 2);
+    expect(linucb.pulls[2]).toBeLessThan(linucb.pulls[0]);
+  });
+
+  test('discounting tracks a drifting arm', () => {
+    const arms: SyntheticArm[] = [
+      { type: 'drifting', from: 0.9, to: 0.1, driftRounds: 150 },
+      { type: 'bernoulli', p: 0.5 },
+    ];
+    const stationary = runSimulation(arms, thompsonStrategy, { rounds: 300, seed: 2 });
+    const discounted = runSimulation(arms, thompsonStrategy, {
+      rounds: 300,
+      seed: 2,
+      driftPolicy: { mode: 'discounted', gamma: 0.95 },
+    });
+
+    expect(discounted.bestArm).toBe(1);
+    expect(discounted.cumulativeRegret).toBeLessThan(stationary.cumulativeRegret);
+  });
+
+  test('a sliding window over rounds still converges', () => {
+    // Feedback is stamped with the round number, so windowMs counts rounds
+    const sliding = runSimulation(bernoulli, thompsonStrategy, {
+      rounds: 300,
+      seed: 4,
+      driftPolicy: { mode: 'sliding_window', windowMs: 100 },
+    });
+
+    expect(sliding.bestArm).toBe(1);
+    expect(sliding.pulls[1]).toBeGreaterThan(240);
+  });
+
+  test('gaussian arms with a Normal-Inverse-Gamma posterior', () => {
+    const arms: SyntheticArm[] = [
+      { type: 'gaussian', mean: 2, sd: 1 },
+      { type: 'gaussian', mean: 3, sd: 1 },
+    ];
+    const report = runSimulation(arms, thompsonStrategy, {
+      rounds: 150,
+      seed: 9,
+      posteriorFamily: 'normal-inverse-gamma',
+    });
+    expect(report.pulls[1]).toBeGreaterThan(report.pulls[0]);
+  });
+});
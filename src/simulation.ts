@@ -0,0 +1,230 @@
+/**
+ * Bandit simulation harness
+ *
+ * Runs a selection strategy for N rounds against synthetic arms, using a
+ * fresh in-memory plugin, and reports regret, pull counts and how long it
+ * took to settle on the best arm. The environment (rewards and contexts), the
+ * strategy and the plugin each get a stream derived from the seed, so a run
+ * replays exactly.
+ *
+ * Arms:
+ * - bernoulli:  success with probability p
+ * - gaussian:   reward ~ N(mean, sd)
+ * - drifting:   Bernoulli whose p moves linearly from `from` to `to` over `driftRounds`
+ * - contextual: reward = wᵀx + N(0, noise²) for hidden weights w
+ *
+ * Continuous rewards are reported as a success with probability clip(reward, 0, 1),
+ * so success-based posteriors see the same expected value.
+ */
+
+import { ABLearningPlugin } from './ab-learning';
+import type { DriftPolicy } from './drift';
+import type { PosteriorFamily } from './posterior';
+import { seededRandom, type RandomSource } from './random';
+
+export type SyntheticArm =
+  | { type: 'bernoulli'; p: number }
+  | { type: 'gaussian'; mean: number; sd: number }
+  | { type: 'drifting'; from: number; to: number; driftRounds: number }
+  | { type: 'contextual'; weights: number[]; noise?: number };
+
+export interface SimulationRound {
+  round: number;
+  taskId: string;
+  candidateIds: string[]; // One variant per arm, in arm order
+  context: number[]; // [1, x₁, …] for contextual environments, [] otherwise
+  random: RandomSource; // Seeded stream for strategies that randomise themselves
+}
+
+export interface SimulationStrategy {
+  name: string;
+  /** Choose a variant and record its assignment for round.taskId */
+  select(plugin: ABLearningPlugin, round: SimulationRound): string;
+  /** Feed the observed outcome back (after recordFeedback, which the harness does) */
+  update?(
+    plugin: ABLearningPlugin,
+    round: SimulationRound,
+    variantId: string,
+    reward: number
+  ): void;
+}
+
+export interface SimulationOptions {
+  rounds: number;
+  seed?: number;
+  posteriorFamily?: PosteriorFamily;
+  driftPolicy?: DriftPolicy;
+  explorationRate?: number; // Initial LinUCB α
+  checkpoints?: number; // Points on the regret curve
+}
+
+export interface SimulationReport {
+  strategy: string;
+  rounds: number;
+  seed: number;
+  cumulativeRegret: number; // Σ (best expected reward − chosen arm's expected reward)
+  regretCurve: { round: number; regret: number }[];
+  pulls: number[]; // Per arm
+  bestArm: number; // Best arm at the final round
+  identifiedAt: number | null; // First round from which the most-pulled arm is always the best
+}
+
+export const thompsonStrategy: SimulationStrategy = {
+  name: 'thompson',
+  select: (plugin, round) => plugin.assignVariant(round.candidateIds, '', round.taskId).variantId,
+};
+
+export const linUCBStrategy: SimulationStrategy = {
+  name: 'linucb',
+  select: (plugin, round) =>
+    plugin.assignContextualVariant(round.candidateIds, round.context, round.taskId).variantId,
+  update: (plugin, round, variantId, reward) =>
+    plugin.recordContextualReward(variantId, round.context, reward),
+};
+
+export const uniformStrategy: SimulationStrategy = {
+  name: 'uniform',
+  select: (plugin, round) =>
+    plugin.assignUniformVariant(round.candidateIds, '', round.taskId).variantId,
+};
+
+/**
+ * Run one strategy against an environment and report its regret
+ */
+export function runSimulation(
+  arms: SyntheticArm[],
+  strategy: SimulationStrategy,
+  options: SimulationOptions
+): SimulationReport {
+  if (arms.length < 2) {
+    throw new Error('A simulation needs at least two arms');
+  }
+  const dimensions = new Set(
+    arms.flatMap(arm => (arm.type === 'contextual' ? [arm.weights.length] : []))
+  );
+  if (dimensions.size > 1) {
+    throw new Error('Contextual arms must share one weight dimension');
+  }
+  const dimension = dimensions.size > 0 ? [...dimensions][0] : 0;
+
+  const seed = options.seed ?? 1;
+  const random = seededRandom(seed);
+  const strategyRandom = seededRandom(seed ^ 0x5bd1e995);
+  const checkpointStep = Math.max(1, Math.floor(options.rounds / (options.checkpoints ?? 20)));
+
+  const plugin = new ABLearningPlugin(':memory:', {
+    explorationRate: options.explorationRate,
+    seed: seed ^ 0x27d4eb2f,
+  });
+  try {
+    const experiment = plugin.createExperiment(
+      'simulation',
+      undefined,
+      undefined,
+      options.posteriorFamily
+    );
+    if (options.driftPolicy) plugin.setDriftPolicy(experiment.id, options.driftPolicy);
+    const candidateIds = arms.map((_, i) =>
+      plugin.createVariant(`arm-${i}`, undefined, 0, experiment.id)
+    );
+
+    const pulls = new Array(arms.length).fill(0);
+    const regretCurve: { round: number; regret: number }[] = [];
+    let cumulativeRegret = 0;
+    let identifiedAt: number | null = null;
+    // Best arm in expectation over contexts, for identification
+    const meanContext = dimension > 0 ? [1, ...new Array(dimension - 1).fill(0.5)] : [];
+
+    for (let t = 1; t <= options.rounds; t++) {
+      const context = dimension > 0 ? [1, ...Array.from({ length: dimension - 1 }, random)] : [];
+      const round: SimulationRound = {
+        round: t,
+        taskId: `sim_${t}`,
+        candidateIds,
+        context,
+        random: strategyRandom,
+      };
+
+      const variantId = strategy.select(plugin, round);
+      const arm = candidateIds.indexOf(variantId);
+      if (arm < 0) {
+        throw new Error(`Strategy ${strategy.name} chose an unknown variant: ${variantId}`);
+      }
+
+      const expected = arms.map(a => expectedReward(a, t, context));
+      const { reward, success } = observe(arms[arm], t, context, random);
+      plugin.recordFeedback({
+        taskId: round.taskId,
+        reward,
+        latencyMs: 0,
+        tokenCost: 0,
+        success,
+        timestamp: t,
+      });
+      strategy.update?.(plugin, round, variantId, reward);
+
+      pulls[arm]++;
+      cumulativeRegret += Math.max(...expected) - expected[arm];
+      if (t % checkpointStep === 0 || t === options.rounds) {
+        regretCurve.push({ round: t, regret: cumulativeRegret });
+      }
+
+      const leader = pulls.indexOf(Math.max(...pulls));
+      const best = argMax(arms.map(a => expectedReward(a, t, meanContext)));
+      if (leader !== best) identifiedAt = null;
+      else if (identifiedAt === null) identifiedAt = t;
+    }
+
+    return {
+      strategy: strategy.name,
+      rounds: options.rounds,
+      seed,
+      cumulativeRegret,
+      regretCurve,
+      pulls,
+      bestArm: argMax(arms.map(a => expectedReward(a, options.rounds, meanContext))),
+      identifiedAt,
+    };
+  } finally {
+    plugin.close();
+  }
+}
+
+export function expectedReward(arm: SyntheticArm, round: number, context: number[]): number {
+  switch (arm.type) {
+    case 'bernoulli':
+      return arm.p;
+    case 'gaussian':
+      return arm.mean;
+    case 'drifting':
+      return arm.from + (arm.to - arm.from) * Math.min(1, round / arm.driftRounds);
+    case 'contextual':
+      return arm.weights.reduce((sum, w, i) => sum + w * context[i], 0);
+  }
+}
+
+function observe(
+  arm: SyntheticArm,
+  round: number,
+  context: number[],
+  random: RandomSource
+): { reward: number; success: boolean } {
+  const mean = expectedReward(arm, round, context);
+  if (arm.type === 'bernoulli' || arm.type === 'drifting') {
+    const success = random() < mean;
+    return { reward: success ? 1 : 0, success };
+  }
+
+  const sd = arm.type === 'gaussian' ? arm.sd : (arm.noise ?? 0);
+  const reward = mean + sd * standardNormal(random);
+  return { reward, success: random() < Math.min(1, Math.max(0, reward)) };
+}
+
+function standardNormal(random: RandomSource): number {
+  // Box-Muller; 1 − u keeps the logarithm finite
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function argMax(values: number[]): number {
+  return values.indexOf(Math.max(...values));
+}
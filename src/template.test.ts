@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test';
+import { checkOffspringTemplate, renderTemplate, templateVariables } from './template';
+
+describe('Prompt templates', () => {
+  test('declared variables are parsed in order of appearance', () => {
+    expect(
+      templateVariables('Review this {{language}} diff:\n{{ diff }}\nin {{language}}')
+    ).toEqual(['language', 'diff']);
+    expect(templateVariables('No placeholders, just {braces}.')).toEqual([]);
+  });
+
+  test('malformed placeholders are rejected', () => {
+    expect(() => templateVariables('Review {{my-diff}}')).toThrow(
+      'Invalid template placeholder: {{my-diff}}'
+    );
+    expect(() => templateVariables('Review {{1st}}')).toThrow('Invalid template placeholder');
+    expect(() => templateVariables('Review {{diff')).toThrow('unclosed {{ placeholder');
+  });
+
+  test('rendering fills every placeholder once', () => {
+    const rendered = renderTemplate('Fix {{language}} code: {{diff}} ({{attempt}})', {
+      language: 'TypeScript',
+      diff: 'costs $1 and {{language}}',
+      attempt: 2,
+      unused: 'ignored',
+    });
+
+    expect(rendered).toBe('Fix TypeScript code: costs $1 and {{language}} (2)');
+    expect(() => renderTemplate('{{language}} {{diff}}', { language: 'Go' })).toThrow(
+      'Missing template variables: diff'
+    );
+  });
+
+  test('offspring must keep shared variables and not invent new ones', () => {
+    const a = 'Review {{diff}} in {{language}}';
+    const b = 'Find bugs in {{diff}}';
+
+    expect(checkOffspringTemplate([a, b], 'Review {{diff}} for {{language}} bugs')).toBeNull();
+    expect(checkOffspringTemplate([a, b], 'Find bugs in {{diff}}')).toBeNull();
+    expect(checkOffspringTemplate([a, b], 'Review the {{language}} code')).toBe(
+      'placeholders changed: dropped {{diff}}'
+    );
+    expect(checkOffspringTemplate([a], 'Review {{patch}} in {{language}}')).toBe(
+      'placeholders changed: dropped {{diff}}; invented {{patch}}'
+    );
+    expect(checkOffspringTemplate([a], 'Review {{diff')).toContain('unclosed');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Prompt templates with {{variable}} placeholders
+ *
+ * A template declares its variables through its placeholders. Names are
+ * identifiers (letters, digits and underscores, not starting with a digit),
+ * optionally padded with spaces: `{{ diff }}`. Every declared variable must be
+ * supplied when rendering. Values are inserted verbatim in a single pass, so a
+ * value that itself contains `{{…}}` is never expanded.
+ */
+
+export type TemplateValues = Record<string, string | number | boolean>;
+
+const PLACEHOLDER = /\{\{([^{}]*)\}\}/g;
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Variables a template declares, in order of first appearance.
+ * Throws on malformed or unclosed placeholders.
+ */
+export function templateVariables(template: string): string[] {
+  const variables: string[] = [];
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const name = match[1].trim();
+    if (!VARIABLE_NAME.test(name)) {
+      throw new Error(`Invalid template placeholder: ${match[0]}`);
+    }
+    if (!variables.includes(name)) variables.push(name);
+  }
+  if (template.replace(PLACEHOLDER, '').includes('{{')) {
+    throw new Error('Template has an unclosed {{ placeholder');
+  }
+  return variables;
+}
+
+/**
+ * Fill every placeholder; missing variables are an error, extra values are ignored
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  const missing = templateVariables(template).filter(name => values[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing template variables: ${missing.join(', ')}`);
+  }
+  return template.replace(PLACEHOLDER, (_, name: string) => String(values[name.trim()]));
+}
+
+/**
+ * Why an offspring's placeholders are unacceptable, or null when they are fine.
+ * Variables every parent declares must survive; variables no parent declares
+ * must not appear.
+ */
+export function checkOffspringTemplate(parents: string[], offspring: string): string | null {
+  let variables: string[];
+  try {
+    variables = templateVariables(offspring);
+  } catch (error) {
+    return (error as Error).message;
+  }
+
+  const declared = parents.map(templateVariables);
+  const required = declared[0]?.filter(name => declared.every(vars => vars.includes(name))) ?? [];
+  const dropped = required.filter(name => !variables.includes(name));
+  const invented = variables.filter(name => !declared.some(vars => vars.includes(name)));
+
+  const problems: string[] = [];
+  if (dropped.length > 0) problems.push(`dropped ${dropped.map(placeholder).join(', ')}`);
+  if (invented.length > 0) problems.push(`invented ${invented.map(placeholder).join(', ')}`);
+  return problems.length > 0 ? `placeholders changed: ${problems.join('; ')}` : null;
+}
+
+function placeholder(name: string): string {
+  return `{{${name}}}`;
+}